@@ -1,15 +1,31 @@
 import { useEffect, useMemo, useState } from 'react';
 import { AdminUsersPanel } from './components/AdminUsersPanel';
+import { ApiTokensPanel } from './components/ApiTokensPanel';
 import { AuthPage } from './components/AuthPage';
 import { BoardMain } from './components/BoardMain';
 import { BoardSidebar } from './components/BoardSidebar';
 import { CardModal } from './components/CardModal';
+import { SessionsPanel } from './components/SessionsPanel';
+import { WebhooksPanel } from './components/WebhooksPanel';
 import { useKanbanApp } from './hooks/useKanbanApp';
 
 export function App() {
   const app = useKanbanApp();
   const [paletteOpen, setPaletteOpen] = useState(false);
   const [paletteQuery, setPaletteQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  useEffect(() => {
+    if (!app.token) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      void app.searchCards(searchQuery);
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [searchQuery, app.token]);
 
   useEffect(() => {
     if (!app.token || !app.user) {
@@ -34,11 +50,19 @@ export function App() {
       id: `board-${board.id}`,
       label: `Open board: ${board.name}`,
       run: () => {
-        void app.loadBoard(board.id, false);
+        void app.selectBoard(board.id);
       }
     }));
 
     const staticActions = [
+      {
+        id: 'search-cards',
+        label: 'Search cards and comments',
+        run: () => {
+          const input = document.querySelector<HTMLInputElement>('.global-search input');
+          input?.focus();
+        }
+      },
       {
         id: 'create-board',
         label: 'Focus Create Board',
@@ -47,6 +71,16 @@ export function App() {
           input?.focus();
         }
       },
+      {
+        id: 'sessions',
+        label: app.sessionsView ? 'Switch to Boards View' : 'Open Your Sessions',
+        run: () => (app.sessionsView ? app.closeSessionsView() : void app.openSessionsView())
+      },
+      {
+        id: 'api-tokens',
+        label: app.tokensView ? 'Switch to Boards View' : 'Open API Tokens',
+        run: () => (app.tokensView ? app.closeTokensView() : void app.openTokensView())
+      },
       {
         id: 'logout',
         label: 'Logout',
@@ -63,7 +97,21 @@ export function App() {
     }
 
     return [...staticActions, ...boardActions];
-  }, [app.boards, app.loadBoard, app.logout, app.user, app.adminView, app.closeAdminView, app.openAdminView]);
+  }, [
+    app.boards,
+    app.selectBoard,
+    app.logout,
+    app.user,
+    app.adminView,
+    app.closeAdminView,
+    app.openAdminView,
+    app.sessionsView,
+    app.closeSessionsView,
+    app.openSessionsView,
+    app.tokensView,
+    app.closeTokensView,
+    app.openTokensView
+  ]);
 
   const filteredPaletteActions = useMemo(() => {
     const query = paletteQuery.trim().toLowerCase();
@@ -103,14 +151,20 @@ export function App() {
     return (
       <AuthPage
         authMode={app.authMode}
+        invitePreview={app.invitePreview}
         authName={app.authName}
         authEmail={app.authEmail}
         authPassword={app.authPassword}
+        authCode={app.authCode}
         error={app.error}
+        notice={app.notice}
+        ssoProviderName={app.ssoProviderName}
         onAuthNameChange={app.setAuthName}
         onAuthEmailChange={app.setAuthEmail}
         onAuthPasswordChange={app.setAuthPassword}
+        onAuthCodeChange={app.setAuthCode}
         onSubmit={() => void app.submitAuth()}
+        onStartSso={app.startSso}
         onToggleMode={() => app.setAuthMode((prev) => (prev === 'login' ? 'register' : 'login'))}
         onSelectMode={app.setAuthMode}
       />
@@ -129,51 +183,250 @@ export function App() {
           boardName={app.boardName}
           onBoardNameChange={app.setBoardName}
           onCreateBoard={() => void app.createBoard()}
+          onImportBoard={(file) => {
+            void app.importBoard(file);
+          }}
           onSelectBoard={(boardId) => {
-            void app.loadBoard(boardId, false);
+            void app.selectBoard(boardId);
           }}
           adminView={app.adminView}
           onOpenAdminView={() => void app.openAdminView()}
           onCloseAdminView={app.closeAdminView}
+          sessionsView={app.sessionsView}
+          onOpenSessionsView={() => void app.openSessionsView()}
+          onCloseSessionsView={app.closeSessionsView}
+          tokensView={app.tokensView}
+          onOpenTokensView={() => void app.openTokensView()}
+          onCloseTokensView={app.closeTokensView}
           onLogout={app.logout}
         />
 
-        {app.adminView ? (
-          <AdminUsersPanel users={app.adminUsers} loading={app.loadingAdminUsers} />
-        ) : (
-          <BoardMain
-            activeBoard={app.activeBoard}
-            loadingBoard={app.loadingBoard}
-            error={app.error}
-            canWrite={app.canWrite}
-            sortedColumns={app.sortedColumns}
-            members={app.members}
-            onlineUserIds={app.onlineUserIds}
-            newColumnTitle={app.newColumnTitle}
-            onNewColumnTitleChange={app.setNewColumnTitle}
-            onCreateColumn={() => void app.createColumn()}
-            onRenameColumn={(columnId, currentTitle) => {
-              void app.renameColumn(columnId, currentTitle);
-            }}
-            newCardTitle={app.newCardTitle}
-            onNewCardTitleChange={app.setNewCardTitle}
-            newCardColumnId={app.newCardColumnId}
-            onNewCardColumnIdChange={app.setNewCardColumnId}
-            onCreateCard={() => void app.createCard()}
-            memberEmail={app.memberEmail}
-            onMemberEmailChange={app.setMemberEmail}
-            memberRole={app.memberRole}
-            onMemberRoleChange={app.setMemberRole}
-            onAddMember={() => void app.addMember()}
-            onMoveCard={(cardId, toColumnId, toPosition) => {
-              void app.moveCard(cardId, toColumnId, toPosition);
-            }}
-            onOpenCard={app.setSelectedCardId}
-            onDeleteCard={(cardId) => {
-              void app.deleteCard(cardId);
-            }}
-          />
-        )}
+        <div className="workspace">
+          <div className="global-search">
+            <input
+              type="search"
+              placeholder="Search cards and comments..."
+              aria-label="Search cards and comments"
+              value={searchQuery}
+              onChange={(event) => {
+                setSearchQuery(event.target.value);
+                setSearchOpen(true);
+              }}
+              onFocus={() => setSearchOpen(true)}
+              onKeyDown={(event) => {
+                if (event.key === 'Escape') {
+                  setSearchOpen(false);
+                }
+              }}
+            />
+            {searchOpen && searchQuery.trim() ? (
+              <div className="search-results">
+                {app.searching && app.searchResults.length === 0 ? <p className="muted">Searching...</p> : null}
+                {!app.searching && app.searchResults.length === 0 ? <p className="muted">No matches</p> : null}
+                {app.searchResults.map((hit) => (
+                  <button
+                    key={`${hit.type}-${hit.comment_id ?? hit.card_id}`}
+                    className="search-hit"
+                    onClick={() => {
+                      setSearchOpen(false);
+                      void app.openSearchHit(hit);
+                    }}
+                  >
+                    <span className="search-hit-meta">
+                      {hit.board_name} / {hit.card_title}
+                      {hit.type === 'comment' ? ' (comment)' : ''}
+                    </span>
+                    <span className="search-hit-snippet">
+                      {hit.snippet.map((segment, index) => (segment.match ? <mark key={index}>{segment.text}</mark> : segment.text))}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ) : null}
+          </div>
+
+          {app.adminView ? (
+            <AdminUsersPanel
+              users={app.adminUsers}
+              loading={app.loadingAdminUsers}
+              onUnlockUser={(userId) => {
+                void app.unlockUser(userId);
+              }}
+            />
+          ) : app.tokensView ? (
+            <ApiTokensPanel
+              tokens={app.apiTokens}
+              boards={app.boards}
+              loading={app.loadingApiTokens}
+              error={app.error}
+              createdToken={app.createdApiToken}
+              onCreateToken={app.createApiToken}
+              onRevokeToken={(tokenId) => {
+                void app.revokeApiToken(tokenId);
+              }}
+              onDismissCreatedToken={app.dismissCreatedApiToken}
+            />
+          ) : app.sessionsView ? (
+            <SessionsPanel
+              sessions={app.sessions}
+              loading={app.loadingSessions}
+              error={app.error}
+              onRevokeSession={(sessionId) => {
+                void app.revokeSession(sessionId);
+              }}
+              onRevokeOtherSessions={() => {
+                void app.revokeOtherSessions();
+              }}
+              onChangePassword={app.changePassword}
+              twoFactorStatus={app.twoFactorStatus}
+              twoFactorSetup={app.twoFactorSetup}
+              recoveryCodes={app.recoveryCodes}
+              onStartTwoFactorSetup={() => {
+                void app.startTwoFactorSetup();
+              }}
+              onCancelTwoFactorSetup={app.cancelTwoFactorSetup}
+              onEnableTwoFactor={(code) => {
+                void app.enableTwoFactor(code);
+              }}
+              onRegenerateRecoveryCodes={(code) => {
+                void app.regenerateRecoveryCodes(code);
+              }}
+              onDismissRecoveryCodes={app.dismissRecoveryCodes}
+              onDisableTwoFactor={(password, code) => {
+                void app.disableTwoFactor(password, code);
+              }}
+            />
+          ) : app.webhooksView && app.activeBoard ? (
+            <WebhooksPanel
+              boardName={app.activeBoard.name}
+              webhooks={app.webhooks}
+              loading={app.loadingWebhooks}
+              error={app.error}
+              createdSecret={app.createdWebhookSecret}
+              selectedWebhookId={app.selectedWebhookId}
+              deliveries={app.webhookDeliveries}
+              onClose={app.closeWebhooksView}
+              onCreateWebhook={app.createWebhook}
+              onSetWebhookActive={(webhookId, active) => {
+                void app.setWebhookActive(webhookId, active);
+              }}
+              onDeleteWebhook={(webhookId) => {
+                void app.deleteWebhook(webhookId);
+              }}
+              onShowDeliveries={(webhookId) => {
+                void app.loadWebhookDeliveries(webhookId);
+              }}
+              onRedeliver={(deliveryId) => {
+                void app.redeliverWebhookDelivery(deliveryId);
+              }}
+              onDismissSecret={app.dismissWebhookSecret}
+              inboundHook={app.inboundHook}
+              inboundHookUrl={app.inboundHookUrl}
+              onRotateInboundHook={() => {
+                void app.rotateInboundHook();
+              }}
+              onDisableInboundHook={() => {
+                void app.disableInboundHook();
+              }}
+              onDismissInboundHookUrl={app.dismissInboundHookUrl}
+            />
+          ) : (
+            <BoardMain
+              currentUserId={app.user.id}
+              activeBoard={app.activeBoard}
+              loadingBoard={app.loadingBoard}
+              error={app.error}
+              notice={app.notice}
+              boardFilters={app.boardFilters}
+              onBoardFiltersChange={app.setBoardFilters}
+              onClearBoardFilters={app.clearBoardFilters}
+              canWrite={app.canWrite}
+              sortedColumns={app.sortedColumns}
+              members={app.members}
+              onlineUserIds={app.onlineUserIds}
+              cardPresence={app.cardPresence}
+              cardDrags={app.cardDrags}
+              newColumnTitle={app.newColumnTitle}
+              onNewColumnTitleChange={app.setNewColumnTitle}
+              onCreateColumn={() => void app.createColumn()}
+              onRenameBoard={(name) => {
+                void app.renameBoard(name);
+              }}
+              onArchiveBoard={(archived) => {
+                void app.setBoardArchived(archived);
+              }}
+              onOpenWebhooks={() => {
+                void app.openWebhooksView();
+              }}
+              onExportBoard={(format) => {
+                void app.exportBoard(format);
+              }}
+              onDeleteBoard={() => {
+                void app.deleteBoard();
+              }}
+              onRenameColumn={(columnId, currentTitle) => {
+                void app.renameColumn(columnId, currentTitle);
+              }}
+              onDeleteColumn={(columnId, targetColumnId) => {
+                void app.deleteColumn(columnId, targetColumnId);
+              }}
+              onUpdateColumnWipLimit={(columnId, wipLimit, wipMode) => {
+                void app.updateColumnWipLimit(columnId, wipLimit, wipMode);
+              }}
+              onUpdateSwimlaneGroup={(group) => {
+                void app.updateSwimlaneGroup(group);
+              }}
+              onCreateLabel={(name, color) => {
+                void app.createLabel(name, color);
+              }}
+              onDeleteLabel={(labelId) => {
+                void app.deleteLabel(labelId);
+              }}
+              newCardTitle={app.newCardTitle}
+              onNewCardTitleChange={app.setNewCardTitle}
+              newCardColumnId={app.newCardColumnId}
+              onNewCardColumnIdChange={app.setNewCardColumnId}
+              onCreateCard={() => void app.createCard()}
+              memberEmail={app.memberEmail}
+              onMemberEmailChange={app.setMemberEmail}
+              memberRole={app.memberRole}
+              invitations={app.invitations}
+              onCreateInvitation={(options) => {
+                void app.createInvitation(options);
+              }}
+              onRevokeInvitation={(invitationId) => {
+                void app.revokeInvitation(invitationId);
+              }}
+              onMemberRoleChange={app.setMemberRole}
+              onAddMember={() => void app.addMember()}
+              onUpdateMemberRole={(memberId, role) => {
+                void app.updateMemberRole(memberId, role);
+              }}
+              onRemoveMember={(memberId) => {
+                void app.removeMember(memberId);
+              }}
+              onLeaveBoard={() => {
+                void app.leaveBoard();
+              }}
+              onTransferOwnership={(memberId, leave) => {
+                void app.transferOwnership(memberId, leave);
+              }}
+              onMoveCard={(cardId, toColumnId, toPosition) => {
+                void app.moveCard(cardId, toColumnId, toPosition);
+              }}
+              onMoveCardToLane={(cardId, fromLaneKey, toLaneKey) => {
+                void app.moveCardToLane(cardId, fromLaneKey, toLaneKey);
+              }}
+              onCardDragStart={app.startCardDrag}
+              onCardDragOver={app.dragCardOver}
+              onCardDragEnd={app.endCardDrag}
+              onOpenCard={app.setSelectedCardId}
+              onDeleteCard={(cardId) => {
+                void app.deleteCard(cardId);
+              }}
+            />
+          )}
+        </div>
       </div>
 
       {app.selectedCard ? (
@@ -185,18 +438,45 @@ export function App() {
           members={app.members}
           cardTitle={app.cardTitle}
           cardDescription={app.cardDescription}
-          cardAssignee={app.cardAssignee}
+          cardAssigneeIds={app.cardAssigneeIds}
           cardDueDate={app.cardDueDate}
           comments={app.comments}
+          checklists={app.checklists}
           cardActivities={app.cardActivities}
           newCommentBody={app.newCommentBody}
           savingCard={app.savingCard}
+          cardConflict={app.cardConflict}
+          cardPresence={app.cardPresence}
+          onEditingFieldChange={app.setEditingField}
           onClose={() => app.setSelectedCardId(null)}
           onCardTitleChange={app.setCardTitle}
           onCardDescriptionChange={app.setCardDescription}
-          onCardAssigneeChange={app.setCardAssignee}
+          onCardAssigneeIdsChange={app.setCardAssigneeIds}
           onCardDueDateChange={app.setCardDueDate}
           onSave={() => void app.saveCardDetails()}
+          onResolveConflict={(choices) => {
+            void app.resolveCardConflict(choices);
+          }}
+          onDismissConflict={app.dismissCardConflict}
+          onCreateChecklist={(title) => {
+            void app.createChecklist(title);
+          }}
+          onDeleteChecklist={(checklistId) => {
+            void app.deleteChecklist(checklistId);
+          }}
+          onAddChecklistItem={(checklistId, body) => {
+            void app.addChecklistItem(checklistId, body);
+          }}
+          onUpdateChecklistItem={(checklistId, itemId, changes) => {
+            void app.updateChecklistItem(checklistId, itemId, changes);
+          }}
+          onDeleteChecklistItem={(checklistId, itemId) => {
+            void app.deleteChecklistItem(checklistId, itemId);
+          }}
+          onMoveChecklistItem={(checklistId, itemId, toPosition) => {
+            void app.moveChecklistItem(checklistId, itemId, toPosition);
+          }}
+          onToggleLabel={(labelId) => void app.toggleCardLabel(labelId)}
           onDeleteCard={() => {
             if (!app.selectedCard) {
               return;
@@ -4,10 +4,11 @@ import type { AdminUser } from '../types';
 type AdminUsersPanelProps = {
   users: AdminUser[];
   loading: boolean;
+  onUnlockUser: (userId: number) => void;
 };
 
 export function AdminUsersPanel(props: AdminUsersPanelProps) {
-  const { users, loading } = props;
+  const { users, loading, onUnlockUser } = props;
 
   return (
     <main className="main">
@@ -31,6 +32,8 @@ export function AdminUsersPanel(props: AdminUsersPanelProps) {
                   <th>Email</th>
                   <th>Role</th>
                   <th>Created</th>
+                  <th>Failed logins (24h)</th>
+                  <th>Sign-in</th>
                 </tr>
               </thead>
               <tbody>
@@ -41,6 +44,19 @@ export function AdminUsersPanel(props: AdminUsersPanelProps) {
                     <td>{user.email}</td>
                     <td>{user.is_admin ? 'admin' : 'user'}</td>
                     <td>{formatDateTime(user.created_at)}</td>
+                    <td>{user.failed_logins_24h}</td>
+                    <td>
+                      {user.locked_until ? (
+                        <>
+                          Locked until {formatDateTime(user.locked_until)}{' '}
+                          <button className="link-button" onClick={() => onUnlockUser(user.id)}>
+                            Unlock
+                          </button>
+                        </>
+                      ) : (
+                        'Active'
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { formatDateTime } from '../lib/api';
+import type { ApiToken, ApiTokenDraft, ApiTokenScope, BoardSummary } from '../types';
+
+type ApiTokensPanelProps = {
+  tokens: ApiToken[];
+  boards: BoardSummary[];
+  loading: boolean;
+  error: string | null;
+  createdToken: string | null;
+  onCreateToken: (draft: ApiTokenDraft) => Promise<boolean>;
+  onRevokeToken: (tokenId: number) => void;
+  onDismissCreatedToken: () => void;
+};
+
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null }
+];
+
+export function ApiTokensPanel(props: ApiTokensPanelProps) {
+  const { tokens, boards, loading, error, createdToken, onCreateToken, onRevokeToken, onDismissCreatedToken } = props;
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiTokenScope>('read');
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(30);
+  const [limitBoards, setLimitBoards] = useState(false);
+  const [boardIds, setBoardIds] = useState<number[]>([]);
+  const boardNames = new Map(boards.map((board) => [board.id, board.name]));
+
+  function toggleBoard(boardId: number) {
+    setBoardIds((current) => (current.includes(boardId) ? current.filter((id) => id !== boardId) : [...current, boardId]));
+  }
+
+  async function submitToken() {
+    const created = await onCreateToken({
+      name: name.trim(),
+      scope,
+      boardIds: limitBoards ? boardIds : null,
+      expiresInDays
+    });
+    if (created) {
+      setName('');
+      setBoardIds([]);
+      setLimitBoards(false);
+    }
+  }
+
+  return (
+    <main className="main">
+      <div className="board-header">
+        <div>
+          <h2>API Tokens</h2>
+          <p className="board-role">Personal tokens for scripts and CI. Send one as a Bearer token in the Authorization header.</p>
+        </div>
+      </div>
+
+      {createdToken ? (
+        <section className="sessions-panel api-token-created">
+          <p className="board-role">Copy this token now. It will not be shown again.</p>
+          <code>{createdToken}</code>
+          <div>
+            <button onClick={onDismissCreatedToken}>Done</button>
+          </div>
+        </section>
+      ) : null}
+
+      <section className="sessions-panel">
+        <h3>New Token</h3>
+        <div className="change-password-fields">
+          <input value={name} onChange={(event) => setName(event.target.value)} placeholder="Token name, e.g. CI deploy" />
+          <select value={scope} onChange={(event) => setScope(event.target.value as ApiTokenScope)}>
+            <option value="read">Read only</option>
+            <option value="write">Read and write</option>
+          </select>
+          <select
+            value={expiresInDays === null ? '' : String(expiresInDays)}
+            onChange={(event) => setExpiresInDays(event.target.value ? Number(event.target.value) : null)}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days === null ? '' : String(option.days)}>
+                Expires: {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="api-token-limit">
+          <input type="checkbox" checked={limitBoards} onChange={(event) => setLimitBoards(event.target.checked)} />
+          Only allow specific boards
+        </label>
+        {limitBoards ? (
+          <div className="api-token-boards">
+            {boards.map((board) => (
+              <label key={board.id}>
+                <input type="checkbox" checked={boardIds.includes(board.id)} onChange={() => toggleBoard(board.id)} />
+                {board.name}
+              </label>
+            ))}
+          </div>
+        ) : null}
+        <button onClick={() => void submitToken()} disabled={!name.trim() || (limitBoards && boardIds.length === 0)}>
+          Create Token
+        </button>
+        {error ? <p className="error">{error}</p> : null}
+      </section>
+
+      <section className="sessions-panel">
+        {loading ? <p>Loading tokens...</p> : null}
+        {!loading && tokens.length === 0 ? <p>No API tokens yet.</p> : null}
+        {!loading && tokens.length > 0 ? (
+          <div className="admin-users-table-wrap">
+            <table className="sessions-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Token</th>
+                  <th>Access</th>
+                  <th>Boards</th>
+                  <th>Expires</th>
+                  <th>Last used</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {tokens.map((entry) => (
+                  <tr key={entry.id}>
+                    <td>{entry.name}</td>
+                    <td>
+                      <code>{entry.token_prefix}…</code>
+                    </td>
+                    <td>{entry.scope === 'write' ? 'Read and write' : 'Read only'}</td>
+                    <td>{entry.board_ids ? entry.board_ids.map((id) => boardNames.get(id) ?? `#${id}`).join(', ') : 'All boards'}</td>
+                    <td>{entry.expires_at ? formatDateTime(entry.expires_at) : 'Never'}</td>
+                    <td>{formatDateTime(entry.last_used_at)}</td>
+                    <td>
+                      <button className="link-button" onClick={() => onRevokeToken(entry.id)}>
+                        Revoke
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </section>
+    </main>
+  );
+}
@@ -1,32 +1,71 @@
+import type { AuthMode, InvitationPreview } from '../types';
+
 type AuthPageProps = {
-  authMode: 'login' | 'register';
+  authMode: AuthMode;
+  invitePreview: InvitationPreview | null;
   authName: string;
   authEmail: string;
   authPassword: string;
+  authCode: string;
   error: string | null;
+  notice: string | null;
+  ssoProviderName: string | null;
   onAuthNameChange: (value: string) => void;
   onAuthEmailChange: (value: string) => void;
   onAuthPasswordChange: (value: string) => void;
+  onAuthCodeChange: (value: string) => void;
   onSubmit: () => void;
+  onStartSso: () => void;
   onToggleMode: () => void;
-  onSelectMode: (mode: 'login' | 'register') => void;
+  onSelectMode: (mode: AuthMode) => void;
+};
+
+const AUTH_COPY: Record<AuthMode, { title: string; subtitle: string; submit: string; toggle: string }> = {
+  login: { title: 'Welcome Back', subtitle: 'Sign in to continue', submit: 'Login', toggle: 'Need an account? Register' },
+  register: {
+    title: 'Create Account',
+    subtitle: 'Set up your account to get started',
+    submit: 'Register',
+    toggle: 'Already have an account? Login'
+  },
+  forgot: {
+    title: 'Reset Password',
+    subtitle: 'We will email you a link to choose a new password',
+    submit: 'Send Reset Link',
+    toggle: 'Back to login'
+  },
+  reset: { title: 'Choose a New Password', subtitle: 'Enter the password you want to use from now on', submit: 'Set Password', toggle: 'Back to login' },
+  twoFactor: {
+    title: 'Two-Factor Verification',
+    subtitle: 'Enter the 6-digit code from your authenticator app, or one of your recovery codes',
+    submit: 'Verify',
+    toggle: 'Back to login'
+  }
 };
 
 export function AuthPage(props: AuthPageProps) {
   const {
     authMode,
+    invitePreview,
     authName,
     authEmail,
     authPassword,
+    authCode,
     error,
+    notice,
+    ssoProviderName,
     onAuthNameChange,
     onAuthEmailChange,
     onAuthPasswordChange,
+    onAuthCodeChange,
     onSubmit,
+    onStartSso,
     onToggleMode,
     onSelectMode
   } = props;
 
+  const copy = AUTH_COPY[authMode];
+
   return (
     <main className="auth-page">
       <section className="auth-shell">
@@ -50,28 +89,61 @@ export function AuthPage(props: AuthPageProps) {
               Register
             </button>
           </div>
-          <h2>{authMode === 'login' ? 'Welcome Back' : 'Create Account'}</h2>
-          <p>{authMode === 'login' ? 'Sign in to continue' : 'Set up your account to get started'}</p>
+          {invitePreview ? (
+            <p className="auth-invite">
+              You have been invited to join <strong>{invitePreview.boardName}</strong> as {invitePreview.role}.
+            </p>
+          ) : null}
+          <h2>{copy.title}</h2>
+          <p>{copy.subtitle}</p>
 
           <div className={authMode === 'register' ? 'auth-name-field' : 'auth-name-field hidden'}>
             <input value={authName} onChange={(event) => onAuthNameChange(event.target.value)} placeholder="Full name" />
           </div>
 
-          <input value={authEmail} onChange={(event) => onAuthEmailChange(event.target.value)} placeholder="Email address" type="email" />
+          {authMode === 'twoFactor' ? (
+            <input
+              value={authCode}
+              onChange={(event) => onAuthCodeChange(event.target.value)}
+              placeholder="Authentication code"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              autoFocus
+            />
+          ) : null}
+
+          {authMode !== 'reset' && authMode !== 'twoFactor' ? (
+            <input value={authEmail} onChange={(event) => onAuthEmailChange(event.target.value)} placeholder="Email address" type="email" />
+          ) : null}
 
-          <input
-            value={authPassword}
-            onChange={(event) => onAuthPasswordChange(event.target.value)}
-            placeholder="Password"
-            type="password"
-          />
+          {authMode !== 'forgot' && authMode !== 'twoFactor' ? (
+            <input
+              value={authPassword}
+              onChange={(event) => onAuthPasswordChange(event.target.value)}
+              placeholder={authMode === 'reset' ? 'New password' : 'Password'}
+              type="password"
+            />
+          ) : null}
 
-          <button onClick={onSubmit}>{authMode === 'login' ? 'Login' : 'Register'}</button>
+          <button onClick={onSubmit}>{copy.submit}</button>
+
+          {ssoProviderName && (authMode === 'login' || authMode === 'register') ? (
+            <button className="auth-sso" onClick={onStartSso}>
+              Continue with {ssoProviderName}
+            </button>
+          ) : null}
+
+          {authMode === 'login' ? (
+            <button className="link-button" onClick={() => onSelectMode('forgot')}>
+              Forgot password?
+            </button>
+          ) : null}
 
           <button className="link-button" onClick={onToggleMode}>
-            {authMode === 'login' ? 'Need an account? Register' : 'Already have an account? Login'}
+            {copy.toggle}
           </button>
 
+          {notice ? <p className="notice">{notice}</p> : null}
           {error ? <p className="error">{error}</p> : null}
         </div>
       </section>
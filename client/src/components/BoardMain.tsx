@@ -1,19 +1,48 @@
-import { useState } from 'react';
-import { toDateInputValue } from '../lib/api';
-import type { BoardDetail, BoardMember, Column } from '../types';
+import { Fragment, useState, type DragEvent } from 'react';
+import { formatDateTime, getDueBadge, getInitials, toDateInputValue } from '../lib/api';
+import { hasBoardFilters, matchesBoardFilters } from '../lib/boardFilters';
+import { getSwimlanes, isCardInLane } from '../lib/swimlanes';
+import type {
+  BoardDetail,
+  BoardFilters,
+  BoardInvitation,
+  BoardMember,
+  Card,
+  CardDrag,
+  CardPresence,
+  Column,
+  SwimlaneGroup
+} from '../types';
 
 type BoardMainProps = {
+  currentUserId: number;
   activeBoard: BoardDetail | null;
   loadingBoard: boolean;
   error: string | null;
+  notice: string | null;
+  boardFilters: BoardFilters;
   canWrite: boolean;
   sortedColumns: Column[];
   members: BoardMember[];
   onlineUserIds: number[];
+  cardPresence: CardPresence[];
+  cardDrags: CardDrag[];
   newColumnTitle: string;
   onNewColumnTitleChange: (value: string) => void;
   onCreateColumn: () => void;
+  onBoardFiltersChange: (filters: BoardFilters) => void;
+  onClearBoardFilters: () => void;
+  onRenameBoard: (name: string) => void;
+  onArchiveBoard: (archived: boolean) => void;
+  onOpenWebhooks: () => void;
+  onExportBoard: (format: 'json' | 'csv') => void;
+  onDeleteBoard: () => void;
   onRenameColumn: (columnId: number, currentTitle: string) => void;
+  onDeleteColumn: (columnId: number, targetColumnId: number | null) => void;
+  onUpdateColumnWipLimit: (columnId: number, wipLimit: number | null, wipMode: Column['wip_mode']) => void;
+  onUpdateSwimlaneGroup: (group: SwimlaneGroup) => void;
+  onCreateLabel: (name: string, color: string) => void;
+  onDeleteLabel: (labelId: number) => void;
   newCardTitle: string;
   onNewCardTitleChange: (value: string) => void;
   newCardColumnId: number | null;
@@ -24,24 +53,52 @@ type BoardMainProps = {
   memberRole: 'member' | 'viewer';
   onMemberRoleChange: (value: 'member' | 'viewer') => void;
   onAddMember: () => void;
+  invitations: BoardInvitation[];
+  onCreateInvitation: (options: { role: 'member' | 'viewer'; expiresInHours: number | null; maxUses: number | null }) => void;
+  onRevokeInvitation: (invitationId: number) => void;
+  onUpdateMemberRole: (memberId: number, role: BoardMember['role']) => void;
+  onRemoveMember: (memberId: number) => void;
+  onLeaveBoard: () => void;
+  onTransferOwnership: (memberId: number, leave: boolean) => void;
   onMoveCard: (cardId: number, toColumnId: number, toPosition: number) => void;
+  onMoveCardToLane: (cardId: number, fromLaneKey: string, toLaneKey: string) => void;
+  onCardDragStart: (cardId: number, columnId: number) => void;
+  onCardDragOver: (columnId: number) => void;
+  onCardDragEnd: () => void;
   onOpenCard: (cardId: number) => void;
   onDeleteCard: (cardId: number) => void;
 };
 
 export function BoardMain(props: BoardMainProps) {
   const {
+    currentUserId,
     activeBoard,
     loadingBoard,
     error,
+    notice,
+    boardFilters,
     canWrite,
     sortedColumns,
     members,
     onlineUserIds,
+    cardPresence,
+    cardDrags,
     newColumnTitle,
     onNewColumnTitleChange,
     onCreateColumn,
+    onBoardFiltersChange,
+    onClearBoardFilters,
+    onRenameBoard,
+    onArchiveBoard,
+    onOpenWebhooks,
+    onExportBoard,
+    onDeleteBoard,
     onRenameColumn,
+    onDeleteColumn,
+    onUpdateColumnWipLimit,
+    onUpdateSwimlaneGroup,
+    onCreateLabel,
+    onDeleteLabel,
     newCardTitle,
     onNewCardTitleChange,
     newCardColumnId,
@@ -52,16 +109,41 @@ export function BoardMain(props: BoardMainProps) {
     memberRole,
     onMemberRoleChange,
     onAddMember,
+    invitations,
+    onCreateInvitation,
+    onRevokeInvitation,
+    onUpdateMemberRole,
+    onRemoveMember,
+    onLeaveBoard,
+    onTransferOwnership,
     onMoveCard,
+    onMoveCardToLane,
+    onCardDragStart,
+    onCardDragOver,
+    onCardDragEnd,
     onOpenCard,
     onDeleteCard
   } = props;
 
-  const [dragCard, setDragCard] = useState<{ cardId: number; fromColumnId: number } | null>(null);
+  const [dragCard, setDragCard] = useState<{ cardId: number; fromColumnId: number; fromLaneKey: string | null } | null>(null);
   const [editingColumnId, setEditingColumnId] = useState<number | null>(null);
   const [editingColumnTitle, setEditingColumnTitle] = useState('');
+  const [editingBoardName, setEditingBoardName] = useState<string | null>(null);
+  const [inviteRole, setInviteRole] = useState<'member' | 'viewer'>('member');
+  const [inviteExpiresInHours, setInviteExpiresInHours] = useState('168');
+  const [inviteMaxUses, setInviteMaxUses] = useState('');
+  const [transferTargetId, setTransferTargetId] = useState<number | null>(null);
+  const [newLabelName, setNewLabelName] = useState('');
+  const [newLabelColor, setNewLabelColor] = useState('#1e88e5');
+  const [deletingColumnId, setDeletingColumnId] = useState<number | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState('archive');
+  const [wipColumnId, setWipColumnId] = useState<number | null>(null);
+  const [wipLimitDraft, setWipLimitDraft] = useState('');
+  const [wipModeDraft, setWipModeDraft] = useState<Column['wip_mode']>('block');
 
   function startRename(columnId: number, currentTitle: string) {
+    cancelDelete();
+    setWipColumnId(null);
     setEditingColumnId(columnId);
     setEditingColumnTitle(currentTitle);
   }
@@ -82,6 +164,98 @@ export function BoardMain(props: BoardMainProps) {
     cancelRename();
   }
 
+  function startWipEdit(column: Column) {
+    cancelRename();
+    cancelDelete();
+    setWipColumnId(column.id);
+    setWipLimitDraft(column.wip_limit === null ? '' : String(column.wip_limit));
+    setWipModeDraft(column.wip_mode);
+  }
+
+  function saveWipLimit(column: Column) {
+    const limit = Number(wipLimitDraft);
+    const nextLimit = wipLimitDraft.trim() && Number.isInteger(limit) && limit > 0 ? limit : null;
+    if (nextLimit !== column.wip_limit || wipModeDraft !== column.wip_mode) {
+      onUpdateColumnWipLimit(column.id, nextLimit, wipModeDraft);
+    }
+    setWipColumnId(null);
+  }
+
+  function getWipState(column: Column) {
+    if (column.wip_limit === null) {
+      return '';
+    }
+    if (column.card_count > column.wip_limit) {
+      return 'over-limit';
+    }
+    return column.card_count === column.wip_limit ? 'at-limit' : '';
+  }
+
+  function saveBoardName(currentName: string) {
+    const nextName = editingBoardName?.trim() ?? '';
+    if (nextName && nextName !== currentName) {
+      onRenameBoard(nextName);
+    }
+    setEditingBoardName(null);
+  }
+
+  function confirmDeleteBoard(name: string) {
+    if (window.confirm(`Permanently delete board "${name}" with all of its columns, cards and comments?`)) {
+      onDeleteBoard();
+    }
+  }
+
+  function getInviteLink(token: string) {
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.searchParams.set('invite', token);
+    return url.toString();
+  }
+
+  function createInvitation() {
+    const maxUses = Number(inviteMaxUses);
+    onCreateInvitation({
+      role: inviteRole,
+      expiresInHours: inviteExpiresInHours ? Number(inviteExpiresInHours) : null,
+      maxUses: inviteMaxUses.trim() && Number.isInteger(maxUses) && maxUses > 0 ? maxUses : null
+    });
+    setInviteMaxUses('');
+  }
+
+  function updateFilters(patch: Partial<BoardFilters>) {
+    onBoardFiltersChange({ ...boardFilters, ...patch });
+  }
+
+  function toggleLabelFilter(labelId: number) {
+    const labelIds = boardFilters.labelIds;
+    updateFilters({ labelIds: labelIds.includes(labelId) ? labelIds.filter((id) => id !== labelId) : [...labelIds, labelId] });
+  }
+
+  function createLabel() {
+    if (!newLabelName.trim()) {
+      return;
+    }
+    onCreateLabel(newLabelName.trim(), newLabelColor);
+    setNewLabelName('');
+  }
+
+  function startDelete(columnId: number) {
+    cancelRename();
+    setWipColumnId(null);
+    setDeletingColumnId(columnId);
+    setDeleteTarget('archive');
+  }
+
+  function cancelDelete() {
+    setDeletingColumnId(null);
+    setDeleteTarget('archive');
+  }
+
+  function confirmDelete(columnId: number) {
+    onDeleteColumn(columnId, deleteTarget === 'archive' ? null : Number(deleteTarget));
+    cancelDelete();
+  }
+
   function moveCardToAdjacentColumn(cardId: number, columnIndex: number, direction: 'left' | 'right') {
     if (!canWrite) {
       return;
@@ -93,48 +267,261 @@ export function BoardMain(props: BoardMainProps) {
     }
 
     const targetColumn = sortedColumns[targetIndex];
-    onMoveCard(cardId, targetColumn.id, targetColumn.cards.length);
+    onMoveCard(cardId, targetColumn.id, targetColumn.card_count);
   }
 
-  function getInitials(name: string) {
-    return (
-      name
-        .split(' ')
-        .filter(Boolean)
-        .slice(0, 2)
-        .map((part) => part[0]?.toUpperCase())
-        .join('') || 'U'
-    );
+  function getMemberName(userId: number) {
+    return members.find((member) => member.id === userId)?.name ?? 'Someone';
+  }
+
+  function getVisibleCards(column: Column) {
+    return column.cards.filter((card) => matchesBoardFilters(card, boardFilters)).sort((a, b) => a.position - b.position);
+  }
+
+  function getOtherDrag(cardId: number) {
+    return cardDrags.find((drag) => drag.cardId === cardId && drag.userId !== currentUserId) ?? null;
   }
 
-  function getDueBadge(dueDate: string | null) {
-    if (!dueDate) {
-      return null;
+  function dragOverColumn(event: DragEvent<HTMLElement>, columnId: number) {
+    event.preventDefault();
+    if (dragCard) {
+      onCardDragOver(columnId);
+    }
+  }
+
+  function dropCard(columnId: number, position: number, laneKey: string | null) {
+    if (!dragCard || !canWrite) {
+      return;
     }
-    const current = new Date();
-    const due = new Date(toDateInputValue(dueDate));
-    const msPerDay = 24 * 60 * 60 * 1000;
-    const days = Math.floor((due.getTime() - current.setHours(0, 0, 0, 0)) / msPerDay);
-    if (days < 0) {
-      return { label: 'Overdue', tone: 'danger' as const };
+
+    const fromLaneKey = dragCard.fromLaneKey;
+    const changesLane = laneKey !== null && fromLaneKey !== null && laneKey !== fromLaneKey;
+    if (changesLane) {
+      onMoveCardToLane(dragCard.cardId, fromLaneKey, laneKey);
     }
-    if (days <= 2) {
-      return { label: 'Due Soon', tone: 'warn' as const };
+    // Dropping into another lane of the same column only reassigns the card.
+    if (!changesLane || columnId !== dragCard.fromColumnId) {
+      onMoveCard(dragCard.cardId, columnId, position);
     }
-    return { label: 'Planned', tone: 'ok' as const };
+    setDragCard(null);
   }
 
+  function renderCard(card: Card, column: Column, columnIndex: number, position: number, laneKey: string | null) {
+    const dueBadge = getDueBadge(card.due_date);
+    const editors = cardPresence.filter((entry) => entry.cardId === card.id && entry.field !== null && entry.userId !== currentUserId);
+    const otherDrag = getOtherDrag(card.id);
+    const movable = canWrite && !otherDrag;
+    return (
+      <article
+        key={card.id}
+        className={otherDrag ? 'card locked' : 'card'}
+        draggable={movable}
+        onClick={() => onOpenCard(card.id)}
+        onDragStart={(event) => {
+          if (!movable) {
+            event.preventDefault();
+            return;
+          }
+          setDragCard({ cardId: card.id, fromColumnId: card.column_id, fromLaneKey: laneKey });
+          onCardDragStart(card.id, card.column_id);
+        }}
+        onDragEnd={() => {
+          setDragCard(null);
+          onCardDragEnd();
+        }}
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => {
+          event.stopPropagation();
+          dropCard(column.id, position, laneKey);
+        }}
+      >
+        <div className="card-headline">
+          <p>{card.title}</p>
+          <button
+            className="card-open"
+            onClick={(event) => {
+              event.stopPropagation();
+              onOpenCard(card.id);
+            }}
+          >
+            Open
+          </button>
+        </div>
+        {editors.length > 0 ? (
+          <div className="card-editors" title={`Being edited by ${editors.map((entry) => getMemberName(entry.userId)).join(', ')}`}>
+            {editors.map((entry) => (
+              <span key={entry.userId} className="member-avatar">
+                {getInitials(getMemberName(entry.userId))}
+              </span>
+            ))}
+            <span className="card-editors-label">editing</span>
+          </div>
+        ) : null}
+        {otherDrag ? (
+          <div className="card-editors" title={`Being moved by ${getMemberName(otherDrag.userId)}`}>
+            <span className="member-avatar">{getInitials(getMemberName(otherDrag.userId))}</span>
+            <span className="card-editors-label">moving</span>
+          </div>
+        ) : null}
+        {card.labels.length > 0 ? (
+          <div className="card-labels">
+            {card.labels.map((label) => (
+              <span key={label.id} className="label-chip" style={{ background: label.color }}>
+                {label.name}
+              </span>
+            ))}
+          </div>
+        ) : null}
+        {card.assignees.length > 0 ? (
+          <div className="card-assignees" title={card.assignees.map((assignee) => assignee.name).join(', ')}>
+            {card.assignees.map((assignee) => (
+              <span key={assignee.id} className="member-avatar">
+                {getInitials(assignee.name)}
+              </span>
+            ))}
+          </div>
+        ) : null}
+        {card.due_date ? <small>Due: {toDateInputValue(card.due_date)}</small> : null}
+        {dueBadge ? (
+          <span className={`card-badge ${dueBadge.tone}`}>{dueBadge.label}</span>
+        ) : null}
+        {card.checklist_total > 0 ? (
+          <span
+            className={card.checklist_done === card.checklist_total ? 'card-badge checklist ok' : 'card-badge checklist'}
+            title="Checklist progress"
+          >
+            {card.checklist_done}/{card.checklist_total}
+          </span>
+        ) : null}
+        {canWrite ? (
+          <div className="touch-move-controls">
+            <button
+              className="touch-move"
+              disabled={columnIndex === 0 || !movable}
+              onClick={(event) => {
+                event.stopPropagation();
+                moveCardToAdjacentColumn(card.id, columnIndex, 'left');
+              }}
+            >
+              Prev
+            </button>
+            <button
+              className="touch-move"
+              disabled={columnIndex === sortedColumns.length - 1 || !movable}
+              onClick={(event) => {
+                event.stopPropagation();
+                moveCardToAdjacentColumn(card.id, columnIndex, 'right');
+              }}
+            >
+              Next
+            </button>
+          </div>
+        ) : null}
+        {canWrite ? (
+          <button
+            className="delete icon-button"
+            title="Delete card"
+            aria-label="Delete card"
+            onClick={(event) => {
+              event.stopPropagation();
+              onDeleteCard(card.id);
+            }}
+          >
+            <svg viewBox="0 0 24 24" aria-hidden="true">
+              <path d="M3 6h18" />
+              <path d="M8 6V4h8v2" />
+              <path d="M7 6l1 14h8l1-14" />
+            </svg>
+          </button>
+        ) : null}
+      </article>
+    );
+  }
+
+  // Other members' in-flight drags show as a ghost in the column they are hovering over.
+  function renderDragGhosts(columnId: number) {
+    const allCards = sortedColumns.flatMap((column) => column.cards);
+    return cardDrags
+      .filter((drag) => drag.userId !== currentUserId && drag.columnId === columnId)
+      .map((drag) => {
+        const card = allCards.find((item) => item.id === drag.cardId);
+        if (!card || card.column_id === columnId) {
+          return null;
+        }
+        const name = getMemberName(drag.userId);
+        return (
+          <div key={`ghost-${drag.cardId}`} className="card card-ghost" title={`${name} is moving this card`} aria-hidden="true">
+            <p>{card.title}</p>
+            <span className="member-avatar">{getInitials(name)}</span>
+          </div>
+        );
+      });
+  }
+
+  const isSoleOwner =
+    activeBoard?.role === 'owner' && members.filter((member) => member.role === 'owner').length <= 1;
+  const swimlaneGroup = activeBoard?.swimlane_group ?? 'none';
+  const swimlanes = activeBoard ? getSwimlanes(swimlaneGroup, activeBoard, members) : [];
+
   return (
     <main className={`main board-theme-${((activeBoard?.id ?? 1) % 5) + 1}`}>
       {error ? <p className="error">{error}</p> : null}
+      {notice ? <p className="notice">{notice}</p> : null}
       {loadingBoard ? <p>Loading board...</p> : null}
 
       {activeBoard ? (
         <>
           <div className="board-header">
             <div>
-              <h2>{activeBoard.name}</h2>
+              {editingBoardName !== null ? (
+                <div className="board-rename">
+                  <input
+                    value={editingBoardName}
+                    onChange={(event) => setEditingBoardName(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') {
+                        saveBoardName(activeBoard.name);
+                      }
+                      if (event.key === 'Escape') {
+                        setEditingBoardName(null);
+                      }
+                    }}
+                    autoFocus
+                  />
+                  <button className="column-rename icon-button" title="Save board name" aria-label="Save board name" onClick={() => saveBoardName(activeBoard.name)}>
+                    <svg viewBox="0 0 24 24" aria-hidden="true">
+                      <path d="M20 6L9 17l-5-5" />
+                    </svg>
+                  </button>
+                  <button className="column-rename cancel icon-button" title="Cancel rename" aria-label="Cancel rename" onClick={() => setEditingBoardName(null)}>
+                    <svg viewBox="0 0 24 24" aria-hidden="true">
+                      <path d="M18 6L6 18M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ) : (
+                <h2>
+                  {activeBoard.name}
+                  {activeBoard.archived_at ? <span className="archived-pill">Archived</span> : null}
+                </h2>
+              )}
               <p className="board-role">Your role: {activeBoard.role}</p>
+              <div className="board-owner-actions">
+                {activeBoard.role === 'owner' ? (
+                  <>
+                    <button onClick={() => setEditingBoardName(activeBoard.name)}>Rename</button>
+                    <button onClick={() => onArchiveBoard(!activeBoard.archived_at)}>{activeBoard.archived_at ? 'Unarchive' : 'Archive'}</button>
+                    <button onClick={onOpenWebhooks}>Webhooks</button>
+                  </>
+                ) : null}
+                <button onClick={() => onExportBoard('json')}>Export JSON</button>
+                <button onClick={() => onExportBoard('csv')}>Export CSV</button>
+                {activeBoard.role === 'owner' ? (
+                  <button className="delete" onClick={() => confirmDeleteBoard(activeBoard.name)}>
+                    Delete
+                  </button>
+                ) : null}
+              </div>
             </div>
 
             {canWrite ? (
@@ -186,164 +573,396 @@ export function BoardMain(props: BoardMainProps) {
                 <button onClick={onAddMember}>Add Member</button>
               </div>
             ) : null}
-          </section>
 
-          <section className="columns">
-            {sortedColumns.map((column, columnIndex) => (
-              <div
-                key={column.id}
-                className={`column column-tone-${(columnIndex % 4) + 1}`}
-                onDragOver={(event) => event.preventDefault()}
-                onDrop={() => {
-                  if (!dragCard || !canWrite) {
-                    return;
-                  }
-                  onMoveCard(dragCard.cardId, column.id, column.cards.length);
-                  setDragCard(null);
-                }}
-              >
-                <div className="column-header">
-                  {editingColumnId === column.id ? (
-                    <>
-                      <input
-                        className="column-rename-input"
-                        value={editingColumnTitle}
-                        onChange={(event) => setEditingColumnTitle(event.target.value)}
-                        onKeyDown={(event) => {
-                          if (event.key === 'Enter') {
-                            saveRename(column.id, column.title);
-                          }
-                          if (event.key === 'Escape') {
-                            cancelRename();
-                          }
-                        }}
-                        autoFocus
-                      />
-                      <div className="column-actions">
-                        <button className="column-rename icon-button" title="Save column name" aria-label="Save column name" onClick={() => saveRename(column.id, column.title)}>
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <path d="M20 6L9 17l-5-5" />
-                          </svg>
-                        </button>
-                        <button className="column-rename cancel icon-button" title="Cancel rename" aria-label="Cancel rename" onClick={cancelRename}>
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <path d="M18 6L6 18M6 6l12 12" />
-                          </svg>
-                        </button>
-                      </div>
-                    </>
-                  ) : (
-                    <>
-                      <h3>{column.title}</h3>
-                      {canWrite ? (
-                        <button
-                          className="column-rename icon-button"
-                          title="Rename column"
-                          aria-label="Rename column"
-                          onClick={() => startRename(column.id, column.title)}
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <path d="M4 20h4l10-10-4-4L4 16v4z" />
-                            <path d="M14 6l4 4" />
-                          </svg>
-                        </button>
-                      ) : null}
-                    </>
-                  )}
+            {activeBoard.role === 'owner' ? (
+              <div className="invitations-panel">
+                <h4>Invite Links</h4>
+                <div className="invitation-form">
+                  <select value={inviteRole} onChange={(event) => setInviteRole(event.target.value as 'member' | 'viewer')} aria-label="Invite role">
+                    <option value="member">Member</option>
+                    <option value="viewer">Viewer</option>
+                  </select>
+                  <select value={inviteExpiresInHours} onChange={(event) => setInviteExpiresInHours(event.target.value)} aria-label="Invite expiry">
+                    <option value="24">Expires in 1 day</option>
+                    <option value="168">Expires in 7 days</option>
+                    <option value="720">Expires in 30 days</option>
+                    <option value="">Never expires</option>
+                  </select>
+                  <input
+                    value={inviteMaxUses}
+                    onChange={(event) => setInviteMaxUses(event.target.value)}
+                    placeholder="Max uses (optional)"
+                    type="number"
+                    min={1}
+                  />
+                  <button onClick={createInvitation}>Create Link</button>
                 </div>
+                {invitations.length === 0 ? <p className="muted">No pending invite links.</p> : null}
+                {invitations.map((invitation) => (
+                  <div key={invitation.id} className="invitation-row">
+                    <input readOnly value={getInviteLink(invitation.token)} onFocus={(event) => event.target.select()} aria-label="Invite link" />
+                    <small>
+                      {invitation.role} - {invitation.use_count}/{invitation.max_uses ?? 'unlimited'} uses - expires{' '}
+                      {invitation.expires_at ? formatDateTime(invitation.expires_at) : 'never'}
+                    </small>
+                    <div className="invitation-actions">
+                      <button onClick={() => void navigator.clipboard?.writeText(getInviteLink(invitation.token))}>Copy</button>
+                      <button className="delete" onClick={() => onRevokeInvitation(invitation.id)}>
+                        Revoke
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : null}
 
-                <div className="cards">
-                  {column.cards
-                    .sort((a, b) => a.position - b.position)
-                    .map((card, index) => {
-                      const dueBadge = getDueBadge(card.due_date);
-                      return (
-                      <article
-                        key={card.id}
-                        className="card"
-                        draggable={canWrite}
-                        onClick={() => onOpenCard(card.id)}
-                        onDragStart={() => {
-                          if (!canWrite) {
-                            return;
-                          }
-                          setDragCard({ cardId: card.id, fromColumnId: card.column_id });
-                        }}
-                        onDragOver={(event) => event.preventDefault()}
-                        onDrop={(event) => {
-                          event.stopPropagation();
-                          if (!dragCard || !canWrite) {
-                            return;
-                          }
-                          onMoveCard(dragCard.cardId, column.id, index);
-                          setDragCard(null);
-                        }}
+            {activeBoard.role === 'owner' ? (
+              <div className="member-manage-list">
+                {members
+                  .filter((member) => member.id !== currentUserId)
+                  .map((member) => (
+                    <div key={member.id} className="member-manage-row">
+                      <span>{member.name}</span>
+                      <select
+                        value={member.role}
+                        aria-label={`Role for ${member.name}`}
+                        onChange={(event) => onUpdateMemberRole(member.id, event.target.value as BoardMember['role'])}
                       >
-                        <div className="card-headline">
-                          <p>{card.title}</p>
-                          <button
-                            className="card-open"
-                            onClick={(event) => {
-                              event.stopPropagation();
-                              onOpenCard(card.id);
-                            }}
+                        <option value="owner">Owner</option>
+                        <option value="member">Member</option>
+                        <option value="viewer">Viewer</option>
+                      </select>
+                      <button className="delete" onClick={() => onRemoveMember(member.id)}>
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            ) : null}
+
+            {isSoleOwner ? (
+              <div className="leave-board">
+                <select
+                  value={transferTargetId ?? ''}
+                  aria-label="New owner"
+                  onChange={(event) => setTransferTargetId(event.target.value ? Number(event.target.value) : null)}
+                >
+                  <option value="">Transfer ownership to...</option>
+                  {members
+                    .filter((member) => member.id !== currentUserId)
+                    .map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.name} ({member.email})
+                      </option>
+                    ))}
+                </select>
+                <button disabled={transferTargetId === null} onClick={() => transferTargetId !== null && onTransferOwnership(transferTargetId, false)}>
+                  Transfer
+                </button>
+                <button
+                  className="delete"
+                  disabled={transferTargetId === null}
+                  onClick={() => transferTargetId !== null && onTransferOwnership(transferTargetId, true)}
+                >
+                  Transfer &amp; Leave
+                </button>
+              </div>
+            ) : (
+              <div className="leave-board">
+                <button className="delete" onClick={onLeaveBoard}>
+                  Leave Board
+                </button>
+              </div>
+            )}
+          </section>
+
+          <section className="labels-panel">
+            <h3>Labels</h3>
+            <div className="labels-list">
+              {activeBoard.labels.length === 0 ? <p className="muted">No labels yet.</p> : null}
+              {activeBoard.labels.map((label) => (
+                <span key={label.id} className={boardFilters.labelIds.includes(label.id) ? 'label-filter active' : 'label-filter'}>
+                  <button
+                    className="label-chip"
+                    style={{ background: label.color }}
+                    title={boardFilters.labelIds.includes(label.id) ? 'Remove filter' : 'Show only cards with this label'}
+                    aria-pressed={boardFilters.labelIds.includes(label.id)}
+                    onClick={() => toggleLabelFilter(label.id)}
+                  >
+                    {label.name}
+                  </button>
+                  {canWrite ? (
+                    <button className="label-remove" title="Delete label" aria-label={`Delete label ${label.name}`} onClick={() => onDeleteLabel(label.id)}>
+                      ×
+                    </button>
+                  ) : null}
+                </span>
+              ))}
+            </div>
+            {canWrite ? (
+              <div className="label-form">
+                <input value={newLabelName} onChange={(event) => setNewLabelName(event.target.value)} placeholder="New label" maxLength={40} />
+                <input type="color" value={newLabelColor} onChange={(event) => setNewLabelColor(event.target.value)} aria-label="Label color" />
+                <button onClick={createLabel} disabled={!newLabelName.trim()}>
+                  Add Label
+                </button>
+              </div>
+            ) : null}
+          </section>
+
+          <section className="filter-bar" aria-label="Card filters">
+            <input
+              type="search"
+              value={boardFilters.q}
+              onChange={(event) => updateFilters({ q: event.target.value })}
+              placeholder="Filter cards"
+              maxLength={200}
+            />
+            <select
+              value={String(boardFilters.assignee)}
+              onChange={(event) => {
+                const value = event.target.value;
+                updateFilters({ assignee: value === '' || value === 'none' ? value : Number(value) });
+              }}
+              aria-label="Assignee"
+            >
+              <option value="">Any assignee</option>
+              <option value="none">Unassigned</option>
+              {members.map((member) => (
+                <option key={member.id} value={String(member.id)}>
+                  {member.id === currentUserId ? `${member.name} (me)` : member.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={boardFilters.due}
+              onChange={(event) => updateFilters({ due: event.target.value as BoardFilters['due'] })}
+              aria-label="Due date"
+            >
+              <option value="">Any due date</option>
+              <option value="overdue">Overdue</option>
+              <option value="soon">Due soon</option>
+              <option value="none">No due date</option>
+            </select>
+            <select
+              value={boardFilters.createdBy === null ? '' : String(boardFilters.createdBy)}
+              onChange={(event) => updateFilters({ createdBy: event.target.value ? Number(event.target.value) : null })}
+              aria-label="Created by"
+            >
+              <option value="">Any creator</option>
+              {members.map((member) => (
+                <option key={member.id} value={String(member.id)}>
+                  Created by {member.id === currentUserId ? 'me' : member.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={swimlaneGroup}
+              onChange={(event) => onUpdateSwimlaneGroup(event.target.value as SwimlaneGroup)}
+              aria-label="Swimlanes"
+            >
+              <option value="none">No swimlanes</option>
+              <option value="assignee">Lanes by assignee</option>
+              <option value="label">Lanes by label</option>
+            </select>
+            {hasBoardFilters(boardFilters) ? (
+              <button className="link-button" onClick={onClearBoardFilters}>
+                Clear filters
+              </button>
+            ) : null}
+          </section>
+
+          {swimlaneGroup !== 'none' ? (
+            <section className="swimlanes" style={{ gridTemplateColumns: `repeat(${sortedColumns.length}, minmax(260px, 1fr))` }}>
+              {sortedColumns.map((column, columnIndex) => (
+                <div key={column.id} className={`swimlane-column-header column-tone-${(columnIndex % 4) + 1} ${getWipState(column)}`}>
+                  <h3>{column.title}</h3>
+                  <span className="wip-counter">
+                    {column.wip_limit === null ? column.card_count : `${column.card_count}/${column.wip_limit}`}
+                  </span>
+                  {renderDragGhosts(column.id)}
+                </div>
+              ))}
+              {swimlanes.map((lane) => (
+                <Fragment key={lane.key}>
+                  <h4 className="swimlane-title">
+                    {lane.color ? <span className="swimlane-swatch" style={{ background: lane.color }} /> : null}
+                    {lane.title}
+                  </h4>
+                  {sortedColumns.map((column, columnIndex) => {
+                    const visibleCards = getVisibleCards(column);
+                    return (
+                      <div
+                        key={column.id}
+                        className="swimlane-cell cards"
+                        onDragOver={(event) => dragOverColumn(event, column.id)}
+                        onDrop={() => dropCard(column.id, column.card_count, lane.key)}
+                      >
+                        {visibleCards
+                          .filter((card) => isCardInLane(card, swimlaneGroup, lane.key))
+                          .map((card) => renderCard(card, column, columnIndex, visibleCards.indexOf(card), lane.key))}
+                      </div>
+                    );
+                  })}
+                </Fragment>
+              ))}
+            </section>
+          ) : (
+            <section className="columns">
+              {sortedColumns.map((column, columnIndex) => (
+                <div
+                  key={column.id}
+                  className={`column column-tone-${(columnIndex % 4) + 1} ${getWipState(column)}`}
+                  onDragOver={(event) => dragOverColumn(event, column.id)}
+                  onDrop={() => dropCard(column.id, column.card_count, null)}
+                >
+                  <div className="column-header">
+                    {editingColumnId === column.id ? (
+                      <>
+                        <input
+                          className="column-rename-input"
+                          value={editingColumnTitle}
+                          onChange={(event) => setEditingColumnTitle(event.target.value)}
+                          onKeyDown={(event) => {
+                            if (event.key === 'Enter') {
+                              saveRename(column.id, column.title);
+                            }
+                            if (event.key === 'Escape') {
+                              cancelRename();
+                            }
+                          }}
+                          autoFocus
+                        />
+                        <div className="column-actions">
+                          <button className="column-rename icon-button" title="Save column name" aria-label="Save column name" onClick={() => saveRename(column.id, column.title)}>
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M20 6L9 17l-5-5" />
+                            </svg>
+                          </button>
+                          <button className="column-rename cancel icon-button" title="Cancel rename" aria-label="Cancel rename" onClick={cancelRename}>
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M18 6L6 18M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </div>
+                      </>
+                    ) : wipColumnId === column.id ? (
+                      <>
+                        <div className="column-wip-form">
+                          <input
+                            type="number"
+                            min={1}
+                            placeholder="No limit"
+                            aria-label="WIP limit"
+                            value={wipLimitDraft}
+                            onChange={(event) => setWipLimitDraft(event.target.value)}
+                            autoFocus
+                          />
+                          <select
+                            aria-label="WIP limit mode"
+                            value={wipModeDraft}
+                            onChange={(event) => setWipModeDraft(event.target.value as Column['wip_mode'])}
                           >
-                            Open
+                            <option value="block">Block</option>
+                            <option value="warn">Warn</option>
+                          </select>
+                        </div>
+                        <div className="column-actions">
+                          <button className="column-rename icon-button" title="Save WIP limit" aria-label="Save WIP limit" onClick={() => saveWipLimit(column)}>
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M20 6L9 17l-5-5" />
+                            </svg>
+                          </button>
+                          <button className="column-rename cancel icon-button" title="Cancel" aria-label="Cancel WIP limit edit" onClick={() => setWipColumnId(null)}>
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M18 6L6 18M6 6l12 12" />
+                            </svg>
                           </button>
                         </div>
-                        {card.assignee ? <small>Assignee: {card.assignee}</small> : null}
-                        {card.due_date ? <small>Due: {toDateInputValue(card.due_date)}</small> : null}
-                        {dueBadge ? (
-                          <span className={`card-badge ${dueBadge.tone}`}>{dueBadge.label}</span>
-                        ) : null}
+                      </>
+                    ) : deletingColumnId === column.id ? (
+                      <>
+                        <select
+                          className="column-delete-target"
+                          value={deleteTarget}
+                          onChange={(event) => setDeleteTarget(event.target.value)}
+                          aria-label="Cards in this column"
+                        >
+                          <option value="archive">Archive {column.card_count} card(s)</option>
+                          {sortedColumns
+                            .filter((item) => item.id !== column.id)
+                            .map((item) => (
+                              <option key={item.id} value={String(item.id)}>
+                                Move cards to {item.title}
+                              </option>
+                            ))}
+                        </select>
+                        <div className="column-actions">
+                          <button className="delete icon-button" title="Confirm delete column" aria-label="Confirm delete column" onClick={() => confirmDelete(column.id)}>
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M20 6L9 17l-5-5" />
+                            </svg>
+                          </button>
+                          <button className="column-rename cancel icon-button" title="Cancel delete" aria-label="Cancel delete" onClick={cancelDelete}>
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M18 6L6 18M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <h3>{column.title}</h3>
+                        <span
+                          className="wip-counter"
+                          title={column.wip_limit === null ? 'Cards in column' : `WIP limit (${column.wip_mode === 'block' ? 'blocking' : 'warning only'})`}
+                        >
+                          {column.wip_limit === null ? column.card_count : `${column.card_count}/${column.wip_limit}`}
+                        </span>
                         {canWrite ? (
-                          <div className="touch-move-controls">
+                          <div className="column-actions">
+                            <button className="column-rename icon-button" title="Set WIP limit" aria-label="Set WIP limit" onClick={() => startWipEdit(column)}>
+                              <svg viewBox="0 0 24 24" aria-hidden="true">
+                                <path d="M4 6h16M4 12h10M4 18h6" />
+                              </svg>
+                            </button>
                             <button
-                              className="touch-move"
-                              disabled={columnIndex === 0}
-                              onClick={(event) => {
-                                event.stopPropagation();
-                                moveCardToAdjacentColumn(card.id, columnIndex, 'left');
-                              }}
+                              className="column-rename icon-button"
+                              title="Rename column"
+                              aria-label="Rename column"
+                              onClick={() => startRename(column.id, column.title)}
                             >
-                              Prev
+                              <svg viewBox="0 0 24 24" aria-hidden="true">
+                                <path d="M4 20h4l10-10-4-4L4 16v4z" />
+                                <path d="M14 6l4 4" />
+                              </svg>
                             </button>
                             <button
-                              className="touch-move"
-                              disabled={columnIndex === sortedColumns.length - 1}
-                              onClick={(event) => {
-                                event.stopPropagation();
-                                moveCardToAdjacentColumn(card.id, columnIndex, 'right');
-                              }}
+                              className="delete icon-button"
+                              title="Delete column"
+                              aria-label="Delete column"
+                              onClick={() => startDelete(column.id)}
                             >
-                              Next
+                              <svg viewBox="0 0 24 24" aria-hidden="true">
+                                <path d="M3 6h18" />
+                                <path d="M8 6V4h8v2" />
+                                <path d="M7 6l1 14h8l1-14" />
+                              </svg>
                             </button>
                           </div>
                         ) : null}
-                        {canWrite ? (
-                          <button
-                            className="delete icon-button"
-                            title="Delete card"
-                            aria-label="Delete card"
-                            onClick={(event) => {
-                              event.stopPropagation();
-                              onDeleteCard(card.id);
-                            }}
-                          >
-                            <svg viewBox="0 0 24 24" aria-hidden="true">
-                              <path d="M3 6h18" />
-                              <path d="M8 6V4h8v2" />
-                              <path d="M7 6l1 14h8l1-14" />
-                            </svg>
-                          </button>
-                        ) : null}
-                      </article>
-                      );
-                    })}
+                      </>
+                    )}
+                  </div>
+
+                  <div className="cards">
+                    {getVisibleCards(column).map((card, index) => renderCard(card, column, columnIndex, index, null))}
+                    {renderDragGhosts(column.id)}
+                  </div>
                 </div>
-              </div>
-            ))}
-          </section>
+              ))}
+            </section>
+          )}
         </>
       ) : (
         <p>Create your first board to start collaborating.</p>
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import type { BoardSummary, User } from '../types';
 
 type BoardSidebarProps = {
@@ -9,10 +10,17 @@ type BoardSidebarProps = {
   boardName: string;
   onBoardNameChange: (value: string) => void;
   onCreateBoard: () => void;
+  onImportBoard: (file: File) => void;
   onSelectBoard: (boardId: number) => void;
   adminView: boolean;
   onOpenAdminView: () => void;
   onCloseAdminView: () => void;
+  sessionsView: boolean;
+  onOpenSessionsView: () => void;
+  onCloseSessionsView: () => void;
+  tokensView: boolean;
+  onOpenTokensView: () => void;
+  onCloseTokensView: () => void;
   onLogout: () => void;
 };
 
@@ -26,13 +34,41 @@ export function BoardSidebar(props: BoardSidebarProps) {
     boardName,
     onBoardNameChange,
     onCreateBoard,
+    onImportBoard,
     onSelectBoard,
     adminView,
     onOpenAdminView,
     onCloseAdminView,
+    sessionsView,
+    onOpenSessionsView,
+    onCloseSessionsView,
+    tokensView,
+    onOpenTokensView,
+    onCloseTokensView,
     onLogout
   } = props;
 
+  const [showArchived, setShowArchived] = useState(false);
+  const activeBoards = boards.filter((board) => !board.archived_at);
+  const archivedBoards = boards.filter((board) => board.archived_at);
+
+  function renderBoardItem(board: BoardSummary) {
+    return (
+      <button
+        key={board.id}
+        className={board.id === activeBoardId ? 'board-item active' : 'board-item'}
+        style={{ ['--board-accent' as string]: `hsl(${(board.id * 57) % 360} 82% 66%)` }}
+        onClick={() => onSelectBoard(board.id)}
+      >
+        <span className="board-label">
+          <span className="board-dot" />
+          {board.name}
+        </span>
+        <span className="role-pill">{board.role}</span>
+      </button>
+    );
+  }
+
   const initials = user.name
     .split(' ')
     .filter(Boolean)
@@ -57,6 +93,12 @@ export function BoardSidebar(props: BoardSidebarProps) {
           {adminView ? 'Boards View' : 'Users Admin'}
         </button>
       ) : null}
+      <button className="logout" onClick={sessionsView ? onCloseSessionsView : onOpenSessionsView}>
+        {sessionsView ? 'Boards View' : 'Your Sessions'}
+      </button>
+      <button className="logout" onClick={tokensView ? onCloseTokensView : onOpenTokensView}>
+        {tokensView ? 'Boards View' : 'API Tokens'}
+      </button>
 
       <div className="create-board">
         <input value={boardName} onChange={(event) => onBoardNameChange(event.target.value)} placeholder="New board name" />
@@ -64,26 +106,35 @@ export function BoardSidebar(props: BoardSidebarProps) {
           {creatingBoard ? 'Creating...' : 'Create'}
         </button>
       </div>
+      <label className={creatingBoard ? 'import-board disabled' : 'import-board'}>
+        Import Board From JSON
+        <input
+          type="file"
+          accept="application/json,.json"
+          disabled={creatingBoard}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+            if (file) {
+              onImportBoard(file);
+            }
+          }}
+        />
+      </label>
 
       <div className="board-list">
         {loadingBoards && boards.length === 0 ? <p className="user-info">Loading boards...</p> : null}
-        {!adminView
-          ? boards.map((board) => (
-          <button
-            key={board.id}
-            className={board.id === activeBoardId ? 'board-item active' : 'board-item'}
-            style={{ ['--board-accent' as string]: `hsl(${(board.id * 57) % 360} 82% 66%)` }}
-            onClick={() => onSelectBoard(board.id)}
-          >
-            <span className="board-label">
-              <span className="board-dot" />
-              {board.name}
-            </span>
-            <span className="role-pill">{board.role}</span>
-          </button>
-            ))
-          : null}
+        {!adminView && !sessionsView && !tokensView ? activeBoards.map(renderBoardItem) : null}
       </div>
+
+      {!adminView && !sessionsView && !tokensView && archivedBoards.length > 0 ? (
+        <div className="board-list archived-boards">
+          <button className="archived-toggle" onClick={() => setShowArchived((prev) => !prev)} aria-expanded={showArchived}>
+            {showArchived ? 'Hide' : 'Show'} Archived ({archivedBoards.length})
+          </button>
+          {showArchived || archivedBoards.some((board) => board.id === activeBoardId) ? archivedBoards.map(renderBoardItem) : null}
+        </div>
+      ) : null}
     </aside>
   );
 }
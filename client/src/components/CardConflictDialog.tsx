@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { toCardDraft } from '../lib/cardMerge';
+import type { BoardMember, CardConflict, CardDraft } from '../types';
+
+type CardConflictDialogProps = {
+  conflict: CardConflict;
+  members: BoardMember[];
+  saving: boolean;
+  onResolve: (choices: Partial<Record<keyof CardDraft, 'mine' | 'theirs'>>) => void;
+  onDismiss: () => void;
+};
+
+const FIELD_LABELS: Record<keyof CardDraft, string> = {
+  title: 'Title',
+  description: 'Description',
+  assigneeIds: 'Assignees',
+  dueDate: 'Due date'
+};
+
+export function CardConflictDialog(props: CardConflictDialogProps) {
+  const { conflict, members, saving, onResolve, onDismiss } = props;
+  const [choices, setChoices] = useState<Partial<Record<keyof CardDraft, 'mine' | 'theirs'>>>({});
+  const theirs = toCardDraft(conflict.theirs);
+
+  function formatValue(field: keyof CardDraft, draft: CardDraft) {
+    if (field === 'assigneeIds') {
+      const names = draft.assigneeIds.map((id) => members.find((member) => member.id === id)?.name ?? `User #${id}`);
+      return names.length > 0 ? names.join(', ') : 'Unassigned';
+    }
+    if (field === 'dueDate') {
+      return draft.dueDate || 'No due date';
+    }
+    return draft[field] || '(empty)';
+  }
+
+  return (
+    <div className="card-conflict" role="alertdialog" aria-label="Resolve conflicting edits">
+      <p>
+        Someone else saved this card while you were editing it. Pick which version to keep for each field that both of you
+        changed; their other changes have already been merged into your form.
+      </p>
+      {conflict.fields.map((field) => (
+        <fieldset key={field} className="card-conflict-field">
+          <legend>{FIELD_LABELS[field]}</legend>
+          {(['mine', 'theirs'] as const).map((side) => (
+            <label key={side} className="card-conflict-option">
+              <input
+                type="radio"
+                name={`conflict-${field}`}
+                checked={(choices[field] ?? 'mine') === side}
+                onChange={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+              />
+              <span className="card-conflict-side">{side === 'mine' ? 'Yours' : 'Theirs'}</span>
+              <span className="card-conflict-value">{formatValue(field, side === 'mine' ? conflict.mine : theirs)}</span>
+            </label>
+          ))}
+        </fieldset>
+      ))}
+      <div className="card-conflict-actions">
+        <button onClick={() => onResolve(choices)} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Merged'}
+        </button>
+        <button className="link-button" onClick={onDismiss}>
+          Keep Editing
+        </button>
+      </div>
+    </div>
+  );
+}
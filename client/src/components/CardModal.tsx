@@ -1,5 +1,19 @@
-import { formatDateTime } from '../lib/api';
-import type { Activity, BoardDetail, BoardMember, Card, CardComment, User } from '../types';
+import { useState } from 'react';
+import { formatDateTime, getInitials } from '../lib/api';
+import type {
+  Activity,
+  BoardDetail,
+  BoardMember,
+  Card,
+  CardComment,
+  CardConflict,
+  CardDraft,
+  CardPresence,
+  CardPresenceField,
+  Checklist,
+  User
+} from '../types';
+import { CardConflictDialog } from './CardConflictDialog';
 
 type CardModalProps = {
   selectedCard: Card;
@@ -9,18 +23,35 @@ type CardModalProps = {
   members: BoardMember[];
   cardTitle: string;
   cardDescription: string;
-  cardAssignee: string;
+  cardAssigneeIds: number[];
   cardDueDate: string;
   comments: CardComment[];
+  checklists: Checklist[];
   cardActivities: Activity[];
   newCommentBody: string;
   savingCard: boolean;
+  cardConflict: CardConflict | null;
+  cardPresence: CardPresence[];
   onClose: () => void;
+  onEditingFieldChange: (field: CardPresenceField | null) => void;
   onCardTitleChange: (value: string) => void;
   onCardDescriptionChange: (value: string) => void;
-  onCardAssigneeChange: (value: string) => void;
+  onCardAssigneeIdsChange: (value: number[]) => void;
   onCardDueDateChange: (value: string) => void;
   onSave: () => void;
+  onResolveConflict: (choices: Partial<Record<keyof CardDraft, 'mine' | 'theirs'>>) => void;
+  onDismissConflict: () => void;
+  onToggleLabel: (labelId: number) => void;
+  onCreateChecklist: (title: string) => void;
+  onDeleteChecklist: (checklistId: number) => void;
+  onAddChecklistItem: (checklistId: number, body: string) => void;
+  onUpdateChecklistItem: (
+    checklistId: number,
+    itemId: number,
+    changes: { checked?: boolean; assigneeUserId?: number | null }
+  ) => void;
+  onDeleteChecklistItem: (checklistId: number, itemId: number) => void;
+  onMoveChecklistItem: (checklistId: number, itemId: number, toPosition: number) => void;
   onDeleteCard: () => void;
   onNewCommentBodyChange: (value: string) => void;
   onAddComment: () => void;
@@ -36,23 +67,56 @@ export function CardModal(props: CardModalProps) {
     members,
     cardTitle,
     cardDescription,
-    cardAssignee,
+    cardAssigneeIds,
     cardDueDate,
     comments,
+    checklists,
     cardActivities,
     newCommentBody,
     savingCard,
+    cardConflict,
+    cardPresence,
     onClose,
+    onEditingFieldChange,
     onCardTitleChange,
     onCardDescriptionChange,
-    onCardAssigneeChange,
+    onCardAssigneeIdsChange,
     onCardDueDateChange,
     onSave,
+    onResolveConflict,
+    onDismissConflict,
+    onToggleLabel,
+    onCreateChecklist,
+    onDeleteChecklist,
+    onAddChecklistItem,
+    onUpdateChecklistItem,
+    onDeleteChecklistItem,
+    onMoveChecklistItem,
     onDeleteCard,
     onNewCommentBodyChange,
     onAddComment,
     onDeleteComment
   } = props;
+  const [newChecklistTitle, setNewChecklistTitle] = useState('');
+  const [newItemBodies, setNewItemBodies] = useState<Record<number, string>>({});
+  const [dragItem, setDragItem] = useState<{ checklistId: number; itemId: number } | null>(null);
+  const otherPresence = cardPresence.filter((entry) => entry.cardId === selectedCard.id && entry.userId !== user.id);
+
+  function getMemberName(userId: number) {
+    return members.find((member) => member.id === userId)?.name ?? 'Someone';
+  }
+
+  function trackField(field: CardPresenceField) {
+    return {
+      onFocus: () => onEditingFieldChange(field),
+      onBlur: () => onEditingFieldChange(null)
+    };
+  }
+
+  function renderFieldEditors(field: CardPresenceField) {
+    const names = otherPresence.filter((entry) => entry.field === field).map((entry) => getMemberName(entry.userId));
+    return names.length > 0 ? <span className="field-editors">{names.join(', ')} editing</span> : null;
+  }
 
   return (
     <div className="modal-overlay" onClick={onClose}>
@@ -66,29 +130,95 @@ export function CardModal(props: CardModalProps) {
           </button>
         </div>
 
+        {otherPresence.length > 0 ? (
+          <div className="card-presence" aria-label="Also on this card">
+            {otherPresence.map((entry) => (
+              <span key={entry.userId} className="card-presence-user" title={getMemberName(entry.userId)}>
+                <span className="member-avatar">{getInitials(getMemberName(entry.userId))}</span>
+                {entry.field ? 'editing' : 'viewing'}
+              </span>
+            ))}
+          </div>
+        ) : null}
+
+        {cardConflict ? (
+          <CardConflictDialog
+            key={cardConflict.theirs.version}
+            conflict={cardConflict}
+            members={members}
+            saving={savingCard}
+            onResolve={onResolveConflict}
+            onDismiss={onDismissConflict}
+          />
+        ) : null}
+
         <div className="modal-grid">
           <div className="modal-section">
-            <label>Title</label>
-            <input value={cardTitle} disabled={!canWrite} onChange={(event) => onCardTitleChange(event.target.value)} />
-
-            <label>Description</label>
-            <textarea rows={5} value={cardDescription} disabled={!canWrite} onChange={(event) => onCardDescriptionChange(event.target.value)} />
-
-            <label>Assignee</label>
-            <select value={cardAssignee} disabled={!canWrite} onChange={(event) => onCardAssigneeChange(event.target.value)}>
-              <option value="">Unassigned</option>
-              {members.map((member) => (
-                <option key={member.id} value={member.name}>
-                  {member.name} ({member.email})
-                </option>
-              ))}
-              {cardAssignee && !members.some((member) => member.name === cardAssignee) ? (
-                <option value={cardAssignee}>Current: {cardAssignee}</option>
-              ) : null}
-            </select>
+            <label>Title {renderFieldEditors('title')}</label>
+            <input value={cardTitle} disabled={!canWrite} onChange={(event) => onCardTitleChange(event.target.value)} {...trackField('title')} />
+
+            <label>Description {renderFieldEditors('description')}</label>
+            <textarea
+              rows={5}
+              value={cardDescription}
+              disabled={!canWrite}
+              onChange={(event) => onCardDescriptionChange(event.target.value)}
+              {...trackField('description')}
+            />
+
+            <label>Assignees {renderFieldEditors('assignees')}</label>
+            <div className="assignee-picker" {...trackField('assignees')}>
+              {members.map((member) => {
+                const selected = cardAssigneeIds.includes(member.id);
+                return (
+                  <button
+                    key={member.id}
+                    className={selected ? 'assignee-option selected' : 'assignee-option'}
+                    title={member.email}
+                    disabled={!canWrite}
+                    aria-pressed={selected}
+                    onClick={() =>
+                      onCardAssigneeIdsChange(
+                        selected ? cardAssigneeIds.filter((id) => id !== member.id) : [...cardAssigneeIds, member.id]
+                      )
+                    }
+                  >
+                    <span className="member-avatar">{getInitials(member.name)}</span>
+                    {member.name}
+                  </button>
+                );
+              })}
+            </div>
 
-            <label>Due date</label>
-            <input type="date" value={cardDueDate} disabled={!canWrite} onChange={(event) => onCardDueDateChange(event.target.value)} />
+            <label>Labels {renderFieldEditors('labels')}</label>
+            <div className="label-picker" {...trackField('labels')}>
+              {(activeBoard?.labels ?? []).length === 0 ? <p className="muted">No labels on this board yet.</p> : null}
+              {(activeBoard?.labels ?? []).map((label) => {
+                const selected = selectedCard.labels.some((item) => item.id === label.id);
+                return (
+                  <button
+                    key={label.id}
+                    className={selected ? 'label-chip selectable selected' : 'label-chip selectable'}
+                    style={{ background: label.color }}
+                    disabled={!canWrite}
+                    aria-pressed={selected}
+                    onClick={() => onToggleLabel(label.id)}
+                  >
+                    {selected ? '\u2713 ' : ''}
+                    {label.name}
+                  </button>
+                );
+              })}
+            </div>
+
+            <label>Due date {renderFieldEditors('dueDate')}</label>
+            <input
+              type="date"
+              value={cardDueDate}
+              disabled={!canWrite}
+              onChange={(event) => onCardDueDateChange(event.target.value)}
+              {...trackField('dueDate')}
+            />
 
             <p className="muted">Updated: {formatDateTime(selectedCard.updated_at)}</p>
 
@@ -113,7 +243,137 @@ export function CardModal(props: CardModalProps) {
           </div>
 
           <div className="modal-section">
-            <h4>Comments</h4>
+            <h4>Checklists {renderFieldEditors('checklist')}</h4>
+            {checklists.length === 0 ? <p className="muted">No checklists yet.</p> : null}
+            {checklists.map((checklist) => {
+              const done = checklist.items.filter((item) => item.checked).length;
+              return (
+                <section key={checklist.id} className="checklist">
+                  <div className="checklist-header">
+                    <strong>{checklist.title}</strong>
+                    <span className="muted">
+                      {done}/{checklist.items.length}
+                    </span>
+                    {canWrite ? (
+                      <button
+                        className="delete icon-button"
+                        title="Delete checklist"
+                        aria-label="Delete checklist"
+                        onClick={() => onDeleteChecklist(checklist.id)}
+                      >
+                        <svg viewBox="0 0 24 24" aria-hidden="true">
+                          <path d="M3 6h18" />
+                          <path d="M8 6V4h8v2" />
+                          <path d="M7 6l1 14h8l1-14" />
+                        </svg>
+                      </button>
+                    ) : null}
+                  </div>
+                  <ul className="checklist-items">
+                    {checklist.items.map((item, index) => (
+                      <li
+                        key={item.id}
+                        className={item.checked ? 'checklist-item checked' : 'checklist-item'}
+                        draggable={canWrite}
+                        onDragStart={() => setDragItem({ checklistId: checklist.id, itemId: item.id })}
+                        onDragOver={(event) => event.preventDefault()}
+                        onDrop={() => {
+                          if (dragItem && dragItem.checklistId === checklist.id && dragItem.itemId !== item.id) {
+                            onMoveChecklistItem(checklist.id, dragItem.itemId, index);
+                          }
+                          setDragItem(null);
+                        }}
+                        onDragEnd={() => setDragItem(null)}
+                      >
+                        <label className="checklist-check">
+                          <input
+                            type="checkbox"
+                            checked={item.checked}
+                            disabled={!canWrite}
+                            onChange={(event) => onUpdateChecklistItem(checklist.id, item.id, { checked: event.target.checked })}
+                          />
+                          <span>{item.body}</span>
+                        </label>
+                        <select
+                          value={item.assignee_user_id ?? ''}
+                          disabled={!canWrite}
+                          onChange={(event) =>
+                            onUpdateChecklistItem(checklist.id, item.id, {
+                              assigneeUserId: event.target.value ? Number(event.target.value) : null
+                            })
+                          }
+                        >
+                          <option value="">Unassigned</option>
+                          {members.map((member) => (
+                            <option key={member.id} value={member.id}>
+                              {member.name}
+                            </option>
+                          ))}
+                          {item.assignee_user_id !== null && !members.some((member) => member.id === item.assignee_user_id) ? (
+                            <option value={item.assignee_user_id}>{item.assignee_name ?? 'Former member'}</option>
+                          ) : null}
+                        </select>
+                        {canWrite ? (
+                          <button
+                            className="delete icon-button"
+                            title="Delete item"
+                            aria-label="Delete item"
+                            onClick={() => onDeleteChecklistItem(checklist.id, item.id)}
+                          >
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M18 6L6 18M6 6l12 12" />
+                            </svg>
+                          </button>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ul>
+                  {canWrite ? (
+                    <form
+                      className="checklist-item-form"
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        onAddChecklistItem(checklist.id, newItemBodies[checklist.id] ?? '');
+                        setNewItemBodies((prev) => ({ ...prev, [checklist.id]: '' }));
+                      }}
+                    >
+                      <input
+                        placeholder="Add an item"
+                        value={newItemBodies[checklist.id] ?? ''}
+                        onChange={(event) => setNewItemBodies((prev) => ({ ...prev, [checklist.id]: event.target.value }))}
+                        {...trackField('checklist')}
+                      />
+                      <button type="submit" disabled={!(newItemBodies[checklist.id] ?? '').trim()}>
+                        Add
+                      </button>
+                    </form>
+                  ) : null}
+                </section>
+              );
+            })}
+
+            {canWrite ? (
+              <form
+                className="checklist-item-form"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  onCreateChecklist(newChecklistTitle);
+                  setNewChecklistTitle('');
+                }}
+              >
+                <input
+                  placeholder="New checklist title"
+                  value={newChecklistTitle}
+                  onChange={(event) => setNewChecklistTitle(event.target.value)}
+                  {...trackField('checklist')}
+                />
+                <button type="submit" disabled={!newChecklistTitle.trim()}>
+                  Add Checklist
+                </button>
+              </form>
+            ) : null}
+
+            <h4>Comments {renderFieldEditors('comment')}</h4>
             <div className="comment-list">
               {comments.length === 0 ? <p className="muted">No comments yet.</p> : null}
               {comments.map((comment) => (
@@ -147,6 +407,7 @@ export function CardModal(props: CardModalProps) {
                   placeholder="Write a comment"
                   value={newCommentBody}
                   onChange={(event) => onNewCommentBodyChange(event.target.value)}
+                  {...trackField('comment')}
                 />
                 <button onClick={onAddComment} disabled={!newCommentBody.trim()}>
                   Add Comment
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { formatDateTime } from '../lib/api';
+import type { TwoFactorSetup, TwoFactorStatus, UserSession } from '../types';
+import { TwoFactorSection } from './TwoFactorSection';
+
+type SessionsPanelProps = {
+  sessions: UserSession[];
+  loading: boolean;
+  error: string | null;
+  onRevokeSession: (sessionId: number) => void;
+  onRevokeOtherSessions: () => void;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  twoFactorStatus: TwoFactorStatus | null;
+  twoFactorSetup: TwoFactorSetup | null;
+  recoveryCodes: string[] | null;
+  onStartTwoFactorSetup: () => void;
+  onCancelTwoFactorSetup: () => void;
+  onEnableTwoFactor: (code: string) => void;
+  onRegenerateRecoveryCodes: (code: string) => void;
+  onDismissRecoveryCodes: () => void;
+  onDisableTwoFactor: (password: string, code: string) => void;
+};
+
+export function SessionsPanel(props: SessionsPanelProps) {
+  const { sessions, loading, error, onRevokeSession, onRevokeOtherSessions, onChangePassword, ...twoFactorProps } = props;
+  const hasOtherSessions = sessions.some((session) => !session.current);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [passwordChanged, setPasswordChanged] = useState(false);
+
+  async function submitPasswordChange() {
+    setPasswordChanged(false);
+    if (await onChangePassword(currentPassword, newPassword)) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setPasswordChanged(true);
+    }
+  }
+
+  return (
+    <main className="main">
+      <div className="board-header">
+        <div>
+          <h2>Your Sessions</h2>
+          <p className="board-role">Devices currently signed in to your account</p>
+        </div>
+        <button onClick={onRevokeOtherSessions} disabled={!hasOtherSessions}>
+          Sign Out Other Devices
+        </button>
+      </div>
+
+      <section className="sessions-panel">
+        {loading ? <p>Loading sessions...</p> : null}
+        {!loading ? (
+          <div className="admin-users-table-wrap">
+            <table className="sessions-table">
+              <thead>
+                <tr>
+                  <th>Device</th>
+                  <th>IP address</th>
+                  <th>Signed in</th>
+                  <th>Last active</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map((session) => (
+                  <tr key={session.id}>
+                    <td>{session.user_agent ?? 'Unknown device'}</td>
+                    <td>{session.ip_address ?? '-'}</td>
+                    <td>{formatDateTime(session.created_at)}</td>
+                    <td>{formatDateTime(session.last_used_at)}</td>
+                    <td>
+                      {session.current ? (
+                        <span className="session-current">This device</span>
+                      ) : (
+                        <button className="link-button" onClick={() => onRevokeSession(session.id)}>
+                          Sign out
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </section>
+
+      <section className="sessions-panel change-password">
+        <h3>Change Password</h3>
+        <p className="board-role">Changing your password signs out every other device.</p>
+        <div className="change-password-fields">
+          <input
+            value={currentPassword}
+            onChange={(event) => setCurrentPassword(event.target.value)}
+            placeholder="Current password"
+            type="password"
+          />
+          <input value={newPassword} onChange={(event) => setNewPassword(event.target.value)} placeholder="New password" type="password" />
+          <button onClick={() => void submitPasswordChange()} disabled={!currentPassword || !newPassword}>
+            Update Password
+          </button>
+        </div>
+        {passwordChanged ? <p className="notice">Password updated.</p> : null}
+        {error ? <p className="error">{error}</p> : null}
+      </section>
+
+      <TwoFactorSection {...twoFactorProps} />
+    </main>
+  );
+}
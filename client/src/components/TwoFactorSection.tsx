@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import type { TwoFactorSetup, TwoFactorStatus } from '../types';
+
+type TwoFactorSectionProps = {
+  twoFactorStatus: TwoFactorStatus | null;
+  twoFactorSetup: TwoFactorSetup | null;
+  recoveryCodes: string[] | null;
+  onStartTwoFactorSetup: () => void;
+  onCancelTwoFactorSetup: () => void;
+  onEnableTwoFactor: (code: string) => void;
+  onRegenerateRecoveryCodes: (code: string) => void;
+  onDismissRecoveryCodes: () => void;
+  onDisableTwoFactor: (password: string, code: string) => void;
+};
+
+export function TwoFactorSection(props: TwoFactorSectionProps) {
+  const {
+    twoFactorStatus,
+    twoFactorSetup,
+    recoveryCodes,
+    onStartTwoFactorSetup,
+    onCancelTwoFactorSetup,
+    onEnableTwoFactor,
+    onRegenerateRecoveryCodes,
+    onDismissRecoveryCodes,
+    onDisableTwoFactor
+  } = props;
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+
+  function submitWithCode(action: (value: string) => void) {
+    action(code);
+    setCode('');
+  }
+
+  const codeInput = (
+    <input
+      value={code}
+      onChange={(event) => setCode(event.target.value)}
+      placeholder="Authentication code"
+      autoComplete="one-time-code"
+    />
+  );
+
+  return (
+    <section className="sessions-panel two-factor">
+      <h3>Two-Factor Authentication</h3>
+
+      {recoveryCodes ? (
+        <div className="recovery-codes">
+          <p className="board-role">Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.</p>
+          <ul>
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>
+                <code>{recoveryCode}</code>
+              </li>
+            ))}
+          </ul>
+          <button onClick={onDismissRecoveryCodes}>I Saved Them</button>
+        </div>
+      ) : null}
+
+      {!twoFactorStatus ? <p>Loading two-factor settings...</p> : null}
+
+      {twoFactorStatus && !twoFactorStatus.enabled && !twoFactorSetup ? (
+        <>
+          <p className="board-role">Require a code from an authenticator app in addition to your password.</p>
+          <button onClick={onStartTwoFactorSetup}>Set Up Two-Factor</button>
+        </>
+      ) : null}
+
+      {twoFactorSetup ? (
+        <>
+          <p className="board-role">Add this account to your authenticator app, then enter the code it shows.</p>
+          <p>
+            Setup key: <code>{twoFactorSetup.secret}</code>
+          </p>
+          <p>
+            <a href={twoFactorSetup.otpauthUri}>Open in authenticator app</a>
+          </p>
+          <div className="change-password-fields">
+            {codeInput}
+            <button onClick={() => submitWithCode(onEnableTwoFactor)} disabled={!code.trim()}>
+              Enable
+            </button>
+            <button className="link-button" onClick={onCancelTwoFactorSetup}>
+              Cancel
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      {twoFactorStatus?.enabled ? (
+        <>
+          <p className="board-role">
+            Enabled. {twoFactorStatus.recoveryCodesRemaining} unused recovery code{twoFactorStatus.recoveryCodesRemaining === 1 ? '' : 's'} left.
+          </p>
+          <div className="change-password-fields">
+            <input value={password} onChange={(event) => setPassword(event.target.value)} placeholder="Password" type="password" />
+            {codeInput}
+          </div>
+          <div className="change-password-fields">
+            <button onClick={() => submitWithCode(onRegenerateRecoveryCodes)} disabled={!code.trim()}>
+              New Recovery Codes
+            </button>
+            <button
+              onClick={() => {
+                onDisableTwoFactor(password, code);
+                setPassword('');
+                setCode('');
+              }}
+              disabled={!password || !code.trim()}
+            >
+              Disable Two-Factor
+            </button>
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
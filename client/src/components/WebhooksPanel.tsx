@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { formatDateTime } from '../lib/api';
+import type { BoardWebhook, InboundHookStatus, WebhookDelivery, WebhookDraft } from '../types';
+
+type WebhooksPanelProps = {
+  boardName: string;
+  webhooks: BoardWebhook[];
+  loading: boolean;
+  error: string | null;
+  createdSecret: string | null;
+  selectedWebhookId: number | null;
+  deliveries: WebhookDelivery[];
+  onClose: () => void;
+  onCreateWebhook: (draft: WebhookDraft) => Promise<boolean>;
+  onSetWebhookActive: (webhookId: number, active: boolean) => void;
+  onDeleteWebhook: (webhookId: number) => void;
+  onShowDeliveries: (webhookId: number) => void;
+  onRedeliver: (deliveryId: number) => void;
+  onDismissSecret: () => void;
+  inboundHook: InboundHookStatus | null;
+  inboundHookUrl: string | null;
+  onRotateInboundHook: () => void;
+  onDisableInboundHook: () => void;
+  onDismissInboundHookUrl: () => void;
+};
+
+function describeDelivery(delivery: WebhookDelivery) {
+  if (delivery.status === 'delivered') {
+    return `Delivered ${formatDateTime(delivery.delivered_at ?? delivery.created_at)}`;
+  }
+  if (delivery.status === 'failed') {
+    return delivery.last_error ?? 'Failed';
+  }
+  return delivery.attempts === 0 ? 'Queued' : `Retrying ${formatDateTime(delivery.next_attempt_at)} (${delivery.last_error ?? 'error'})`;
+}
+
+export function WebhooksPanel(props: WebhooksPanelProps) {
+  const {
+    boardName,
+    webhooks,
+    loading,
+    error,
+    createdSecret,
+    selectedWebhookId,
+    deliveries,
+    onClose,
+    onCreateWebhook,
+    onSetWebhookActive,
+    onDeleteWebhook,
+    onShowDeliveries,
+    onRedeliver,
+    onDismissSecret,
+    inboundHook,
+    inboundHookUrl,
+    onRotateInboundHook,
+    onDisableInboundHook,
+    onDismissInboundHookUrl
+  } = props;
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState('');
+  const selectedWebhook = webhooks.find((webhook) => webhook.id === selectedWebhookId) ?? null;
+
+  async function submitWebhook() {
+    const created = await onCreateWebhook({
+      url: url.trim(),
+      events: events
+        .split(',')
+        .map((event) => event.trim())
+        .filter((event) => event.length > 0)
+    });
+    if (created) {
+      setUrl('');
+      setEvents('');
+    }
+  }
+
+  return (
+    <main className="main">
+      <div className="board-header">
+        <div>
+          <h2>Webhooks</h2>
+          <p className="board-role">Board events from {boardName} are POSTed as signed JSON to each URL.</p>
+        </div>
+        <button onClick={onClose}>Back to Board</button>
+      </div>
+
+      {createdSecret ? (
+        <section className="sessions-panel api-token-created">
+          <p className="board-role">
+            Copy this signing secret now. Verify the X-Kanban-Signature header as an HMAC-SHA256 of the timestamp, a dot, and the body.
+          </p>
+          <code>{createdSecret}</code>
+          <div>
+            <button onClick={onDismissSecret}>Done</button>
+          </div>
+        </section>
+      ) : null}
+
+      <section className="sessions-panel">
+        <h3>New Webhook</h3>
+        <div className="change-password-fields">
+          <input value={url} onChange={(event) => setUrl(event.target.value)} placeholder="https://example.com/hooks/kanban" type="url" />
+          <input value={events} onChange={(event) => setEvents(event.target.value)} placeholder="Events, e.g. card.*, comment.created (blank = all)" />
+          <button onClick={() => void submitWebhook()} disabled={!url.trim()}>
+            Add Webhook
+          </button>
+        </div>
+        {error ? <p className="error">{error}</p> : null}
+      </section>
+
+      <section className="sessions-panel">
+        {loading ? <p>Loading webhooks...</p> : null}
+        {!loading && webhooks.length === 0 ? <p>No webhooks yet.</p> : null}
+        {!loading && webhooks.length > 0 ? (
+          <div className="admin-users-table-wrap">
+            <table className="sessions-table">
+              <thead>
+                <tr>
+                  <th>URL</th>
+                  <th>Events</th>
+                  <th>Last delivery</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {webhooks.map((webhook) => (
+                  <tr key={webhook.id} className={webhook.id === selectedWebhookId ? 'webhook-selected' : undefined}>
+                    <td className="webhook-url">{webhook.url}</td>
+                    <td>{webhook.events.length > 0 ? webhook.events.join(', ') : 'All events'}</td>
+                    <td>
+                      {webhook.last_delivery_status
+                        ? `${webhook.last_delivery_status} ${formatDateTime(webhook.last_delivery_at)}`
+                        : 'Never'}
+                      {webhook.active ? null : <span className="archived-pill">Paused</span>}
+                    </td>
+                    <td className="webhook-actions">
+                      <button className="link-button" onClick={() => onShowDeliveries(webhook.id)}>
+                        Deliveries
+                      </button>
+                      <button className="link-button" onClick={() => onSetWebhookActive(webhook.id, !webhook.active)}>
+                        {webhook.active ? 'Pause' : 'Resume'}
+                      </button>
+                      <button className="link-button" onClick={() => onDeleteWebhook(webhook.id)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </section>
+
+      {selectedWebhook ? (
+        <section className="sessions-panel">
+          <div className="webhook-deliveries-header">
+            <h3>Recent Deliveries</h3>
+            <button onClick={() => onShowDeliveries(selectedWebhook.id)}>Refresh</button>
+          </div>
+          {deliveries.length === 0 ? <p>No deliveries yet.</p> : null}
+          {deliveries.length > 0 ? (
+            <div className="admin-users-table-wrap">
+              <table className="sessions-table">
+                <thead>
+                  <tr>
+                    <th>Event</th>
+                    <th>Queued</th>
+                    <th>Status</th>
+                    <th>Attempts</th>
+                    <th>Response</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.map((delivery) => (
+                    <tr key={delivery.id}>
+                      <td>{delivery.event}</td>
+                      <td>{formatDateTime(delivery.created_at)}</td>
+                      <td className={`webhook-status ${delivery.status}`}>{describeDelivery(delivery)}</td>
+                      <td>{delivery.attempts}</td>
+                      <td>{delivery.response_status ?? '-'}</td>
+                      <td>
+                        {delivery.status === 'pending' ? null : (
+                          <button className="link-button" onClick={() => onRedeliver(delivery.id)}>
+                            Redeliver
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+
+      <section className="sessions-panel">
+        <h3>Inbound Card Hook</h3>
+        <p className="board-role">
+          Other systems can create cards by POSTing JSON with a title and optional description, column, labels, and externalId to a
+          secret URL.
+        </p>
+        {inboundHookUrl ? (
+          <div className="api-token-created">
+            <p className="board-role">Copy this URL now. It will not be shown again.</p>
+            <code>{inboundHookUrl}</code>
+            <div>
+              <button onClick={onDismissInboundHookUrl}>Done</button>
+            </div>
+          </div>
+        ) : null}
+        {inboundHook?.enabled ? (
+          <div className="board-owner-actions">
+            <span className="board-role">Enabled {formatDateTime(inboundHook.created_at ?? null)}</span>
+            <button onClick={onRotateInboundHook}>Replace URL</button>
+            <button className="delete" onClick={onDisableInboundHook}>
+              Disable
+            </button>
+          </div>
+        ) : (
+          <button onClick={onRotateInboundHook}>Enable Inbound Hook</button>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -1,29 +1,90 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { request, toDateInputValue } from '../lib/api';
+import { apiUrl, request, requestBlob, setTokenRefresher, toDateInputValue, toLocalDateValue } from '../lib/api';
 import type {
   AdminUser,
   Activity,
+  ApiToken,
+  ApiTokenDraft,
+  AuthMode,
   AuthResponse,
+  AuthTokens,
   BoardDetail,
+  BoardEvent,
+  BoardFilters,
+  BoardInvitation,
   BoardMember,
   BoardSummary,
+  BoardWebhook,
+  Card,
   CardComment,
-  User
+  CardConflict,
+  CardDrag,
+  CardDraft,
+  CardPresence,
+  CardPresenceField,
+  Checklist,
+  Column,
+  InboundHookStatus,
+  InvitationPreview,
+  SearchHit,
+  SwimlaneGroup,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  User,
+  UserSession,
+  WebhookDelivery,
+  WebhookDraft
 } from '../types';
+import { applyBoardEvent, getBoardEventCardId, isPatchableBoardEvent } from '../lib/boardEvents';
+import {
+  EMPTY_BOARD_FILTERS,
+  hasBoardFilters,
+  readBoardFiltersFromUrl,
+  toBoardFilterParams,
+  writeBoardFiltersToUrl
+} from '../lib/boardFilters';
+import { isCardDraftChanged, mergeCardDrafts, toCardDraft } from '../lib/cardMerge';
+import { NO_LANE_KEY } from '../lib/swimlanes';
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL ?? 'http://localhost:4000';
 const TOKEN_STORAGE_KEY = 'kanban_auth_token';
+const REFRESH_TOKEN_STORAGE_KEY = 'kanban_refresh_token';
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const INVITE_QUERY_PARAM = 'invite';
+const RESET_QUERY_PARAM = 'reset';
+const SSO_QUERY_PARAM = 'sso';
+const SSO_ERROR_QUERY_PARAM = 'sso_error';
+const DRAG_OVER_THROTTLE_MS = 150;
+// The server releases a drag lock after 15s without updates.
+const DRAG_KEEPALIVE_MS = 5000;
+
+function clearQueryParam(param: string) {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(param);
+  window.history.replaceState(null, '', url.toString());
+}
 
 export function useKanbanApp() {
   const boardRequestIdRef = useRef(0);
+  const searchRequestIdRef = useRef(0);
+  const boardVersionRef = useRef<{ boardId: number; version: number } | null>(null);
+  const refreshRequestRef = useRef<Promise<string | null> | null>(null);
   const [token, setToken] = useState<string | null>(() => localStorage.getItem(TOKEN_STORAGE_KEY));
   const [authInitializing, setAuthInitializing] = useState<boolean>(() => Boolean(localStorage.getItem(TOKEN_STORAGE_KEY)));
-  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  const [resetToken, setResetToken] = useState<string | null>(() => new URLSearchParams(window.location.search).get(RESET_QUERY_PARAM));
+  const [authMode, setAuthMode] = useState<AuthMode>(() => (resetToken ? 'reset' : 'login'));
   const [authName, setAuthName] = useState('');
   const [authEmail, setAuthEmail] = useState('');
   const [authPassword, setAuthPassword] = useState('');
+  const [authCode, setAuthCode] = useState('');
+  const [twoFactorChallengeToken, setTwoFactorChallengeToken] = useState<string | null>(null);
+  const [ssoProviderName, setSsoProviderName] = useState<string | null>(null);
+  const [pendingInviteToken, setPendingInviteToken] = useState<string | null>(() =>
+    new URLSearchParams(window.location.search).get(INVITE_QUERY_PARAM)
+  );
+  const [invitePreview, setInvitePreview] = useState<InvitationPreview | null>(null);
 
   const [user, setUser] = useState<User | null>(null);
   const [boards, setBoards] = useState<BoardSummary[]>([]);
@@ -32,17 +93,41 @@ export function useKanbanApp() {
   const [activeBoard, setActiveBoard] = useState<BoardDetail | null>(null);
   const [members, setMembers] = useState<BoardMember[]>([]);
   const [onlineUserIds, setOnlineUserIds] = useState<number[]>([]);
+  const [cardPresence, setCardPresence] = useState<CardPresence[]>([]);
+  const cardPresenceRef = useRef<{ cardId: number | null; field: CardPresenceField | null }>({ cardId: null, field: null });
+  const [cardDrags, setCardDrags] = useState<CardDrag[]>([]);
+  const cardDragRef = useRef<{ cardId: number; columnId: number | null; sentAt: number } | null>(null);
   const [memberEmail, setMemberEmail] = useState('');
   const [memberRole, setMemberRole] = useState<'member' | 'viewer'>('member');
+  const [invitations, setInvitations] = useState<BoardInvitation[]>([]);
   const [cardActivities, setCardActivities] = useState<Activity[]>([]);
   const [loadingBoards, setLoadingBoards] = useState<boolean>(() => Boolean(localStorage.getItem(TOKEN_STORAGE_KEY)));
   const [creatingBoard, setCreatingBoard] = useState(false);
   const [adminView, setAdminView] = useState(false);
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
   const [loadingAdminUsers, setLoadingAdminUsers] = useState(false);
+  const [sessionsView, setSessionsView] = useState(false);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(false);
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [tokensView, setTokensView] = useState(false);
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [loadingApiTokens, setLoadingApiTokens] = useState(false);
+  const [createdApiToken, setCreatedApiToken] = useState<string | null>(null);
+  const [webhooksView, setWebhooksView] = useState(false);
+  const [webhooks, setWebhooks] = useState<BoardWebhook[]>([]);
+  const [loadingWebhooks, setLoadingWebhooks] = useState(false);
+  const [createdWebhookSecret, setCreatedWebhookSecret] = useState<string | null>(null);
+  const [selectedWebhookId, setSelectedWebhookId] = useState<number | null>(null);
+  const [webhookDeliveries, setWebhookDeliveries] = useState<WebhookDelivery[]>([]);
+  const [inboundHook, setInboundHook] = useState<InboundHookStatus | null>(null);
+  const [inboundHookUrl, setInboundHookUrl] = useState<string | null>(null);
 
   const [loadingBoard, setLoadingBoard] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [newColumnTitle, setNewColumnTitle] = useState('');
   const [newCardTitle, setNewCardTitle] = useState('');
   const [newCardColumnId, setNewCardColumnId] = useState<number | null>(null);
@@ -51,11 +136,21 @@ export function useKanbanApp() {
   const [selectedCardId, setSelectedCardId] = useState<number | null>(null);
   const [cardTitle, setCardTitle] = useState('');
   const [cardDescription, setCardDescription] = useState('');
-  const [cardAssignee, setCardAssignee] = useState('');
+  const [cardAssigneeIds, setCardAssigneeIds] = useState<number[]>([]);
   const [cardDueDate, setCardDueDate] = useState('');
   const [comments, setComments] = useState<CardComment[]>([]);
+  const [checklists, setChecklists] = useState<Checklist[]>([]);
   const [newCommentBody, setNewCommentBody] = useState('');
   const [savingCard, setSavingCard] = useState(false);
+  const [cardEditBase, setCardEditBase] = useState<Card | null>(null);
+  const [cardConflict, setCardConflict] = useState<CardConflict | null>(null);
+  const [searchResults, setSearchResults] = useState<SearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [boardFilters, setBoardFilters] = useState<BoardFilters>(() => readBoardFiltersFromUrl());
+  const boardFilterQuery = toBoardFilterParams(boardFilters).toString();
+  const boardFilterQueryRef = useRef(boardFilterQuery);
+  boardFilterQueryRef.current = boardFilterQuery;
+  const loadedFilterQueryRef = useRef(boardFilterQuery);
 
   const sortedColumns = useMemo(() => {
     if (!activeBoard) {
@@ -82,13 +177,48 @@ export function useKanbanApp() {
 
   const canWrite = activeBoard ? activeBoard.role === 'owner' || activeBoard.role === 'member' : false;
 
-  function setTokenState(nextToken: string | null) {
+  const signedIn = token !== null;
+
+  function setTokenState(nextToken: string | null, nextRefreshToken: string | null = null) {
     setToken(nextToken);
     if (nextToken) {
       localStorage.setItem(TOKEN_STORAGE_KEY, nextToken);
     } else {
       localStorage.removeItem(TOKEN_STORAGE_KEY);
+      localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+    }
+    if (nextRefreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, nextRefreshToken);
+    }
+  }
+
+  // Concurrent 401s share one refresh, since each refresh token can only be used once.
+  function refreshAccessToken(expiredToken: string): Promise<string | null> {
+    const storedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (storedToken && storedToken !== expiredToken) {
+      return Promise.resolve(storedToken);
+    }
+
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+    if (!refreshToken) {
+      return Promise.resolve(null);
     }
+
+    if (!refreshRequestRef.current) {
+      refreshRequestRef.current = request<AuthTokens>('/api/auth/refresh', null, {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken })
+      })
+        .then((tokens) => {
+          setTokenState(tokens.token, tokens.refreshToken);
+          return tokens.token;
+        })
+        .catch(() => null)
+        .finally(() => {
+          refreshRequestRef.current = null;
+        });
+    }
+    return refreshRequestRef.current;
   }
 
   function handleUnauthorized() {
@@ -98,21 +228,79 @@ export function useKanbanApp() {
     setActiveBoard(null);
     setActiveBoardId(null);
     setMembers([]);
+    setInvitations([]);
     setOnlineUserIds([]);
+    setCardPresence([]);
+    setCardDrags([]);
     setCardActivities([]);
     setAdminUsers([]);
     setAdminView(false);
+    setSessions([]);
+    setSessionsView(false);
+    setApiTokens([]);
+    setTokensView(false);
+    setCreatedApiToken(null);
+    setWebhooksView(false);
+    setWebhooks([]);
+    setWebhookDeliveries([]);
+    setSelectedWebhookId(null);
+    setCreatedWebhookSecret(null);
+    setInboundHook(null);
+    setInboundHookUrl(null);
+    setTwoFactorStatus(null);
+    setTwoFactorSetup(null);
+    setRecoveryCodes(null);
     setSelectedCardId(null);
     setError('Session expired. Please log in again.');
   }
 
   useEffect(() => {
-    if (!token) {
+    setTokenRefresher(refreshAccessToken);
+    return () => setTokenRefresher(null);
+  }, []);
+
+  // Keyed on being signed in rather than the token itself, so refreshing the access token keeps the socket and loaded data.
+  useEffect(() => {
+    if (!signedIn) {
       return;
     }
 
+    // The auth callback runs on every (re)connect, so reconnects pick up the latest access token.
     const instance = io(SOCKET_URL, {
-      auth: { token }
+      auth: (callback) => callback({ token: localStorage.getItem(TOKEN_STORAGE_KEY) })
+    });
+
+    // Refresh once per connection attempt; a second rejection means the session is gone.
+    let reauthenticating = false;
+    const reauthenticate = () => {
+      if (reauthenticating) {
+        handleUnauthorized();
+        return;
+      }
+
+      reauthenticating = true;
+      void refreshAccessToken(localStorage.getItem(TOKEN_STORAGE_KEY) ?? '').then((nextToken) => {
+        if (!nextToken) {
+          handleUnauthorized();
+          return;
+        }
+        instance.connect();
+      });
+    };
+
+    instance.on('connect', () => {
+      reauthenticating = false;
+    });
+    instance.on('connect_error', (err) => {
+      if (err.message === 'Unauthorized') {
+        reauthenticate();
+      }
+    });
+    // The server only disconnects sockets itself when their session is revoked.
+    instance.on('disconnect', (reason) => {
+      if (reason === 'io server disconnect') {
+        reauthenticate();
+      }
     });
 
     setSocket(instance);
@@ -121,10 +309,10 @@ export function useKanbanApp() {
       instance.disconnect();
       setSocket(null);
     };
-  }, [token]);
+  }, [signedIn]);
 
   useEffect(() => {
-    if (!token) {
+    if (!signedIn) {
       setAuthInitializing(false);
       setLoadingBoards(false);
       return;
@@ -132,8 +320,69 @@ export function useKanbanApp() {
 
     setAuthInitializing(true);
     void bootstrap();
+  }, [signedIn]);
+
+  useEffect(() => {
+    writeBoardFiltersToUrl(boardFilters);
+    if (!activeBoardId || boardFilterQuery === loadedFilterQueryRef.current) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      void loadBoard(activeBoardId, false);
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [boardFilterQuery]);
+
+  useEffect(() => {
+    if (token) {
+      return;
+    }
+
+    request<{ enabled: boolean; name: string | null }>('/api/auth/oidc', null)
+      .then((provider) => setSsoProviderName(provider.enabled ? provider.name : null))
+      .catch(() => setSsoProviderName(null));
   }, [token]);
 
+  // The SSO callback redirects back here with a one-time code (or an error) in the URL.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const ssoCode = params.get(SSO_QUERY_PARAM);
+    const ssoError = params.get(SSO_ERROR_QUERY_PARAM);
+    clearQueryParam(SSO_QUERY_PARAM);
+    clearQueryParam(SSO_ERROR_QUERY_PARAM);
+
+    if (ssoError) {
+      setError(ssoError);
+    }
+
+    if (ssoCode) {
+      request<AuthResponse | TwoFactorChallenge>('/api/auth/oidc/exchange', null, {
+        method: 'POST',
+        body: JSON.stringify({ code: ssoCode })
+      })
+        .then(handleSignInResult)
+        .catch((err) => setError((err as Error).message));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!pendingInviteToken || token) {
+      return;
+    }
+
+    request<InvitationPreview>(`/api/invitations/${encodeURIComponent(pendingInviteToken)}`, null)
+      .then((preview) => {
+        setInvitePreview(preview);
+        setAuthMode('register');
+      })
+      .catch((err) => {
+        setPendingInviteToken(null);
+        clearQueryParam(INVITE_QUERY_PARAM);
+        setError((err as Error).message);
+      });
+  }, [pendingInviteToken, token]);
+
   useEffect(() => {
     if (!socket || !activeBoardId) {
       return;
@@ -141,37 +390,97 @@ export function useKanbanApp() {
 
     socket.emit('join_board', activeBoardId);
 
-    const onBoardChanged = (payload: { boardId: number }) => {
+    const onPresenceChanged = (payload: { boardId: number; onlineUserIds: number[] }) => {
       if (payload.boardId !== activeBoardId) {
         return;
       }
+      setOnlineUserIds(payload.onlineUserIds);
+      // Presence arrives once the join has completed, so re-announce the open card in case it was sent too early.
+      emitCardPresence();
+    };
 
-      void loadBoard(activeBoardId, false);
-
-      if (selectedCardId !== null) {
-        void loadComments(selectedCardId);
-        void loadCardActivities(selectedCardId);
+    const onCardPresenceChanged = (payload: { boardId: number; cards: CardPresence[] }) => {
+      if (payload.boardId !== activeBoardId) {
+        return;
       }
+      setCardPresence(payload.cards);
     };
 
-    const onPresenceChanged = (payload: { boardId: number; onlineUserIds: number[] }) => {
+    const onCardDragChanged = (payload: { boardId: number; drags: CardDrag[] }) => {
       if (payload.boardId !== activeBoardId) {
         return;
       }
-      setOnlineUserIds(payload.onlineUserIds);
+      setCardDrags(payload.drags);
+    };
+
+    const onCardDragRejected = (payload: { boardId: number; cardId: number; lockedBy: number | null }) => {
+      if (payload.boardId !== activeBoardId || cardDragRef.current?.cardId !== payload.cardId) {
+        return;
+      }
+      cardDragRef.current = null;
+      setError('Another member is already moving this card.');
     };
 
-    socket.on('board_changed', onBoardChanged);
     socket.on('presence_changed', onPresenceChanged);
+    socket.on('card_presence_changed', onCardPresenceChanged);
+    socket.on('card_drag_changed', onCardDragChanged);
+    socket.on('card_drag_rejected', onCardDragRejected);
 
     return () => {
       socket.emit('leave_board', activeBoardId);
-      socket.off('board_changed', onBoardChanged);
       socket.off('presence_changed', onPresenceChanged);
+      socket.off('card_presence_changed', onCardPresenceChanged);
+      socket.off('card_drag_changed', onCardDragChanged);
+      socket.off('card_drag_rejected', onCardDragRejected);
+      cardDragRef.current = null;
       setOnlineUserIds([]);
+      setCardPresence([]);
+      setCardDrags([]);
+    };
+  }, [socket, activeBoardId]);
+
+  useEffect(() => {
+    if (!socket || !activeBoardId) {
+      return;
+    }
+
+    const onBoardChanged = (event: BoardEvent) => {
+      if (event.boardId !== activeBoardId) {
+        return;
+      }
+
+      const knownVersion = boardVersionRef.current?.boardId === event.boardId ? boardVersionRef.current.version : null;
+      if (knownVersion !== null && event.version <= knownVersion) {
+        return;
+      }
+
+      if (knownVersion !== null && event.version === knownVersion + 1 && isPatchableBoardEvent(event)) {
+        boardVersionRef.current = { boardId: event.boardId, version: event.version };
+        setActiveBoard((current) => (current?.id === event.boardId ? applyBoardEvent(current, event) : current));
+        applySelectedCardEvent(event);
+        return;
+      }
+
+      void loadBoard(activeBoardId, false);
+
+      if (selectedCardId !== null) {
+        void loadComments(selectedCardId);
+        void loadChecklists(selectedCardId);
+        void loadCardActivities(selectedCardId);
+      }
+    };
+
+    socket.on('board_changed', onBoardChanged);
+    return () => {
+      socket.off('board_changed', onBoardChanged);
     };
   }, [socket, activeBoardId, selectedCardId]);
 
+  useEffect(() => {
+    cardPresenceRef.current = { cardId: selectedCardId, field: null };
+    emitCardPresence();
+  }, [socket, activeBoardId, selectedCardId]);
+
   useEffect(() => {
     if (!socket || !token) {
       return;
@@ -190,15 +499,24 @@ export function useKanbanApp() {
   useEffect(() => {
     if (!selectedCard) {
       setComments([]);
+      setChecklists([]);
       setCardActivities([]);
+      setCardEditBase(null);
+      setCardConflict(null);
       return;
     }
 
-    setCardTitle(selectedCard.title);
-    setCardDescription(selectedCard.description ?? '');
-    setCardAssignee(selectedCard.assignee ?? '');
-    setCardDueDate(toDateInputValue(selectedCard.due_date));
-    void Promise.all([loadComments(selectedCard.id), loadCardActivities(selectedCard.id)]);
+    if (cardEditBase?.id !== selectedCard.id) {
+      resetCardForm(selectedCard);
+      setCardConflict(null);
+      void Promise.all([loadComments(selectedCard.id), loadChecklists(selectedCard.id), loadCardActivities(selectedCard.id)]);
+      return;
+    }
+
+    // Remote edits replace the form only while it is untouched; otherwise saving reports the conflict.
+    if (selectedCard.version !== cardEditBase.version && !isCardDraftChanged(toCardDraft(cardEditBase), getCardFormDraft())) {
+      resetCardForm(selectedCard);
+    }
   }, [selectedCard]);
 
   useEffect(() => {
@@ -218,7 +536,8 @@ export function useKanbanApp() {
     try {
       const me = await request<User>('/api/auth/me', token);
       setUser(me);
-      await loadBoards(true);
+      const invitedBoardId = pendingInviteToken ? await acceptPendingInvite(pendingInviteToken) : null;
+      await loadBoards(true, invitedBoardId);
       setError(null);
     } catch (err) {
       const status = (err as Error & { status?: number }).status;
@@ -232,7 +551,102 @@ export function useKanbanApp() {
     }
   }
 
-  async function loadBoards(waitForBoard = false) {
+  async function acceptPendingInvite(inviteToken: string): Promise<number | null> {
+    setPendingInviteToken(null);
+    setInvitePreview(null);
+    clearQueryParam(INVITE_QUERY_PARAM);
+
+    try {
+      const accepted = await request<{ boardId: number }>(`/api/invitations/${encodeURIComponent(inviteToken)}/accept`, token, {
+        method: 'POST'
+      });
+      return accepted.boardId;
+    } catch (err) {
+      setError((err as Error).message);
+      return null;
+    }
+  }
+
+  function emitCardPresence() {
+    if (!socket || !activeBoardId) {
+      return;
+    }
+
+    const { cardId, field } = cardPresenceRef.current;
+    if (field === null) {
+      socket.emit('card_viewing', { boardId: activeBoardId, cardId });
+    } else {
+      socket.emit('card_editing', { boardId: activeBoardId, cardId, field });
+    }
+  }
+
+  function setEditingField(field: CardPresenceField | null) {
+    if (cardPresenceRef.current.field === field) {
+      return;
+    }
+    cardPresenceRef.current = { cardId: selectedCardId, field: selectedCardId === null ? null : field };
+    emitCardPresence();
+  }
+
+  function startCardDrag(cardId: number, columnId: number) {
+    if (!socket || !activeBoardId) {
+      return;
+    }
+
+    cardDragRef.current = { cardId, columnId, sentAt: Date.now() };
+    socket.emit('card_drag_start', { boardId: activeBoardId, cardId, columnId });
+  }
+
+  // dragover fires continuously, so only column changes (throttled) and periodic keepalives are sent.
+  function dragCardOver(columnId: number) {
+    const drag = cardDragRef.current;
+    if (!socket || !activeBoardId || !drag) {
+      return;
+    }
+
+    const elapsed = Date.now() - drag.sentAt;
+    if (elapsed < DRAG_OVER_THROTTLE_MS || (drag.columnId === columnId && elapsed < DRAG_KEEPALIVE_MS)) {
+      return;
+    }
+
+    cardDragRef.current = { ...drag, columnId, sentAt: Date.now() };
+    socket.emit('card_drag_over', { boardId: activeBoardId, cardId: drag.cardId, columnId });
+  }
+
+  function endCardDrag() {
+    const drag = cardDragRef.current;
+    cardDragRef.current = null;
+    if (!socket || !activeBoardId || !drag) {
+      return;
+    }
+
+    socket.emit('card_drag_end', { boardId: activeBoardId, cardId: drag.cardId });
+  }
+
+  function applySelectedCardEvent(event: BoardEvent) {
+    const cardId = getBoardEventCardId(event);
+    if (selectedCardId === null || cardId !== selectedCardId) {
+      return;
+    }
+
+    if (event.event === 'card_deleted') {
+      setSelectedCardId(null);
+      return;
+    }
+    if (event.event === 'comment_created') {
+      const comment = event.payload?.comment as CardComment;
+      setComments((current) => (current.some((item) => item.id === comment.id) ? current : [...current, comment]));
+    }
+    if (event.event === 'comment_deleted') {
+      setComments((current) => current.filter((item) => item.id !== event.payload?.commentId));
+    }
+    if (event.event === 'checklist_changed') {
+      void loadChecklists(cardId);
+    }
+    void loadCardActivities(cardId);
+  }
+
+  async function loadBoards(waitForBoard = false, preferredBoardId: number | null = null) {
     setLoadingBoards(true);
     try {
       const items = await request<BoardSummary[]>('/api/boards', token);
@@ -242,12 +656,17 @@ export function useKanbanApp() {
         setActiveBoardId(null);
         setActiveBoard(null);
         setMembers([]);
+        setInvitations([]);
         setOnlineUserIds([]);
+        setCardPresence([]);
+        setCardDrags([]);
         setCardActivities([]);
         return;
       }
 
-      const nextId = activeBoardId && items.some((board) => board.id === activeBoardId) ? activeBoardId : items[0].id;
+      const fallbackBoard = items.find((board) => !board.archived_at) ?? items[0];
+      const currentId = preferredBoardId ?? activeBoardId;
+      const nextId = currentId && items.some((board) => board.id === currentId) ? currentId : fallbackBoard.id;
       setActiveBoardId(nextId);
       if (waitForBoard) {
         await loadBoard(nextId, true);
@@ -275,6 +694,15 @@ export function useKanbanApp() {
     }
   }
 
+  async function loadInvitations(boardId: number) {
+    try {
+      const nextInvitations = await request<BoardInvitation[]>(`/api/boards/${boardId}/invitations`, token);
+      setInvitations(nextInvitations);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
   async function loadComments(cardId: number) {
     try {
       const nextComments = await request<CardComment[]>(`/api/cards/${cardId}/comments`, token);
@@ -284,6 +712,15 @@ export function useKanbanApp() {
     }
   }
 
+  async function loadChecklists(cardId: number) {
+    try {
+      const nextChecklists = await request<Checklist[]>(`/api/cards/${cardId}/checklists`, token);
+      setChecklists(nextChecklists);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
   async function loadCardActivities(cardId: number) {
     try {
       const nextActivities = await request<Activity[]>(`/api/cards/${cardId}/activities?limit=50`, token);
@@ -301,15 +738,42 @@ export function useKanbanApp() {
       setLoadingBoard(true);
     }
 
+    const filterQuery = boardFilterQueryRef.current;
+    const params = new URLSearchParams(filterQuery);
+    if (filterQuery && selectedCardId !== null) {
+      // Keep the open card in the payload even when an edit makes it stop matching the filters.
+      params.set('include', String(selectedCardId));
+    }
+    if (params.has('due')) {
+      params.set('today', toLocalDateValue(new Date()));
+    }
+
+    const query = params.toString();
+
     try {
-      const board = await request<BoardDetail>(`/api/boards/${boardId}`, token);
+      const board = await request<BoardDetail>(`/api/boards/${boardId}${query ? `?${query}` : ''}`, token);
       if (requestId !== boardRequestIdRef.current) {
         return;
       }
 
+      const knownVersion = boardVersionRef.current;
+      if (knownVersion?.boardId === boardId && board.version < knownVersion.version) {
+        // Realtime patches newer than this snapshot were applied while the request was in flight.
+        void loadBoard(boardId, false);
+        return;
+      }
+
+      loadedFilterQueryRef.current = filterQuery;
+      boardVersionRef.current = { boardId, version: board.version };
+
       setActiveBoard(board);
       setActiveBoardId(boardId);
       void loadMembers(boardId);
+      if (board.role === 'owner') {
+        void loadInvitations(boardId);
+      } else {
+        setInvitations([]);
+      }
       setError(null);
 
       if (selectedCardId !== null) {
@@ -333,6 +797,21 @@ export function useKanbanApp() {
   }
 
   async function submitAuth() {
+    if (authMode === 'forgot') {
+      await requestPasswordReset();
+      return;
+    }
+
+    if (authMode === 'reset') {
+      await resetPassword();
+      return;
+    }
+
+    if (authMode === 'twoFactor') {
+      await verifyTwoFactorSignIn();
+      return;
+    }
+
     const email = authEmail.trim().toLowerCase();
     const password = authPassword;
     const name = authName.trim();
@@ -360,109 +839,820 @@ export function useKanbanApp() {
     try {
       const payload =
         authMode === 'register'
-          ? { name, email, password }
+          ? { name, email, password, inviteToken: pendingInviteToken ?? undefined }
           : { email, password };
 
       const path = authMode === 'register' ? '/api/auth/register' : '/api/auth/login';
-      const result = await request<AuthResponse>(path, null, {
+      const result = await request<AuthResponse | TwoFactorChallenge>(path, null, {
         method: 'POST',
         body: JSON.stringify(payload)
       });
 
-      setUser(result.user);
-      setTokenState(result.token);
-      setAuthPassword('');
-      setError(null);
+      handleSignInResult(result);
     } catch (err) {
       setError((err as Error).message);
     }
   }
 
-  function logout() {
-    setTokenState(null);
-    setAuthInitializing(false);
-    setUser(null);
-    setBoards([]);
-    setActiveBoard(null);
-    setActiveBoardId(null);
-    setMembers([]);
-    setOnlineUserIds([]);
-    setCardActivities([]);
-    setAdminUsers([]);
-    setAdminView(false);
-    setLoadingBoards(false);
-    setSelectedCardId(null);
-    setError(null);
-  }
-
-  async function loadAdminUsers() {
-    if (!user?.is_admin) {
+  // Password and single sign-on logins both stop at the code prompt when the account has two-factor auth enabled.
+  function handleSignInResult(result: AuthResponse | TwoFactorChallenge) {
+    if ('twoFactorRequired' in result) {
+      setTwoFactorChallengeToken(result.challengeToken);
+      setAuthMode('twoFactor');
+      setAuthPassword('');
+      setAuthCode('');
+      setError(null);
       return;
     }
-    try {
-      setLoadingAdminUsers(true);
-      const nextUsers = await request<AdminUser[]>('/api/admin/users?limit=500', token);
-      setAdminUsers(nextUsers);
-    } catch (err) {
-      setError((err as Error).message);
-    } finally {
-      setLoadingAdminUsers(false);
-    }
+
+    completeSignIn(result);
   }
 
-  async function openAdminView() {
-    if (!user?.is_admin) {
-      return;
+  function completeSignIn(result: AuthResponse) {
+    if (result.joinedBoardId) {
+      // The invitation was consumed during registration, so bootstrap should not accept it again.
+      setPendingInviteToken(null);
+      setInvitePreview(null);
+      clearQueryParam(INVITE_QUERY_PARAM);
+      setActiveBoardId(result.joinedBoardId);
     }
-    setAdminView(true);
-    setSelectedCardId(null);
-    await loadAdminUsers();
+
+    setUser(result.user);
+    setTokenState(result.token, result.refreshToken);
+    setAuthPassword('');
+    setError(null);
+    setNotice(null);
   }
 
-  function closeAdminView() {
-    setAdminView(false);
+  function startSso() {
+    window.location.assign(apiUrl('/api/auth/oidc/start'));
   }
 
-  async function createBoard() {
-    if (!boardName.trim()) {
+  async function verifyTwoFactorSignIn() {
+    const code = authCode.trim();
+    if (!twoFactorChallengeToken) {
+      setAuthMode('login');
+      return;
+    }
+
+    if (!code) {
+      setError('Enter the code from your authenticator app or a recovery code.');
       return;
     }
 
     try {
-      setCreatingBoard(true);
-      const trimmedName = boardName.trim();
-      const created = await request<{ id: number; name: string; created_at: string }>('/api/boards', token, {
+      const result = await request<AuthResponse>('/api/auth/2fa/verify', null, {
         method: 'POST',
-        body: JSON.stringify({ name: trimmedName })
+        body: JSON.stringify({ challengeToken: twoFactorChallengeToken, code })
       });
-
-      setBoardName('');
-      setBoards((prev) => [
-        { id: created.id, name: created.name, created_at: created.created_at, role: 'owner' },
-        ...prev.filter((board) => board.id !== created.id)
-      ]);
-      setActiveBoardId(created.id);
-      void loadBoard(created.id, false);
+      setTwoFactorChallengeToken(null);
+      setAuthCode('');
+      completeSignIn(result);
     } catch (err) {
       setError((err as Error).message);
-    } finally {
-      setCreatingBoard(false);
     }
   }
 
-  async function addMember() {
-    if (!activeBoardId || !memberEmail.trim()) {
+  async function requestPasswordReset() {
+    const email = authEmail.trim().toLowerCase();
+    if (!EMAIL_REGEX.test(email)) {
+      setError('Please enter a valid email address.');
       return;
     }
 
     try {
-      await request(`/api/boards/${activeBoardId}/members`, token, {
+      const result = await request<{ message: string }>('/api/auth/forgot', null, {
         method: 'POST',
-        body: JSON.stringify({ email: memberEmail.trim(), role: memberRole })
+        body: JSON.stringify({ email })
       });
-
-      setMemberEmail('');
-      await loadMembers(activeBoardId);
+      setNotice(result.message);
+      setError(null);
+      setAuthMode('login');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function resetPassword() {
+    if (!resetToken) {
+      setError('Reset link is invalid or has expired');
+      return;
+    }
+
+    if (authPassword.length < 6) {
+      setError('Password must be at least 6 characters.');
+      return;
+    }
+
+    try {
+      await request('/api/auth/reset', null, {
+        method: 'POST',
+        body: JSON.stringify({ token: resetToken, password: authPassword })
+      });
+      setResetToken(null);
+      clearQueryParam(RESET_QUERY_PARAM);
+      setAuthPassword('');
+      setNotice('Password updated. Log in with your new password.');
+      setError(null);
+      setAuthMode('login');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function changePassword(currentPassword: string, newPassword: string): Promise<boolean> {
+    if (newPassword.length < 6) {
+      setError('Password must be at least 6 characters.');
+      return false;
+    }
+
+    try {
+      await request('/api/auth/change-password', token, {
+        method: 'POST',
+        body: JSON.stringify({ currentPassword, newPassword })
+      });
+      // The server signs out every other device when the password changes.
+      setSessions((current) => current.filter((session) => session.current));
+      setError(null);
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  }
+
+  function logout() {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+    if (refreshToken) {
+      void request('/api/auth/logout', null, {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken })
+      }).catch(() => undefined);
+    }
+
+    setTokenState(null);
+    setAuthInitializing(false);
+    setUser(null);
+    setBoards([]);
+    setActiveBoard(null);
+    setActiveBoardId(null);
+    setMembers([]);
+    setInvitations([]);
+    setOnlineUserIds([]);
+    setCardPresence([]);
+    setCardDrags([]);
+    setCardActivities([]);
+    setAdminUsers([]);
+    setAdminView(false);
+    setSessions([]);
+    setSessionsView(false);
+    setApiTokens([]);
+    setTokensView(false);
+    setCreatedApiToken(null);
+    setWebhooksView(false);
+    setWebhooks([]);
+    setWebhookDeliveries([]);
+    setSelectedWebhookId(null);
+    setCreatedWebhookSecret(null);
+    setInboundHook(null);
+    setInboundHookUrl(null);
+    setTwoFactorStatus(null);
+    setTwoFactorSetup(null);
+    setRecoveryCodes(null);
+    setLoadingBoards(false);
+    setSelectedCardId(null);
+    setError(null);
+  }
+
+  async function loadAdminUsers() {
+    if (!user?.is_admin) {
+      return;
+    }
+    try {
+      setLoadingAdminUsers(true);
+      const nextUsers = await request<AdminUser[]>('/api/admin/users?limit=500', token);
+      setAdminUsers(nextUsers);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoadingAdminUsers(false);
+    }
+  }
+
+  async function unlockUser(userId: number) {
+    try {
+      await request(`/api/admin/users/${userId}/unlock`, token, { method: 'POST' });
+      setAdminUsers((current) => current.map((entry) => (entry.id === userId ? { ...entry, locked_until: null } : entry)));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function searchCards(query: string) {
+    const requestId = searchRequestIdRef.current + 1;
+    searchRequestIdRef.current = requestId;
+
+    if (!query.trim()) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const hits = await request<SearchHit[]>(`/api/search?q=${encodeURIComponent(query.trim())}`, token);
+      if (requestId === searchRequestIdRef.current) {
+        setSearchResults(hits);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      if (requestId === searchRequestIdRef.current) {
+        setSearching(false);
+      }
+    }
+  }
+
+  function clearBoardFilters() {
+    boardFilterQueryRef.current = '';
+    setBoardFilters(EMPTY_BOARD_FILTERS);
+  }
+
+  async function selectBoard(boardId: number) {
+    if (boardId !== activeBoardId && hasBoardFilters(boardFilters)) {
+      clearBoardFilters();
+    }
+    setWebhooksView(false);
+    await loadBoard(boardId, false);
+  }
+
+  async function openSearchHit(hit: SearchHit) {
+    setAdminView(false);
+    setSessionsView(false);
+    setTokensView(false);
+    setWebhooksView(false);
+    const filtered = hasBoardFilters(boardFilters);
+    if (filtered) {
+      clearBoardFilters();
+    }
+    if (filtered || hit.board_id !== activeBoardId || !activeBoard) {
+      await loadBoard(hit.board_id, true);
+    }
+    setSelectedCardId(hit.card_id);
+  }
+
+  async function openAdminView() {
+    if (!user?.is_admin) {
+      return;
+    }
+    setSessionsView(false);
+    setTokensView(false);
+    setWebhooksView(false);
+    setAdminView(true);
+    setSelectedCardId(null);
+    await loadAdminUsers();
+  }
+
+  function closeAdminView() {
+    setAdminView(false);
+  }
+
+  async function loadSessions() {
+    try {
+      setLoadingSessions(true);
+      const nextSessions = await request<UserSession[]>('/api/auth/sessions', token);
+      setSessions(nextSessions);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoadingSessions(false);
+    }
+  }
+
+  async function openSessionsView() {
+    setAdminView(false);
+    setTokensView(false);
+    setWebhooksView(false);
+    setSessionsView(true);
+    setSelectedCardId(null);
+    await Promise.all([loadSessions(), loadTwoFactorStatus()]);
+  }
+
+  async function loadTwoFactorStatus() {
+    try {
+      setTwoFactorStatus(await request<TwoFactorStatus>('/api/auth/2fa', token));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function startTwoFactorSetup() {
+    try {
+      setTwoFactorSetup(await request<TwoFactorSetup>('/api/auth/2fa/setup', token, { method: 'POST' }));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function cancelTwoFactorSetup() {
+    setTwoFactorSetup(null);
+  }
+
+  async function enableTwoFactor(code: string) {
+    try {
+      const result = await request<{ recoveryCodes: string[] }>('/api/auth/2fa/enable', token, {
+        method: 'POST',
+        body: JSON.stringify({ code: code.trim() })
+      });
+      setTwoFactorSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      setTwoFactorStatus({ enabled: true, recoveryCodesRemaining: result.recoveryCodes.length });
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function regenerateRecoveryCodes(code: string) {
+    try {
+      const result = await request<{ recoveryCodes: string[] }>('/api/auth/2fa/recovery-codes', token, {
+        method: 'POST',
+        body: JSON.stringify({ code: code.trim() })
+      });
+      setRecoveryCodes(result.recoveryCodes);
+      setTwoFactorStatus({ enabled: true, recoveryCodesRemaining: result.recoveryCodes.length });
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function dismissRecoveryCodes() {
+    setRecoveryCodes(null);
+  }
+
+  async function disableTwoFactor(password: string, code: string) {
+    try {
+      await request('/api/auth/2fa/disable', token, {
+        method: 'POST',
+        body: JSON.stringify({ password, code: code.trim() })
+      });
+      setRecoveryCodes(null);
+      setTwoFactorStatus({ enabled: false, recoveryCodesRemaining: 0 });
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function closeSessionsView() {
+    setSessionsView(false);
+  }
+
+  async function openTokensView() {
+    setAdminView(false);
+    setSessionsView(false);
+    setWebhooksView(false);
+    setTokensView(true);
+    setSelectedCardId(null);
+    try {
+      setLoadingApiTokens(true);
+      setApiTokens(await request<ApiToken[]>('/api/auth/tokens', token));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoadingApiTokens(false);
+    }
+  }
+
+  function closeTokensView() {
+    setTokensView(false);
+    setCreatedApiToken(null);
+  }
+
+  async function createApiToken(draft: ApiTokenDraft): Promise<boolean> {
+    try {
+      const created = await request<ApiToken & { token: string }>('/api/auth/tokens', token, {
+        method: 'POST',
+        body: JSON.stringify(draft)
+      });
+      const { token: plainToken, ...record } = created;
+      setApiTokens((current) => [record, ...current]);
+      setCreatedApiToken(plainToken);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  }
+
+  async function revokeApiToken(tokenId: number) {
+    try {
+      await request(`/api/auth/tokens/${tokenId}`, token, { method: 'DELETE' });
+      setApiTokens((current) => current.filter((entry) => entry.id !== tokenId));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function dismissCreatedApiToken() {
+    setCreatedApiToken(null);
+  }
+
+  async function openWebhooksView() {
+    if (!activeBoardId) {
+      return;
+    }
+
+    setAdminView(false);
+    setSessionsView(false);
+    setTokensView(false);
+    setWebhooksView(true);
+    setSelectedCardId(null);
+    setSelectedWebhookId(null);
+    setWebhookDeliveries([]);
+    setInboundHookUrl(null);
+    try {
+      setLoadingWebhooks(true);
+      const [nextWebhooks, nextInboundHook] = await Promise.all([
+        request<BoardWebhook[]>(`/api/boards/${activeBoardId}/webhooks`, token),
+        request<InboundHookStatus>(`/api/boards/${activeBoardId}/inbound-hook`, token)
+      ]);
+      setWebhooks(nextWebhooks);
+      setInboundHook(nextInboundHook);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoadingWebhooks(false);
+    }
+  }
+
+  function closeWebhooksView() {
+    setWebhooksView(false);
+    setCreatedWebhookSecret(null);
+    setInboundHookUrl(null);
+  }
+
+  async function createWebhook(draft: WebhookDraft): Promise<boolean> {
+    if (!activeBoardId) {
+      return false;
+    }
+
+    try {
+      const created = await request<BoardWebhook & { secret: string }>(`/api/boards/${activeBoardId}/webhooks`, token, {
+        method: 'POST',
+        body: JSON.stringify(draft)
+      });
+      const { secret, ...webhook } = created;
+      setWebhooks((current) => [webhook, ...current]);
+      setCreatedWebhookSecret(secret);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  }
+
+  async function setWebhookActive(webhookId: number, active: boolean) {
+    try {
+      const updated = await request<BoardWebhook>(`/api/webhooks/${webhookId}`, token, {
+        method: 'PATCH',
+        body: JSON.stringify({ active })
+      });
+      setWebhooks((current) => current.map((webhook) => (webhook.id === webhookId ? updated : webhook)));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function deleteWebhook(webhookId: number) {
+    try {
+      await request(`/api/webhooks/${webhookId}`, token, { method: 'DELETE' });
+      setWebhooks((current) => current.filter((webhook) => webhook.id !== webhookId));
+      if (selectedWebhookId === webhookId) {
+        setSelectedWebhookId(null);
+        setWebhookDeliveries([]);
+      }
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function loadWebhookDeliveries(webhookId: number) {
+    try {
+      setSelectedWebhookId(webhookId);
+      setWebhookDeliveries(await request<WebhookDelivery[]>(`/api/webhooks/${webhookId}/deliveries`, token));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function redeliverWebhookDelivery(deliveryId: number) {
+    try {
+      const queued = await request<WebhookDelivery>(`/api/webhook-deliveries/${deliveryId}/redeliver`, token, { method: 'POST' });
+      setWebhookDeliveries((current) => [queued, ...current]);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function dismissWebhookSecret() {
+    setCreatedWebhookSecret(null);
+  }
+
+  async function rotateInboundHook() {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      const result = await request<InboundHookStatus & { path: string }>(`/api/boards/${activeBoardId}/inbound-hook`, token, {
+        method: 'POST'
+      });
+      setInboundHook({ enabled: true, created_at: result.created_at });
+      setInboundHookUrl(apiUrl(result.path));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function disableInboundHook() {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}/inbound-hook`, token, { method: 'DELETE' });
+      setInboundHook({ enabled: false });
+      setInboundHookUrl(null);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function dismissInboundHookUrl() {
+    setInboundHookUrl(null);
+  }
+
+  async function revokeSession(sessionId: number) {
+    try {
+      await request(`/api/auth/sessions/${sessionId}`, token, { method: 'DELETE' });
+      setSessions((current) => current.filter((session) => session.id !== sessionId));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function revokeOtherSessions() {
+    try {
+      await request<{ revoked: number }>('/api/auth/sessions', token, { method: 'DELETE' });
+      setSessions((current) => current.filter((session) => session.current));
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function createBoard() {
+    if (!boardName.trim()) {
+      return;
+    }
+
+    try {
+      setCreatingBoard(true);
+      const trimmedName = boardName.trim();
+      const created = await request<{ id: number; name: string; created_at: string; archived_at: string | null }>('/api/boards', token, {
+        method: 'POST',
+        body: JSON.stringify({ name: trimmedName })
+      });
+
+      setBoardName('');
+      setBoards((prev) => [
+        { id: created.id, name: created.name, created_at: created.created_at, archived_at: created.archived_at, role: 'owner' },
+        ...prev.filter((board) => board.id !== created.id)
+      ]);
+      setActiveBoardId(created.id);
+      void selectBoard(created.id);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setCreatingBoard(false);
+    }
+  }
+
+  async function importBoard(file: File) {
+    let document: unknown;
+    try {
+      document = JSON.parse(await file.text());
+    } catch (_error) {
+      setError('The selected file is not a board export');
+      return;
+    }
+
+    try {
+      setCreatingBoard(true);
+      const imported = await request<{ id: number; name: string; invitedMembers: number }>('/api/boards/import', token, {
+        method: 'POST',
+        body: JSON.stringify(document)
+      });
+
+      setBoards((prev) => [
+        { id: imported.id, name: imported.name, created_at: new Date().toISOString(), archived_at: null, role: 'owner' },
+        ...prev.filter((board) => board.id !== imported.id)
+      ]);
+      setAdminView(false);
+      setSessionsView(false);
+      setTokensView(false);
+      setActiveBoardId(imported.id);
+      await selectBoard(imported.id);
+      setNotice(
+        imported.invitedMembers > 0
+          ? `Imported "${imported.name}". Share the new invite links with the other people from the export.`
+          : `Imported "${imported.name}".`
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setCreatingBoard(false);
+    }
+  }
+
+  async function exportBoard(format: 'json' | 'csv') {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      const { blob, fileName } = await requestBlob(`/api/boards/${activeBoardId}/export?format=${format}`, token);
+      const url = URL.createObjectURL(blob);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = fileName ?? `board-${activeBoardId}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function updateBoard(changes: { name?: string; archived?: boolean }) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}`, token, {
+        method: 'PATCH',
+        body: JSON.stringify(changes)
+      });
+      await loadBoards(false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function renameBoard(nextNameRaw: string) {
+    const nextName = nextNameRaw.trim();
+    if (!nextName) {
+      return;
+    }
+
+    await updateBoard({ name: nextName });
+  }
+
+  async function setBoardArchived(archived: boolean) {
+    await updateBoard({ archived });
+  }
+
+  async function deleteBoard() {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}`, token, { method: 'DELETE' });
+      setSelectedCardId(null);
+      await loadBoards(false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function addMember() {
+    if (!activeBoardId || !memberEmail.trim()) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}/members`, token, {
+        method: 'POST',
+        body: JSON.stringify({ email: memberEmail.trim(), role: memberRole })
+      });
+
+      setMemberEmail('');
+      await loadMembers(activeBoardId);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function createInvitation(options: { role: 'member' | 'viewer'; expiresInHours: number | null; maxUses: number | null }) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}/invitations`, token, {
+        method: 'POST',
+        body: JSON.stringify(options)
+      });
+      await loadInvitations(activeBoardId);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function revokeInvitation(invitationId: number) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/invitations/${invitationId}`, token, { method: 'DELETE' });
+      await loadInvitations(activeBoardId);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function updateMemberRole(memberId: number, role: BoardMember['role']) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}/members/${memberId}`, token, {
+        method: 'PATCH',
+        body: JSON.stringify({ role })
+      });
+      await loadBoard(activeBoardId, false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function removeMember(memberId: number) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}/members/${memberId}`, token, { method: 'DELETE' });
+      await loadMembers(activeBoardId);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function leaveBoard() {
+    if (!activeBoardId || !user) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}/members/${user.id}`, token, { method: 'DELETE' });
+      setSelectedCardId(null);
+      await loadBoards(false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function transferOwnership(memberId: number, leave: boolean) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}/transfer-ownership`, token, {
+        method: 'POST',
+        body: JSON.stringify({ userId: memberId, leave })
+      });
+      if (leave) {
+        setSelectedCardId(null);
+      }
+      await loadBoards(false);
     } catch (err) {
       setError((err as Error).message);
     }
@@ -498,9 +1688,111 @@ export function useKanbanApp() {
     try {
       await request(`/api/columns/${columnId}`, token, {
         method: 'PATCH',
-        body: JSON.stringify({ title: nextTitle })
+        body: JSON.stringify({ title: nextTitle, version: getColumnVersion(columnId) })
       });
       await loadBoard(activeBoardId, false);
+    } catch (err) {
+      setError((err as Error).message);
+      if ((err as Error & { status?: number }).status === 409) {
+        await loadBoard(activeBoardId, false);
+      }
+    }
+  }
+
+  function getColumnVersion(columnId: number) {
+    return activeBoard?.columns.find((column) => column.id === columnId)?.version;
+  }
+
+  async function updateColumnWipLimit(columnId: number, wipLimit: number | null, wipMode: Column['wip_mode']) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/columns/${columnId}`, token, {
+        method: 'PATCH',
+        body: JSON.stringify({ wipLimit, wipMode, version: getColumnVersion(columnId) })
+      });
+      await loadBoard(activeBoardId, false);
+    } catch (err) {
+      setError((err as Error).message);
+      if ((err as Error & { status?: number }).status === 409) {
+        await loadBoard(activeBoardId, false);
+      }
+    }
+  }
+
+  async function updateSwimlaneGroup(group: SwimlaneGroup) {
+    if (!activeBoardId || !activeBoard) {
+      return;
+    }
+
+    setActiveBoard({ ...activeBoard, swimlane_group: group });
+    try {
+      await request(`/api/boards/${activeBoardId}/preferences`, token, {
+        method: 'PUT',
+        body: JSON.stringify({ swimlaneGroup: group })
+      });
+    } catch (err) {
+      setError((err as Error).message);
+      await loadBoard(activeBoardId, false);
+    }
+  }
+
+  async function deleteColumn(columnId: number, targetColumnId: number | null) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/columns/${columnId}`, token, {
+        method: 'DELETE',
+        body: JSON.stringify(targetColumnId === null ? { mode: 'archive' } : { mode: 'move', targetColumnId })
+      });
+      await loadBoard(activeBoardId, false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function createLabel(name: string, color: string) {
+    if (!activeBoardId || !name.trim()) {
+      return;
+    }
+
+    try {
+      await request(`/api/boards/${activeBoardId}/labels`, token, {
+        method: 'POST',
+        body: JSON.stringify({ name: name.trim(), color })
+      });
+      await loadBoard(activeBoardId, false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function deleteLabel(labelId: number) {
+    if (!activeBoardId) {
+      return;
+    }
+
+    try {
+      await request(`/api/labels/${labelId}`, token, { method: 'DELETE' });
+      await loadBoard(activeBoardId, false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function toggleCardLabel(labelId: number) {
+    if (!selectedCard || !activeBoardId) {
+      return;
+    }
+
+    const hasLabel = selectedCard.labels.some((label) => label.id === labelId);
+    try {
+      await request(`/api/cards/${selectedCard.id}/labels/${labelId}`, token, { method: hasLabel ? 'DELETE' : 'PUT' });
+      await Promise.all([loadBoard(activeBoardId, false), loadCardActivities(selectedCard.id)]);
     } catch (err) {
       setError((err as Error).message);
     }
@@ -513,10 +1805,11 @@ export function useKanbanApp() {
     }
 
     try {
-      await request(`/api/columns/${newCardColumnId}/cards`, token, {
+      const created = await request<Card & { wipWarning?: string }>(`/api/columns/${newCardColumnId}/cards`, token, {
         method: 'POST',
         body: JSON.stringify({ title })
       });
+      setNotice(created.wipWarning ?? null);
       setNewCardTitle('');
       await loadBoard(activeBoardId, false);
     } catch (err) {
@@ -579,6 +1872,7 @@ export function useKanbanApp() {
       if (column.id === sourceColumn.id) {
         return {
           ...column,
+          card_count: column.card_count - 1,
           cards: sourceCards.map((card, index) => ({ ...card, position: (index + 1) * 1000 }))
         };
       }
@@ -586,6 +1880,7 @@ export function useKanbanApp() {
       if (column.id === targetColumn.id) {
         return {
           ...column,
+          card_count: column.card_count + 1,
           cards: nextTargetCards.map((card, index) => ({ ...card, position: (index + 1) * 1000 }))
         };
       }
@@ -599,10 +1894,11 @@ export function useKanbanApp() {
     });
 
     try {
-      await request(`/api/cards/${cardId}/move`, token, {
+      const moved = await request<Card & { wipWarning?: string }>(`/api/cards/${cardId}/move`, token, {
         method: 'POST',
         body: JSON.stringify({ toColumnId, toPosition })
       });
+      setNotice(moved.wipWarning ?? null);
       if (selectedCardId === cardId) {
         void loadCardActivities(cardId);
       }
@@ -612,35 +1908,126 @@ export function useKanbanApp() {
     }
   }
 
+  async function moveCardToLane(cardId: number, fromLaneKey: string, toLaneKey: string) {
+    if (!activeBoardId || !activeBoard || fromLaneKey === toLaneKey) {
+      return;
+    }
+
+    const card = activeBoard.columns.flatMap((column) => column.cards).find((item) => item.id === cardId);
+    if (!card) {
+      return;
+    }
+
+    try {
+      if (activeBoard.swimlane_group === 'assignee') {
+        const assigneeIds = card.assignees.map((assignee) => assignee.id).filter((id) => String(id) !== fromLaneKey);
+        await request(`/api/cards/${cardId}`, token, {
+          method: 'PATCH',
+          body: JSON.stringify({ assigneeIds: toLaneKey === NO_LANE_KEY ? [] : [...assigneeIds, Number(toLaneKey)] })
+        });
+      } else if (activeBoard.swimlane_group === 'label') {
+        const labelIds = toLaneKey === NO_LANE_KEY ? card.labels.map((label) => label.id) : [Number(fromLaneKey)];
+        for (const labelId of labelIds.filter((id) => !Number.isNaN(id))) {
+          await request(`/api/cards/${cardId}/labels/${labelId}`, token, { method: 'DELETE' });
+        }
+        if (toLaneKey !== NO_LANE_KEY) {
+          await request(`/api/cards/${cardId}/labels/${toLaneKey}`, token, { method: 'PUT' });
+        }
+      }
+      await loadBoard(activeBoardId, false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function resetCardForm(card: Card) {
+    applyCardDraft(toCardDraft(card));
+    setCardEditBase(card);
+  }
+
+  function applyCardDraft(draft: CardDraft) {
+    setCardTitle(draft.title);
+    setCardDescription(draft.description);
+    setCardAssigneeIds(draft.assigneeIds);
+    setCardDueDate(draft.dueDate);
+  }
+
+  function getCardFormDraft(): CardDraft {
+    return { title: cardTitle, description: cardDescription, assigneeIds: cardAssigneeIds, dueDate: cardDueDate };
+  }
+
   async function saveCardDetails() {
-    if (!selectedCard || !activeBoardId || !canWrite) {
+    if (!selectedCard || !cardEditBase || !canWrite) {
+      return;
+    }
+
+    await saveCardDraft(cardEditBase, getCardFormDraft());
+  }
+
+  async function saveCardDraft(base: Card, draft: CardDraft) {
+    if (!activeBoardId) {
       return;
     }
 
     try {
       setSavingCard(true);
-      await request(`/api/cards/${selectedCard.id}`, token, {
+      await request(`/api/cards/${base.id}`, token, {
         method: 'PATCH',
         body: JSON.stringify({
-          title: cardTitle.trim(),
-          description: cardDescription,
-          assignee: cardAssignee.trim() || null,
-          dueDate: cardDueDate ? toDateInputValue(cardDueDate) : null
+          title: draft.title.trim(),
+          description: draft.description,
+          assigneeIds: draft.assigneeIds,
+          dueDate: draft.dueDate ? toDateInputValue(draft.dueDate) : null,
+          version: base.version
         })
       });
 
       await loadBoard(activeBoardId, false);
-      if (selectedCard) {
-        await loadCardActivities(selectedCard.id);
-      }
+      await loadCardActivities(base.id);
+      setCardConflict(null);
       setSelectedCardId(null);
     } catch (err) {
-      setError((err as Error).message);
+      const { status, data } = err as Error & { status?: number; data?: { card?: Card | null } };
+      const theirs = data?.card;
+      if (status !== 409 || !theirs) {
+        setError((err as Error).message);
+        return;
+      }
+
+      const { merged, conflicts } = mergeCardDrafts(toCardDraft(base), draft, toCardDraft(theirs));
+      setCardEditBase(theirs);
+      applyCardDraft(merged);
+      if (conflicts.length === 0) {
+        // The edits touched different fields, so the merge can be saved on top of the newer version right away.
+        await saveCardDraft(theirs, merged);
+        return;
+      }
+      setCardConflict({ theirs, mine: draft, merged, fields: conflicts });
     } finally {
       setSavingCard(false);
     }
   }
 
+  function dismissCardConflict() {
+    setCardConflict(null);
+  }
+
+  async function resolveCardConflict(choices: Partial<Record<keyof CardDraft, 'mine' | 'theirs'>>) {
+    if (!cardConflict) {
+      return;
+    }
+
+    const theirs = toCardDraft(cardConflict.theirs);
+    const resolved = { ...cardConflict.merged };
+    for (const field of cardConflict.fields) {
+      Object.assign(resolved, { [field]: choices[field] === 'theirs' ? theirs[field] : cardConflict.mine[field] });
+    }
+
+    setCardConflict(null);
+    applyCardDraft(resolved);
+    await saveCardDraft(cardConflict.theirs, resolved);
+  }
+
   async function addComment() {
     if (!selectedCard || !newCommentBody.trim()) {
       return;
@@ -672,6 +2059,127 @@ export function useKanbanApp() {
     }
   }
 
+  async function refreshChecklists(cardId: number) {
+    await Promise.all([
+      loadChecklists(cardId),
+      loadCardActivities(cardId),
+      activeBoardId ? loadBoard(activeBoardId, false) : Promise.resolve()
+    ]);
+  }
+
+  async function createChecklist(title: string) {
+    if (!selectedCard || !title.trim()) {
+      return;
+    }
+
+    try {
+      await request(`/api/cards/${selectedCard.id}/checklists`, token, {
+        method: 'POST',
+        body: JSON.stringify({ title: title.trim() })
+      });
+      await refreshChecklists(selectedCard.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function deleteChecklist(checklistId: number) {
+    if (!selectedCard) {
+      return;
+    }
+
+    try {
+      await request(`/api/cards/${selectedCard.id}/checklists/${checklistId}`, token, { method: 'DELETE' });
+      await refreshChecklists(selectedCard.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function addChecklistItem(checklistId: number, body: string) {
+    if (!selectedCard || !body.trim()) {
+      return;
+    }
+
+    try {
+      await request(`/api/cards/${selectedCard.id}/checklists/${checklistId}/items`, token, {
+        method: 'POST',
+        body: JSON.stringify({ body: body.trim() })
+      });
+      await refreshChecklists(selectedCard.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function updateChecklistItem(
+    checklistId: number,
+    itemId: number,
+    changes: { body?: string; checked?: boolean; assigneeUserId?: number | null }
+  ) {
+    if (!selectedCard) {
+      return;
+    }
+
+    try {
+      await request(`/api/cards/${selectedCard.id}/checklists/${checklistId}/items/${itemId}`, token, {
+        method: 'PATCH',
+        body: JSON.stringify(changes)
+      });
+      await refreshChecklists(selectedCard.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function deleteChecklistItem(checklistId: number, itemId: number) {
+    if (!selectedCard) {
+      return;
+    }
+
+    try {
+      await request(`/api/cards/${selectedCard.id}/checklists/${checklistId}/items/${itemId}`, token, { method: 'DELETE' });
+      await refreshChecklists(selectedCard.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function moveChecklistItem(checklistId: number, itemId: number, toPosition: number) {
+    if (!selectedCard) {
+      return;
+    }
+
+    const cardId = selectedCard.id;
+    setChecklists((prev) =>
+      prev.map((checklist) => {
+        if (checklist.id !== checklistId) {
+          return checklist;
+        }
+
+        const moving = checklist.items.find((item) => item.id === itemId);
+        if (!moving) {
+          return checklist;
+        }
+
+        const items = checklist.items.filter((item) => item.id !== itemId);
+        items.splice(Math.min(toPosition, items.length), 0, moving);
+        return { ...checklist, items };
+      })
+    );
+
+    try {
+      const nextChecklists = await request<Checklist[]>(`/api/cards/${cardId}/checklists/${checklistId}/items/${itemId}/move`, token, {
+        method: 'POST',
+        body: JSON.stringify({ toPosition })
+      });
+      setChecklists(nextChecklists);
+    } catch (err) {
+      setError((err as Error).message);
+      await loadChecklists(cardId);
+    }
+  }
+
   return {
     token,
     user,
@@ -679,13 +2187,19 @@ export function useKanbanApp() {
     authName,
     authEmail,
     authPassword,
+    authCode,
     authInitializing,
+    invitePreview,
     error,
+    notice,
     setAuthMode,
     setAuthName,
     setAuthEmail,
     setAuthPassword,
+    setAuthCode,
     submitAuth,
+    ssoProviderName,
+    startSso,
 
     boards,
     boardName,
@@ -693,14 +2207,22 @@ export function useKanbanApp() {
     activeBoard,
     members,
     onlineUserIds,
+    cardPresence,
+    setEditingField,
+    cardDrags,
+    startCardDrag,
+    dragCardOver,
+    endCardDrag,
     memberEmail,
     memberRole,
+    invitations,
     cardActivities,
     loadingBoards,
     creatingBoard,
     adminView,
     adminUsers,
     loadingAdminUsers,
+    unlockUser,
     loadingBoard,
     canWrite,
     sortedColumns,
@@ -718,30 +2240,111 @@ export function useKanbanApp() {
     logout,
     openAdminView,
     closeAdminView,
+    sessionsView,
+    sessions,
+    loadingSessions,
+    twoFactorStatus,
+    twoFactorSetup,
+    recoveryCodes,
+    startTwoFactorSetup,
+    cancelTwoFactorSetup,
+    enableTwoFactor,
+    regenerateRecoveryCodes,
+    dismissRecoveryCodes,
+    disableTwoFactor,
+    openSessionsView,
+    closeSessionsView,
+    tokensView,
+    apiTokens,
+    loadingApiTokens,
+    createdApiToken,
+    openTokensView,
+    closeTokensView,
+    createApiToken,
+    revokeApiToken,
+    dismissCreatedApiToken,
+    webhooksView,
+    webhooks,
+    loadingWebhooks,
+    createdWebhookSecret,
+    selectedWebhookId,
+    webhookDeliveries,
+    openWebhooksView,
+    closeWebhooksView,
+    createWebhook,
+    setWebhookActive,
+    deleteWebhook,
+    loadWebhookDeliveries,
+    redeliverWebhookDelivery,
+    dismissWebhookSecret,
+    inboundHook,
+    inboundHookUrl,
+    rotateInboundHook,
+    disableInboundHook,
+    dismissInboundHookUrl,
+    revokeSession,
+    revokeOtherSessions,
+    changePassword,
     createBoard,
+    importBoard,
+    exportBoard,
+    renameBoard,
+    setBoardArchived,
+    deleteBoard,
     loadBoard,
+    selectBoard,
+    boardFilters,
+    setBoardFilters,
+    clearBoardFilters,
+    searchResults,
+    searching,
+    searchCards,
+    openSearchHit,
     addMember,
+    createInvitation,
+    revokeInvitation,
+    updateMemberRole,
+    removeMember,
+    leaveBoard,
+    transferOwnership,
     createColumn,
     renameColumn,
+    updateColumnWipLimit,
+    updateSwimlaneGroup,
+    deleteColumn,
+    createLabel,
+    deleteLabel,
     createCard,
     moveCard,
+    moveCardToLane,
     deleteCard,
 
     selectedCard,
     setSelectedCardId,
     cardTitle,
     cardDescription,
-    cardAssignee,
+    cardAssigneeIds,
     cardDueDate,
     comments,
+    checklists,
     newCommentBody,
     savingCard,
+    cardConflict,
+    resolveCardConflict,
+    dismissCardConflict,
     setCardTitle,
     setCardDescription,
-    setCardAssignee,
+    setCardAssigneeIds,
     setCardDueDate,
     setNewCommentBody,
     saveCardDetails,
+    toggleCardLabel,
+    createChecklist,
+    deleteChecklist,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    moveChecklistItem,
     addComment,
     deleteComment
   };
@@ -1,6 +1,20 @@
 const API_URL = import.meta.env.VITE_API_URL ?? 'http://localhost:4000';
 
-export async function request<T>(path: string, token: string | null, init?: RequestInit): Promise<T> {
+type TokenRefresher = (expiredToken: string) => Promise<string | null>;
+
+let tokenRefresher: TokenRefresher | null = null;
+
+// Authenticated requests that fail with 401 are retried once with a token from the refresher.
+export function setTokenRefresher(refresher: TokenRefresher | null) {
+  tokenRefresher = refresher;
+}
+
+// For full-page navigations to the API, such as starting single sign-on.
+export function apiUrl(path: string): string {
+  return `${API_URL}${path}`;
+}
+
+export async function request<T>(path: string, token: string | null, init?: RequestInit, retried = false): Promise<T> {
   const headers = new Headers(init?.headers);
   headers.set('Content-Type', 'application/json');
 
@@ -13,10 +27,18 @@ export async function request<T>(path: string, token: string | null, init?: Requ
     headers
   });
 
+  if (response.status === 401 && token && tokenRefresher && !retried) {
+    const nextToken = await tokenRefresher(token);
+    if (nextToken) {
+      return request<T>(path, nextToken, init, true);
+    }
+  }
+
   if (!response.ok) {
     const body = await response.json().catch(() => ({}));
-    const error = new Error(body.message ?? `Request failed: ${response.status}`) as Error & { status?: number };
+    const error = new Error(body.message ?? `Request failed: ${response.status}`) as Error & { status?: number; data?: unknown };
     error.status = response.status;
+    error.data = body;
     throw error;
   }
 
@@ -27,6 +49,43 @@ export async function request<T>(path: string, token: string | null, init?: Requ
   return response.json() as Promise<T>;
 }
 
+// For file downloads: returns the raw response body instead of parsing JSON.
+export async function requestBlob(path: string, token: string | null, retried = false): Promise<{ blob: Blob; fileName: string | null }> {
+  const headers = new Headers();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(`${API_URL}${path}`, { headers });
+
+  if (response.status === 401 && token && tokenRefresher && !retried) {
+    const nextToken = await tokenRefresher(token);
+    if (nextToken) {
+      return requestBlob(path, nextToken, true);
+    }
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message ?? `Request failed: ${response.status}`);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? null;
+  return { blob: await response.blob(), fileName };
+}
+
+export function getInitials(name: string): string {
+  return (
+    name
+      .split(' ')
+      .filter(Boolean)
+      .slice(0, 2)
+      .map((part) => part[0]?.toUpperCase())
+      .join('') || 'U'
+  );
+}
+
 export function formatDateTime(value: string | null): string {
   if (!value) {
     return '-';
@@ -47,3 +106,28 @@ export function toDateInputValue(value: string | null): string {
 
   return value.slice(0, 10);
 }
+
+export function toLocalDateValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Compares calendar dates in the browser's time zone; board filters send the same local date as `today`.
+export function getDueBadge(dueDate: string | null) {
+  if (!dueDate) {
+    return null;
+  }
+  const [year, month, day] = toDateInputValue(dueDate).split('-').map(Number);
+  const due = new Date(year, month - 1, day);
+  const current = new Date();
+  const msPerDay = 24 * 60 * 60 * 1000;
+  const days = Math.round((due.getTime() - current.setHours(0, 0, 0, 0)) / msPerDay);
+  if (days < 0) {
+    return { label: 'Overdue', tone: 'danger' as const };
+  }
+  if (days <= 2) {
+    return { label: 'Due Soon', tone: 'warn' as const };
+  }
+  return { label: 'Planned', tone: 'ok' as const };
+}
@@ -0,0 +1,95 @@
+import type { BoardDetail, BoardEvent, CardComment, CardEventPayload, Column, ColumnDeletedPayload, ColumnPositions } from '../types';
+
+const CARD_EVENTS = ['card_created', 'card_updated', 'card_moved', 'card_deleted', 'checklist_changed'];
+const COLUMN_EVENTS = ['column_created', 'column_updated'];
+const COLUMN_DELETED_EVENT = 'column_deleted';
+const COMMENT_EVENTS = ['comment_created', 'comment_deleted'];
+
+// Events without a payload (members, labels, ...) are handled by refetching the board.
+export function isPatchableBoardEvent(event: BoardEvent): boolean {
+  return event.payload !== null && [...CARD_EVENTS, ...COLUMN_EVENTS, COLUMN_DELETED_EVENT, ...COMMENT_EVENTS].includes(event.event);
+}
+
+export function getBoardEventCardId(event: BoardEvent): number | null {
+  if (!event.payload) {
+    return null;
+  }
+  if (event.event === 'comment_created') {
+    return (event.payload.comment as CardComment).card_id;
+  }
+  return typeof event.payload.cardId === 'number' ? event.payload.cardId : null;
+}
+
+export function applyBoardEvent(board: BoardDetail, event: BoardEvent): BoardDetail {
+  if (!event.payload) {
+    return board;
+  }
+
+  if (CARD_EVENTS.includes(event.event)) {
+    return applyCardEvent(board, event.payload as CardEventPayload);
+  }
+
+  if (COLUMN_EVENTS.includes(event.event)) {
+    const column = event.payload.column as Column;
+    const exists = board.columns.some((item) => item.id === column.id);
+    return {
+      ...board,
+      columns: exists
+        ? board.columns.map((item) => (item.id === column.id ? { ...item, ...column, card_count: item.card_count, cards: item.cards } : item))
+        : [...board.columns, { ...column, card_count: 0, cards: [] }]
+    };
+  }
+
+  if (event.event === COLUMN_DELETED_EVENT) {
+    return applyColumnDeleted(board, event.payload as ColumnDeletedPayload);
+  }
+
+  // Comments live outside the board state.
+  return board;
+}
+
+// Cards of the deleted column either join the target column or were archived, which hides them from the board.
+function applyColumnDeleted(board: BoardDetail, payload: ColumnDeletedPayload): BoardDetail {
+  const deleted = board.columns.find((column) => column.id === payload.columnId);
+  const remaining = board.columns.filter((column) => column.id !== payload.columnId);
+  const target = payload.targetColumn;
+  if (!target) {
+    return { ...board, columns: remaining };
+  }
+
+  const movedCards = (deleted?.cards ?? []).map((card) => ({ ...card, column_id: target.id }));
+  return {
+    ...board,
+    columns: remaining.map((column) =>
+      column.id === target.id ? applyColumnPositions({ ...column, cards: [...column.cards, ...movedCards] }, target) : column
+    )
+  };
+}
+
+function applyCardEvent(board: BoardDetail, payload: CardEventPayload): BoardDetail {
+  const columnUpdates = new Map(payload.columns.map((column) => [column.id, column]));
+
+  return {
+    ...board,
+    columns: board.columns.map((column) => {
+      const cards = column.cards.filter((card) => card.id !== payload.cardId);
+      if (payload.card && payload.card.column_id === column.id) {
+        cards.push(payload.card);
+      }
+
+      const update = columnUpdates.get(column.id);
+      return update ? applyColumnPositions({ ...column, cards }, update) : { ...column, cards };
+    })
+  };
+}
+
+function applyColumnPositions(column: Column, update: ColumnPositions): Column {
+  const positions = new Map(update.positions.map((item) => [item.id, item.position]));
+  return {
+    ...column,
+    card_count: update.card_count,
+    cards: column.cards
+      .map((card) => ({ ...card, position: positions.get(card.id) ?? card.position }))
+      .sort((a, b) => a.position - b.position)
+  };
+}
@@ -0,0 +1,94 @@
+import { getDueBadge } from './api';
+import type { BoardFilters, Card } from '../types';
+
+export const EMPTY_BOARD_FILTERS: BoardFilters = { q: '', assignee: '', labelIds: [], due: '', createdBy: null };
+
+const FILTER_PARAMS = ['q', 'assignee', 'labels', 'due', 'createdBy'];
+
+function toPositiveInt(value: string | null): number | null {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function hasBoardFilters(filters: BoardFilters): boolean {
+  return Boolean(filters.q.trim() || filters.assignee !== '' || filters.labelIds.length > 0 || filters.due || filters.createdBy !== null);
+}
+
+// The same parameter names are used in the page URL and by GET /api/boards/:boardId.
+export function toBoardFilterParams(filters: BoardFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) {
+    params.set('q', filters.q.trim());
+  }
+  if (filters.assignee !== '') {
+    params.set('assignee', String(filters.assignee));
+  }
+  if (filters.labelIds.length > 0) {
+    params.set('labels', filters.labelIds.join(','));
+  }
+  if (filters.due) {
+    params.set('due', filters.due);
+  }
+  if (filters.createdBy !== null) {
+    params.set('createdBy', String(filters.createdBy));
+  }
+  return params;
+}
+
+export function readBoardFiltersFromUrl(): BoardFilters {
+  const params = new URLSearchParams(window.location.search);
+  const assignee = params.get('assignee');
+  const due = params.get('due');
+
+  return {
+    q: params.get('q') ?? '',
+    assignee: assignee === 'none' ? 'none' : toPositiveInt(assignee) ?? '',
+    labelIds: (params.get('labels') ?? '')
+      .split(',')
+      .map((value) => toPositiveInt(value))
+      .filter((value): value is number => value !== null),
+    due: due === 'overdue' || due === 'soon' || due === 'none' ? due : '',
+    createdBy: toPositiveInt(params.get('createdBy'))
+  };
+}
+
+export function writeBoardFiltersToUrl(filters: BoardFilters) {
+  const url = new URL(window.location.href);
+  for (const name of FILTER_PARAMS) {
+    url.searchParams.delete(name);
+  }
+  toBoardFilterParams(filters).forEach((value, name) => url.searchParams.set(name, value));
+  window.history.replaceState(null, '', url.toString());
+}
+
+// Mirrors the server-side filter so optimistic updates are filtered before the next board reload.
+export function matchesBoardFilters(card: Card, filters: BoardFilters): boolean {
+  const text = filters.q.trim().toLowerCase();
+  if (text && !`${card.title} ${card.description}`.toLowerCase().includes(text)) {
+    return false;
+  }
+
+  if (filters.assignee === 'none' && card.assignees.length > 0) {
+    return false;
+  }
+  if (typeof filters.assignee === 'number' && !card.assignees.some((assignee) => assignee.id === filters.assignee)) {
+    return false;
+  }
+
+  if (!filters.labelIds.every((labelId) => card.labels.some((label) => label.id === labelId))) {
+    return false;
+  }
+
+  const dueBadge = getDueBadge(card.due_date);
+  if (filters.due === 'overdue' && dueBadge?.tone !== 'danger') {
+    return false;
+  }
+  if (filters.due === 'soon' && dueBadge?.tone !== 'warn') {
+    return false;
+  }
+  if (filters.due === 'none' && card.due_date) {
+    return false;
+  }
+
+  return filters.createdBy === null || card.created_by_user_id === filters.createdBy;
+}
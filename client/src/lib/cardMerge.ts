@@ -0,0 +1,47 @@
+import { toDateInputValue } from './api';
+import type { Card, CardDraft } from '../types';
+
+const DRAFT_FIELDS: Array<keyof CardDraft> = ['title', 'description', 'assigneeIds', 'dueDate'];
+
+export function toCardDraft(card: Card): CardDraft {
+  return {
+    title: card.title,
+    description: card.description ?? '',
+    assigneeIds: card.assignees.map((assignee) => assignee.id).sort((a, b) => a - b),
+    dueDate: toDateInputValue(card.due_date)
+  };
+}
+
+function sameValue(field: keyof CardDraft, a: CardDraft, b: CardDraft): boolean {
+  if (field === 'assigneeIds') {
+    return [...a.assigneeIds].sort((x, y) => x - y).join(',') === [...b.assigneeIds].sort((x, y) => x - y).join(',');
+  }
+  if (field === 'title') {
+    return a.title.trim() === b.title.trim();
+  }
+  return a[field] === b[field];
+}
+
+export function isCardDraftChanged(base: CardDraft, draft: CardDraft): boolean {
+  return DRAFT_FIELDS.some((field) => !sameValue(field, base, draft));
+}
+
+// Three-way merge: a field changed on only one side takes that side; fields both sides changed differently conflict
+// and keep the local value until the user picks one.
+export function mergeCardDrafts(base: CardDraft, mine: CardDraft, theirs: CardDraft) {
+  const merged: CardDraft = { ...theirs };
+  const conflicts: Array<keyof CardDraft> = [];
+
+  for (const field of DRAFT_FIELDS) {
+    const mineChanged = !sameValue(field, base, mine);
+    const theirsChanged = !sameValue(field, base, theirs);
+    if (mineChanged) {
+      Object.assign(merged, { [field]: mine[field] });
+    }
+    if (mineChanged && theirsChanged && !sameValue(field, mine, theirs)) {
+      conflicts.push(field);
+    }
+  }
+
+  return { merged, conflicts };
+}
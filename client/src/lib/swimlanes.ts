@@ -0,0 +1,35 @@
+import type { BoardDetail, BoardMember, Card, SwimlaneGroup } from '../types';
+
+export type Swimlane = {
+  key: string;
+  title: string;
+  color: string | null;
+};
+
+export const NO_LANE_KEY = 'none';
+
+export function getSwimlanes(group: SwimlaneGroup, board: BoardDetail, members: BoardMember[]): Swimlane[] {
+  if (group === 'assignee') {
+    return [
+      ...[...members]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((member) => ({ key: String(member.id), title: member.name, color: null })),
+      { key: NO_LANE_KEY, title: 'Unassigned', color: null }
+    ];
+  }
+
+  if (group === 'label') {
+    return [
+      ...board.labels.map((label) => ({ key: String(label.id), title: label.name, color: label.color })),
+      { key: NO_LANE_KEY, title: 'No label', color: null }
+    ];
+  }
+
+  return [];
+}
+
+// Cards with several assignees or labels appear in every matching lane.
+export function isCardInLane(card: Card, group: SwimlaneGroup, laneKey: string): boolean {
+  const ids = group === 'assignee' ? card.assignees.map((assignee) => assignee.id) : card.labels.map((label) => label.id);
+  return laneKey === NO_LANE_KEY ? ids.length === 0 : ids.includes(Number(laneKey));
+}
@@ -9,6 +9,7 @@ export type BoardSummary = {
   id: number;
   name: string;
   created_at: string;
+  archived_at: string | null;
   role: 'owner' | 'member' | 'viewer';
 };
 
@@ -19,17 +20,48 @@ export type BoardMember = {
   role: 'owner' | 'member' | 'viewer';
 };
 
+export type Label = {
+  id: number;
+  name: string;
+  color: string;
+};
+
+export type CardAssignee = {
+  id: number;
+  name: string;
+  email: string;
+};
+
 export type Card = {
   id: number;
   board_id: number;
   column_id: number;
   title: string;
   description: string;
-  assignee: string | null;
+  assignees: CardAssignee[];
   due_date: string | null;
   position: number;
+  created_by_user_id: number | null;
+  version: number;
   created_at: string;
   updated_at: string;
+  labels: Label[];
+  checklist_total: number;
+  checklist_done: number;
+};
+
+export type CardDraft = {
+  title: string;
+  description: string;
+  assigneeIds: number[];
+  dueDate: string;
+};
+
+export type CardConflict = {
+  theirs: Card;
+  mine: CardDraft;
+  merged: CardDraft;
+  fields: Array<keyof CardDraft>;
 };
 
 export type Column = {
@@ -37,17 +69,71 @@ export type Column = {
   board_id: number;
   title: string;
   position: number;
+  wip_limit: number | null;
+  wip_mode: 'block' | 'warn';
+  version: number;
+  card_count: number;
   cards: Card[];
 };
 
+export type BoardFilters = {
+  q: string;
+  assignee: '' | 'none' | number;
+  labelIds: number[];
+  due: '' | 'overdue' | 'soon' | 'none';
+  createdBy: number | null;
+};
+
+export type SwimlaneGroup = 'none' | 'assignee' | 'label';
+
 export type BoardDetail = {
   id: number;
   name: string;
   created_at: string;
+  archived_at: string | null;
   role: 'owner' | 'member' | 'viewer';
+  swimlane_group: SwimlaneGroup;
+  version: number;
+  labels: Label[];
   columns: Column[];
 };
 
+export type ChecklistItem = {
+  id: number;
+  checklist_id: number;
+  card_id: number;
+  body: string;
+  checked: boolean;
+  assignee_user_id: number | null;
+  assignee_name: string | null;
+  position: number;
+  created_at: string;
+};
+
+export type Checklist = {
+  id: number;
+  board_id: number;
+  card_id: number;
+  title: string;
+  position: number;
+  created_at: string;
+  items: ChecklistItem[];
+};
+
+export type CardPresenceField = 'title' | 'description' | 'assignees' | 'dueDate' | 'labels' | 'checklist' | 'comment';
+
+export type CardPresence = {
+  cardId: number;
+  userId: number;
+  field: CardPresenceField | null;
+};
+
+export type CardDrag = {
+  cardId: number;
+  userId: number;
+  columnId: number | null;
+};
+
 export type CardComment = {
   id: number;
   board_id: number;
@@ -59,6 +145,27 @@ export type CardComment = {
   author_email: string | null;
 };
 
+export type ColumnPositions = { id: number; card_count: number; positions: Array<{ id: number; position: number }> };
+
+export type CardEventPayload = {
+  cardId: number;
+  card: Card | null;
+  columns: ColumnPositions[];
+};
+
+export type ColumnDeletedPayload = {
+  columnId: number;
+  targetColumn: ColumnPositions | null;
+};
+
+export type BoardEvent = {
+  boardId: number;
+  event: string;
+  version: number;
+  payload: Record<string, unknown> | null;
+  at: string;
+};
+
 export type Activity = {
   id: number;
   board_id: number;
@@ -72,9 +179,128 @@ export type Activity = {
   actor_email: string | null;
 };
 
-export type AuthResponse = {
+export type BoardInvitation = {
+  id: number;
+  board_id: number;
   token: string;
+  role: 'member' | 'viewer';
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  created_at: string;
+  created_by_name: string | null;
+};
+
+export type InvitationPreview = {
+  boardId: number;
+  boardName: string;
+  role: 'member' | 'viewer';
+  expiresAt: string | null;
+};
+
+export type SearchHit = {
+  type: 'card' | 'comment';
+  board_id: number;
+  board_name: string;
+  card_id: number;
+  card_title: string;
+  comment_id: number | null;
+  snippet: Array<{ text: string; match: boolean }>;
+  rank: number;
+};
+
+export type AuthMode = 'login' | 'register' | 'forgot' | 'reset' | 'twoFactor';
+
+export type AuthTokens = {
+  token: string;
+  refreshToken: string;
+};
+
+export type AuthResponse = AuthTokens & {
   user: User;
+  joinedBoardId?: number | null;
+};
+
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  challengeToken: string;
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+};
+
+export type UserSession = {
+  id: number;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+};
+
+export type ApiTokenScope = 'read' | 'write';
+
+export type ApiToken = {
+  id: number;
+  name: string;
+  token_prefix: string;
+  scope: ApiTokenScope;
+  board_ids: number[] | null;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+};
+
+export type ApiTokenDraft = {
+  name: string;
+  scope: ApiTokenScope;
+  boardIds: number[] | null;
+  expiresInDays: number | null;
+};
+
+export type BoardWebhook = {
+  id: number;
+  board_id: number;
+  url: string;
+  events: string[];
+  active: boolean;
+  created_at: string;
+  last_delivery_status: WebhookDeliveryStatus | null;
+  last_delivery_at: string | null;
+};
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export type WebhookDelivery = {
+  id: number;
+  webhook_id: number;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+  next_attempt_at: string;
+  delivered_at: string | null;
+};
+
+export type InboundHookStatus = {
+  enabled: boolean;
+  created_at?: string;
+};
+
+export type WebhookDraft = {
+  url: string;
+  events: string[];
 };
 
 export type AdminUser = {
@@ -83,4 +309,6 @@ export type AdminUser = {
   email: string;
   created_at: string;
   is_admin: boolean;
+  locked_until: string | null;
+  failed_logins_24h: number;
 };
@@ -6,6 +6,141 @@ CREATE TABLE IF NOT EXISTS users (
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- One row per signed-in device. Refresh tokens are stored hashed and rotate on every use.
+CREATE TABLE IF NOT EXISTS sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash TEXT NOT NULL UNIQUE,
+  previous_token_hash TEXT,
+  rotated_at TIMESTAMPTZ,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'sessions' AND column_name = 'rotated_at'
+  ) THEN
+    ALTER TABLE sessions ADD COLUMN rotated_at TIMESTAMPTZ;
+  END IF;
+END $$;
+
+-- Every refresh token a session has rotated away, so presenting any of them again can be recognised as reuse.
+CREATE TABLE IF NOT EXISTS session_refresh_tokens (
+  token_hash TEXT PRIMARY KEY,
+  session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  retired_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ
+);
+
+-- Failed sign-ins counted per account email (known or not, so responses do not reveal which exist) and per client IP.
+CREATE TABLE IF NOT EXISTS login_throttles (
+  scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+  key TEXT NOT NULL,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  last_failure_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  blocked_until TIMESTAMPTZ,
+  locked_at TIMESTAMPTZ,
+  PRIMARY KEY (scope, key)
+);
+
+CREATE TABLE IF NOT EXISTS login_failures (
+  id SERIAL PRIMARY KEY,
+  email TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('unknown_email', 'wrong_password', 'wrong_two_factor', 'throttled')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'login_failures_reason_check' AND pg_get_constraintdef(oid) LIKE '%wrong_two_factor%'
+  ) THEN
+    ALTER TABLE login_failures DROP CONSTRAINT IF EXISTS login_failures_reason_check;
+    ALTER TABLE login_failures ADD CONSTRAINT login_failures_reason_check
+      CHECK (reason IN ('unknown_email', 'wrong_password', 'wrong_two_factor', 'throttled'));
+  END IF;
+END $$;
+
+-- A row without enabled_at is an enrollment that has not been confirmed with a code yet.
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  enabled_at TIMESTAMPTZ,
+  last_used_step BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  UNIQUE (user_id, code_hash)
+);
+
+-- Personal access tokens for scripts. Only a hash is stored; board_ids NULL means every board the owner can access.
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_prefix TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  scope TEXT NOT NULL CHECK (scope IN ('read', 'write')),
+  board_ids INTEGER[],
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Links an account at the configured OIDC provider (issuer + subject) to a local user.
+CREATE TABLE IF NOT EXISTS user_identities (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  issuer TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  email TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_login_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (issuer, subject)
+);
+
+-- PKCE verifier and nonce kept between the redirect to the provider and its callback.
+CREATE TABLE IF NOT EXISTS oidc_login_states (
+  state TEXT PRIMARY KEY,
+  code_verifier TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- One-time codes the web client trades for tokens, so tokens never appear in a redirect URL.
+CREATE TABLE IF NOT EXISTS oidc_login_handoffs (
+  code_hash TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS boards (
   id SERIAL PRIMARY KEY,
   name TEXT NOT NULL,
@@ -24,6 +159,29 @@ BEGIN
   END IF;
 END $$;
 
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'boards' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE boards ADD COLUMN archived_at TIMESTAMPTZ;
+  END IF;
+END $$;
+
+-- Bumped for every realtime board event so clients can detect missed events.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'boards' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE boards ADD COLUMN version BIGINT NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
 CREATE TABLE IF NOT EXISTS board_members (
   board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
   user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -32,6 +190,30 @@ CREATE TABLE IF NOT EXISTS board_members (
   PRIMARY KEY (board_id, user_id)
 );
 
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'board_members' AND column_name = 'swimlane_group'
+  ) THEN
+    ALTER TABLE board_members ADD COLUMN swimlane_group TEXT NOT NULL DEFAULT 'none' CHECK (swimlane_group IN ('none', 'assignee', 'label'));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS board_invitations (
+  id SERIAL PRIMARY KEY,
+  board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL CHECK (role IN ('member', 'viewer')),
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 CREATE TABLE IF NOT EXISTS columns (
   id SERIAL PRIMARY KEY,
   board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
@@ -46,13 +228,130 @@ CREATE TABLE IF NOT EXISTS cards (
   column_id INTEGER NOT NULL REFERENCES columns(id) ON DELETE CASCADE,
   title TEXT NOT NULL,
   description TEXT NOT NULL DEFAULT '',
-  assignee TEXT,
   due_date DATE,
   position INTEGER NOT NULL,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'cards' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE cards ADD COLUMN archived_at TIMESTAMPTZ;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'columns' AND column_name = 'wip_limit'
+  ) THEN
+    ALTER TABLE columns ADD COLUMN wip_limit INTEGER CHECK (wip_limit > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'columns' AND column_name = 'wip_mode'
+  ) THEN
+    ALTER TABLE columns ADD COLUMN wip_mode TEXT NOT NULL DEFAULT 'block' CHECK (wip_mode IN ('block', 'warn'));
+  END IF;
+END $$;
+
+-- Edit versions for optimistic concurrency; only content edits bump them, not moves.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'columns' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE columns ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'cards' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE cards ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  END IF;
+END $$;
+
+-- Archived cards outlive their column, so they keep no column reference.
+ALTER TABLE cards ALTER COLUMN column_id DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS labels (
+  id SERIAL PRIMARY KEY,
+  board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (board_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS card_labels (
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  label_id INTEGER NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (card_id, label_id)
+);
+
+CREATE TABLE IF NOT EXISTS card_assignees (
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (card_id, user_id)
+);
+
+-- Earlier versions stored a single free-text assignee (a member name or email) on the card.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'cards' AND column_name = 'assignee'
+  ) THEN
+    INSERT INTO card_assignees(card_id, user_id)
+    SELECT DISTINCT ON (c.id) c.id, u.id
+    FROM cards c
+    JOIN board_members bm ON bm.board_id = c.board_id
+    JOIN users u ON u.id = bm.user_id
+    WHERE c.assignee IS NOT NULL
+      AND (LOWER(u.name) = LOWER(TRIM(c.assignee)) OR LOWER(u.email) = LOWER(TRIM(c.assignee)))
+    ORDER BY c.id, (LOWER(u.email) = LOWER(TRIM(c.assignee))) DESC, u.id
+    ON CONFLICT DO NOTHING;
+
+    ALTER TABLE cards DROP COLUMN assignee;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS card_checklists (
+  id SERIAL PRIMARY KEY,
+  board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS card_checklist_items (
+  id SERIAL PRIMARY KEY,
+  checklist_id INTEGER NOT NULL REFERENCES card_checklists(id) ON DELETE CASCADE,
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  checked BOOLEAN NOT NULL DEFAULT FALSE,
+  assignee_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 CREATE TABLE IF NOT EXISTS card_comments (
   id SERIAL PRIMARY KEY,
   board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
@@ -74,12 +373,131 @@ CREATE TABLE IF NOT EXISTS activities (
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+CREATE TABLE IF NOT EXISTS board_webhooks (
+  id SERIAL PRIMARY KEY,
+  board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only a hash of the secret in the inbound hook URL is kept; rotating it replaces the row.
+CREATE TABLE IF NOT EXISTS board_inbound_hooks (
+  board_id INTEGER PRIMARY KEY REFERENCES boards(id) ON DELETE CASCADE,
+  secret_hash TEXT NOT NULL,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Durable delivery queue: rows are claimed by whichever API process polls first and retried with backoff.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id BIGSERIAL PRIMARY KEY,
+  webhook_id INTEGER NOT NULL REFERENCES board_webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ
+);
+
+-- Realtime state shared by every API process: presence, drag locks, and oversized socket messages.
+CREATE TABLE IF NOT EXISTS socket_servers (
+  id TEXT PRIMARY KEY,
+  seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS socket_presence (
+  socket_id TEXT NOT NULL,
+  board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  server_id TEXT NOT NULL REFERENCES socket_servers(id) ON DELETE CASCADE,
+  card_id INTEGER,
+  field TEXT,
+  PRIMARY KEY (socket_id, board_id)
+);
+
+CREATE TABLE IF NOT EXISTS card_drag_locks (
+  card_id INTEGER PRIMARY KEY REFERENCES cards(id) ON DELETE CASCADE,
+  board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  socket_id TEXT NOT NULL,
+  column_id INTEGER,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS socket_attachments (
+  id BIGSERIAL PRIMARY KEY,
+  payload TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Backfilled from card creation activities so older cards keep their author.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'cards' AND column_name = 'created_by_user_id'
+  ) THEN
+    ALTER TABLE cards ADD COLUMN created_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+    UPDATE cards
+    SET created_by_user_id = a.actor_user_id
+    FROM activities a
+    WHERE a.entity_type = 'card' AND a.action = 'created' AND a.entity_id = cards.id;
+  END IF;
+END $$;
+
+-- Set by inbound hooks so a retried submission from another system does not create a second card.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_name = 'cards' AND column_name = 'external_id'
+  ) THEN
+    ALTER TABLE cards ADD COLUMN external_id TEXT;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_token ON sessions(previous_token_hash);
+CREATE INDEX IF NOT EXISTS idx_session_refresh_tokens_session ON session_refresh_tokens(session_id);
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_login_failures_email ON login_failures(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_failures_user ON login_failures(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_board_members_user ON board_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_board_invitations_board ON board_invitations(board_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_columns_board_position ON columns(board_id, position);
 CREATE INDEX IF NOT EXISTS idx_cards_column_position ON cards(column_id, position);
 CREATE INDEX IF NOT EXISTS idx_cards_board ON cards(board_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cards_board_external_id ON cards(board_id, external_id) WHERE external_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_card_labels_label ON card_labels(label_id);
+CREATE INDEX IF NOT EXISTS idx_card_assignees_user ON card_assignees(user_id);
+CREATE INDEX IF NOT EXISTS idx_checklists_card_position ON card_checklists(card_id, position);
+CREATE INDEX IF NOT EXISTS idx_checklist_items_checklist_position ON card_checklist_items(checklist_id, position);
+CREATE INDEX IF NOT EXISTS idx_checklist_items_card ON card_checklist_items(card_id);
 CREATE INDEX IF NOT EXISTS idx_comments_card_created_at ON card_comments(card_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cards_search ON cards USING GIN (to_tsvector('english', title || ' ' || description));
+CREATE INDEX IF NOT EXISTS idx_comments_search ON card_comments USING GIN (to_tsvector('english', body));
 CREATE INDEX IF NOT EXISTS idx_activities_board_created_at ON activities(board_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_board_webhooks_board ON board_webhooks(board_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+DROP INDEX IF EXISTS idx_webhook_deliveries_webhook;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_recent ON webhook_deliveries(webhook_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_finished ON webhook_deliveries(created_at) WHERE status <> 'pending';
+CREATE INDEX IF NOT EXISTS idx_socket_presence_board ON socket_presence(board_id);
+CREATE INDEX IF NOT EXISTS idx_card_drag_locks_board ON card_drag_locks(board_id);
 
 CREATE OR REPLACE FUNCTION set_updated_at()
 RETURNS TRIGGER AS $$
@@ -1,17 +1,46 @@
+import type { Pool, PoolClient } from 'pg';
 import { pool } from './db.js';
 
-export async function logActivity(params: {
-  boardId: number;
-  actorUserId: number;
-  entityType: string;
-  entityId: number | null;
-  action: string;
-  message: string;
-  metadata?: Record<string, unknown>;
-}) {
-  await pool.query(
-    `INSERT INTO activities(board_id, actor_user_id, entity_type, entity_id, action, message, metadata)
-     VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)`,
+// Also queues a webhook delivery for every active board webhook whose event filter matches `entity.action`.
+// Pass the transaction's client to record the activity together with the change.
+export async function logActivity(
+  params: {
+    boardId: number;
+    actorUserId: number | null;
+    entityType: string;
+    entityId: number | null;
+    action: string;
+    message: string;
+    metadata?: Record<string, unknown>;
+  },
+  db: Pool | PoolClient = pool
+) {
+  await db.query(
+    `WITH activity AS (
+       INSERT INTO activities(board_id, actor_user_id, entity_type, entity_id, action, message, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
+       RETURNING id, board_id, actor_user_id, entity_type, entity_id, action, message, metadata, created_at,
+                 entity_type || '.' || action AS event
+     )
+     INSERT INTO webhook_deliveries (webhook_id, event, payload)
+     SELECT w.id,
+            a.event,
+            jsonb_build_object(
+              'id', a.id,
+              'event', a.event,
+              'boardId', a.board_id,
+              'actor', CASE WHEN u.id IS NULL THEN NULL ELSE jsonb_build_object('id', u.id, 'name', u.name) END,
+              'entityType', a.entity_type,
+              'entityId', a.entity_id,
+              'action', a.action,
+              'message', a.message,
+              'metadata', a.metadata,
+              'createdAt', a.created_at
+            )
+     FROM activity a
+     JOIN board_webhooks w ON w.board_id = a.board_id AND w.active
+     LEFT JOIN users u ON u.id = a.actor_user_id
+     WHERE cardinality(w.events) = 0 OR a.event = ANY(w.events) OR a.entity_type || '.*' = ANY(w.events)`,
     [
       params.boardId,
       params.actorUserId,
@@ -0,0 +1,86 @@
+import crypto from 'node:crypto';
+import { pool } from './db.js';
+import type { ApiTokenGrant, ApiTokenScope, AuthUser } from './types.js';
+
+// The prefix lets requireAuth tell personal tokens from JWTs, and makes leaked tokens easy to spot in logs.
+export const API_TOKEN_PREFIX = 'kbn_pat_';
+
+export type ApiTokenRecord = {
+  id: number;
+  name: string;
+  token_prefix: string;
+  scope: ApiTokenScope;
+  board_ids: number[] | null;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+};
+
+function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+export async function createApiToken(
+  userId: number,
+  options: { name: string; scope: ApiTokenScope; boardIds: number[] | null; expiresInDays: number | null }
+): Promise<{ token: string; record: ApiTokenRecord }> {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const result = await pool.query(
+    `INSERT INTO api_tokens (user_id, name, token_prefix, token_hash, scope, board_ids, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $7::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $7) END)
+     RETURNING id, name, token_prefix, scope, board_ids, created_at, expires_at, last_used_at`,
+    [userId, options.name, token.slice(0, API_TOKEN_PREFIX.length + 6), hashApiToken(token), options.scope, options.boardIds, options.expiresInDays]
+  );
+
+  return { token, record: result.rows[0] as ApiTokenRecord };
+}
+
+export async function authenticateApiToken(token: string): Promise<{ user: AuthUser; grant: ApiTokenGrant } | null> {
+  const result = await pool.query(
+    `UPDATE api_tokens t
+     SET last_used_at = NOW()
+     FROM users u
+     WHERE t.token_hash = $1
+       AND t.revoked_at IS NULL
+       AND (t.expires_at IS NULL OR t.expires_at > NOW())
+       AND u.id = t.user_id
+     RETURNING t.id, t.scope, t.board_ids, u.id AS user_id, u.name, u.email`,
+    [hashApiToken(token)]
+  );
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return {
+    user: { id: row.user_id as number, name: row.name as string, email: row.email as string },
+    grant: { id: row.id as number, scope: row.scope as ApiTokenScope, boardIds: (row.board_ids as number[] | null) ?? null }
+  };
+}
+
+export async function listApiTokens(userId: number): Promise<ApiTokenRecord[]> {
+  const result = await pool.query(
+    `SELECT id, name, token_prefix, scope, board_ids, created_at, expires_at, last_used_at
+     FROM api_tokens
+     WHERE user_id = $1 AND revoked_at IS NULL
+     ORDER BY created_at DESC`,
+    [userId]
+  );
+  return result.rows as ApiTokenRecord[];
+}
+
+export async function revokeApiToken(userId: number, tokenId: number): Promise<boolean> {
+  const result = await pool.query(
+    'UPDATE api_tokens SET revoked_at = NOW() WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL',
+    [tokenId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function revokeUserApiTokens(userId: number) {
+  await pool.query('UPDATE api_tokens SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [userId]);
+}
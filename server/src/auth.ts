@@ -1,21 +1,42 @@
 import type express from 'express';
 import type { Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
+import { authenticateApiToken, isApiToken } from './apiTokens.js';
 import { jwtSecret } from './config.js';
+import { isSessionActive } from './sessions.js';
 import type { AuthRequest, AuthUser } from './types.js';
 
-export function signToken(user: AuthUser): string {
+// Access tokens are short-lived; clients renew them with the session's refresh token.
+const ACCESS_TOKEN_TTL = '15m';
+// Proves the password step of a 2FA sign-in; only accepted by the code verification endpoint.
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+export function signToken(user: AuthUser, sessionId: number): string {
   return jwt.sign(
     {
       sub: user.id,
       email: user.email,
-      name: user.name
+      name: user.name,
+      sid: sessionId
     },
     jwtSecret,
-    { expiresIn: '7d' }
+    { expiresIn: ACCESS_TOKEN_TTL }
   );
 }
 
+export function signTwoFactorChallenge(userId: number): string {
+  return jwt.sign({ sub: userId, purpose: 'two_factor' }, jwtSecret, { expiresIn: TWO_FACTOR_CHALLENGE_TTL });
+}
+
+export function verifyTwoFactorChallenge(token: string): number {
+  const decoded = jwt.verify(token, jwtSecret) as jwt.JwtPayload | string;
+  if (typeof decoded === 'string' || typeof decoded.sub !== 'number' || decoded.purpose !== 'two_factor') {
+    throw new Error('Invalid challenge payload');
+  }
+
+  return decoded.sub;
+}
+
 export function parseAuthHeader(headerValue?: string): string | null {
   if (!headerValue) {
     return null;
@@ -29,35 +50,99 @@ export function parseAuthHeader(headerValue?: string): string | null {
   return token;
 }
 
-export function verifyToken(token: string): AuthUser {
+export function verifyToken(token: string): { user: AuthUser; sessionId: number } {
   const decoded = jwt.verify(token, jwtSecret) as jwt.JwtPayload | string;
-  if (typeof decoded === 'string' || typeof decoded.sub !== 'number' || typeof decoded.email !== 'string' || typeof decoded.name !== 'string') {
+  if (
+    typeof decoded === 'string' ||
+    typeof decoded.sub !== 'number' ||
+    typeof decoded.email !== 'string' ||
+    typeof decoded.name !== 'string' ||
+    typeof decoded.sid !== 'number'
+  ) {
     throw new Error('Invalid token payload');
   }
 
   return {
-    id: decoded.sub,
-    email: decoded.email,
-    name: decoded.name
+    user: {
+      id: decoded.sub,
+      email: decoded.email,
+      name: decoded.name
+    },
+    sessionId: decoded.sid
   };
 }
 
-export function requireAuth(req: AuthRequest, res: express.Response, next: express.NextFunction): void {
+export async function requireAuth(req: AuthRequest, res: express.Response, next: express.NextFunction): Promise<void> {
+  const token = parseAuthHeader(req.headers.authorization);
+  if (!token) {
+    res.status(401).json({ message: 'Missing authorization token' });
+    return;
+  }
+
+  if (isApiToken(token)) {
+    await authenticateWithApiToken(token, req, res, next);
+    return;
+  }
+
+  let verified: ReturnType<typeof verifyToken>;
   try {
-    const token = parseAuthHeader(req.headers.authorization);
-    if (!token) {
-      res.status(401).json({ message: 'Missing authorization token' });
+    verified = verifyToken(token);
+  } catch (_error) {
+    res.status(401).json({ message: 'Invalid or expired token' });
+    return;
+  }
+
+  try {
+    if (!(await isSessionActive(verified.sessionId, verified.user.id))) {
+      res.status(401).json({ message: 'Session has been signed out' });
       return;
     }
+  } catch (error) {
+    next(error);
+    return;
+  }
 
-    req.user = verifyToken(token);
-    next();
-  } catch (_error) {
-    res.status(401).json({ message: 'Invalid or expired token' });
+  req.user = verified.user;
+  req.sessionId = verified.sessionId;
+  next();
+}
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+async function authenticateWithApiToken(token: string, req: AuthRequest, res: express.Response, next: express.NextFunction) {
+  let authenticated: Awaited<ReturnType<typeof authenticateApiToken>>;
+  try {
+    authenticated = await authenticateApiToken(token);
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  if (!authenticated) {
+    res.status(401).json({ message: 'Invalid or expired API token' });
+    return;
   }
+
+  if (authenticated.grant.scope === 'read' && !READ_ONLY_METHODS.includes(req.method)) {
+    res.status(403).json({ message: 'This API token is read-only' });
+    return;
+  }
+
+  req.user = authenticated.user;
+  req.apiToken = authenticated.grant;
+  next();
 }
 
-export function authenticateSocket(socket: Socket, next: (err?: Error) => void) {
+// Credentials and sessions can only be managed from an interactive sign-in, never with an API token.
+export function requireSession(req: AuthRequest, res: express.Response, next: express.NextFunction) {
+  if (req.apiToken) {
+    res.status(403).json({ message: 'API tokens cannot manage account settings' });
+    return;
+  }
+  next();
+}
+
+export async function authenticateSocket(socket: Socket, next: (err?: Error) => void) {
   try {
     const authToken = typeof socket.handshake.auth.token === 'string' ? socket.handshake.auth.token : null;
     const headerValue = Array.isArray(socket.handshake.headers.authorization)
@@ -71,8 +156,13 @@ export function authenticateSocket(socket: Socket, next: (err?: Error) => void)
       return next(new Error('Unauthorized'));
     }
 
-    const user = verifyToken(token);
+    const { user, sessionId } = verifyToken(token);
+    if (!(await isSessionActive(sessionId, user.id))) {
+      return next(new Error('Unauthorized'));
+    }
+
     socket.data.userId = user.id;
+    socket.data.sessionId = sessionId;
     return next();
   } catch (_error) {
     return next(new Error('Unauthorized'));
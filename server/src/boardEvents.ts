@@ -0,0 +1,54 @@
+import { pool } from './db.js';
+import { loadBoardCards } from './helpers.js';
+import type { BoardCard } from './helpers.js';
+
+export type BoardEventPayload = Record<string, unknown>;
+
+type ColumnPositions = { id: number; card_count: number; positions: Array<{ id: number; position: number }> };
+
+export type CardEventPayload = {
+  cardId: number;
+  card: BoardCard | null;
+  columns: ColumnPositions[];
+};
+
+export type ColumnDeletedPayload = {
+  columnId: number;
+  targetColumn: ColumnPositions | null;
+};
+
+export async function nextBoardVersion(boardId: number): Promise<number | null> {
+  const result = await pool.query('UPDATE boards SET version = version + 1 WHERE id = $1 RETURNING version::int AS version', [boardId]);
+  return result.rowCount === 0 ? null : (result.rows[0].version as number);
+}
+
+// Carries the card as the board view renders it plus the counts and positions of every column it touched,
+// so clients can patch their state without refetching the board.
+export async function getCardEventPayload(cardId: number, columnIds: Array<number | null>): Promise<CardEventPayload> {
+  const [card] = await loadBoardCards('c.id = $1', [cardId]);
+  const touchedColumnIds = [...new Set([...columnIds, card?.column_id ?? null])].filter((id): id is number => id !== null);
+
+  return { cardId, card: card ?? null, columns: await getColumnPositions(touchedColumnIds) };
+}
+
+// Cards moved out of a deleted column keep their ids, so the target column's new order is enough to patch the board.
+export async function getColumnDeletedPayload(columnId: number, targetColumnId: number | null): Promise<ColumnDeletedPayload> {
+  const [targetColumn] = targetColumnId === null ? [] : await getColumnPositions([targetColumnId]);
+  return { columnId, targetColumn: targetColumn ?? null };
+}
+
+async function getColumnPositions(columnIds: number[]): Promise<ColumnPositions[]> {
+  const positionsResult = await pool.query(
+    `SELECT id, column_id, position
+     FROM cards
+     WHERE column_id = ANY($1::int[]) AND archived_at IS NULL
+     ORDER BY position ASC`,
+    [columnIds]
+  );
+  const rows = positionsResult.rows as Array<{ id: number; column_id: number; position: number }>;
+
+  return columnIds.map((columnId) => {
+    const positions = rows.filter((row) => row.column_id === columnId).map((row) => ({ id: row.id, position: row.position }));
+    return { id: columnId, card_count: positions.length, positions };
+  });
+}
@@ -0,0 +1,311 @@
+import type { PoolClient } from 'pg';
+import type { z } from 'zod';
+import { pool } from './db.js';
+import { createInvitation } from './invitations.js';
+import type { importBoardSchema } from './schemas.js';
+
+export type BoardDocument = z.infer<typeof importBoardSchema>;
+
+export type BoardImportResult =
+  | { status: 'imported'; boardId: number; name: string; invitedMembers: number }
+  | { status: 'invalid'; message: string };
+
+export const BOARD_EXPORT_VERSION = 1;
+// How long the invite links for the other people listed in an imported board stay valid.
+const IMPORT_INVITATION_TTL_HOURS = 24 * 7;
+
+export async function exportBoard(boardId: number): Promise<BoardDocument> {
+  const [boardResult, membersResult, labelsResult, columnsResult, cardsResult, checklistsResult, commentsResult, activitiesResult] =
+    await Promise.all([
+      pool.query('SELECT name FROM boards WHERE id = $1', [boardId]),
+      pool.query(
+        `SELECT u.email, u.name, bm.role
+         FROM board_members bm
+         JOIN users u ON u.id = bm.user_id
+         WHERE bm.board_id = $1
+         ORDER BY bm.created_at ASC`,
+        [boardId]
+      ),
+      pool.query('SELECT id, name, color FROM labels WHERE board_id = $1 ORDER BY id ASC', [boardId]),
+      pool.query('SELECT id, title, position, wip_limit, wip_mode FROM columns WHERE board_id = $1 ORDER BY position ASC, id ASC', [boardId]),
+      pool.query(
+        `SELECT c.id, c.column_id, c.title, c.description, c.due_date, c.position, c.archived_at, c.created_at, c.external_id,
+                creator.email AS created_by_email,
+                COALESCE((SELECT array_agg(u.email ORDER BY u.email) FROM card_assignees ca JOIN users u ON u.id = ca.user_id WHERE ca.card_id = c.id), '{}') AS assignee_emails,
+                COALESCE((SELECT array_agg(cl.label_id ORDER BY cl.label_id) FROM card_labels cl WHERE cl.card_id = c.id), '{}') AS label_ids
+         FROM cards c
+         LEFT JOIN users creator ON creator.id = c.created_by_user_id
+         WHERE c.board_id = $1
+         ORDER BY c.id ASC`,
+        [boardId]
+      ),
+      pool.query(
+        `SELECT ch.card_id, ch.title, ch.position,
+                COALESCE(
+                  (SELECT json_agg(json_build_object('body', i.body, 'checked', i.checked, 'position', i.position, 'assigneeEmail', u.email) ORDER BY i.position)
+                   FROM card_checklist_items i
+                   LEFT JOIN users u ON u.id = i.assignee_user_id
+                   WHERE i.checklist_id = ch.id),
+                  '[]'
+                ) AS items
+         FROM card_checklists ch
+         WHERE ch.board_id = $1
+         ORDER BY ch.position ASC, ch.id ASC`,
+        [boardId]
+      ),
+      pool.query(
+        `SELECT cc.id, cc.card_id, u.email AS author_email, cc.body, cc.created_at
+         FROM card_comments cc
+         LEFT JOIN users u ON u.id = cc.user_id
+         WHERE cc.board_id = $1
+         ORDER BY cc.id ASC`,
+        [boardId]
+      ),
+      pool.query(
+        `SELECT u.email AS actor_email, a.entity_type, a.entity_id, a.action, a.message, a.metadata, a.created_at
+         FROM activities a
+         LEFT JOIN users u ON u.id = a.actor_user_id
+         WHERE a.board_id = $1
+         ORDER BY a.id ASC`,
+        [boardId]
+      )
+    ]);
+
+  const checklistsByCardId = new Map<number, BoardDocument['cards'][number]['checklists']>();
+  for (const row of checklistsResult.rows) {
+    const checklists = checklistsByCardId.get(row.card_id as number) ?? [];
+    checklists.push({ title: row.title, position: row.position, items: row.items });
+    checklistsByCardId.set(row.card_id as number, checklists);
+  }
+
+  return {
+    format: 'kanban-board',
+    version: BOARD_EXPORT_VERSION,
+    board: { name: boardResult.rows[0].name as string },
+    members: membersResult.rows.map((row) => ({ email: row.email, name: row.name, role: row.role })),
+    labels: labelsResult.rows.map((row) => ({ id: row.id, name: row.name, color: row.color })),
+    columns: columnsResult.rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      position: row.position,
+      wipLimit: row.wip_limit,
+      wipMode: row.wip_mode
+    })),
+    cards: cardsResult.rows.map((row) => ({
+      id: row.id,
+      columnId: row.column_id,
+      title: row.title,
+      description: row.description,
+      dueDate: row.due_date,
+      position: row.position,
+      archivedAt: row.archived_at?.toISOString() ?? null,
+      createdAt: row.created_at.toISOString(),
+      createdByEmail: row.created_by_email,
+      externalId: row.external_id,
+      assigneeEmails: row.assignee_emails,
+      labelIds: row.label_ids,
+      checklists: checklistsByCardId.get(row.id as number) ?? []
+    })),
+    comments: commentsResult.rows.map((row) => ({
+      id: row.id,
+      cardId: row.card_id,
+      authorEmail: row.author_email,
+      body: row.body,
+      createdAt: row.created_at.toISOString()
+    })),
+    activities: activitiesResult.rows.map((row) => ({
+      actorEmail: row.actor_email,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      action: row.action,
+      message: row.message,
+      metadata: row.metadata,
+      createdAt: row.created_at.toISOString()
+    }))
+  };
+}
+
+// Recreates the board inside the caller's transaction with fresh ids. Only the importer becomes a member: everyone else
+// listed gets a share of an invite link for their role, and authorship or assignments of anyone but the importer are dropped.
+// Emails are never matched against accounts, so an import cannot add people without consent or reveal who is registered.
+export async function importBoard(client: PoolClient, owner: { id: number; email: string }, doc: BoardDocument): Promise<BoardImportResult> {
+  const columnIds = new Set(doc.columns.map((column) => column.id));
+  const labelIds = new Set(doc.labels.map((label) => label.id));
+  const cardIds = new Set(doc.cards.map((card) => card.id));
+  if (doc.cards.some((card) => (card.columnId !== null && !columnIds.has(card.columnId)) || card.labelIds.some((id) => !labelIds.has(id)))) {
+    return { status: 'invalid', message: 'Cards must reference columns and labels from the same export' };
+  }
+  if (doc.cards.some((card) => card.columnId === null && card.archivedAt === null)) {
+    return { status: 'invalid', message: 'Only archived cards can be without a column' };
+  }
+  if (doc.comments.some((comment) => !cardIds.has(comment.cardId))) {
+    return { status: 'invalid', message: 'Comments must reference cards from the same export' };
+  }
+
+  const boardResult = await client.query('INSERT INTO boards(name, created_by) VALUES ($1, $2) RETURNING id', [doc.board.name, owner.id]);
+  const boardId = boardResult.rows[0].id as number;
+
+  await client.query('INSERT INTO board_members(board_id, user_id, role) VALUES ($1, $2, $3)', [boardId, owner.id, 'owner']);
+
+  const ownerEmail = owner.email.toLowerCase();
+  const invitedRoles = new Map<string, 'member' | 'viewer'>();
+  for (const member of doc.members) {
+    const email = member.email.toLowerCase();
+    if (email !== ownerEmail && !invitedRoles.has(email)) {
+      invitedRoles.set(email, member.role === 'viewer' ? 'viewer' : 'member');
+    }
+  }
+  for (const role of ['member', 'viewer'] as const) {
+    const maxUses = [...invitedRoles.values()].filter((invitedRole) => invitedRole === role).length;
+    if (maxUses > 0) {
+      await createInvitation(client, boardId, owner.id, { role, expiresInHours: IMPORT_INVITATION_TTL_HOURS, maxUses });
+    }
+  }
+  const findMember = (email: string | null) => (email?.toLowerCase() === ownerEmail ? owner.id : null);
+
+  const newColumnIds = new Map<number, number>();
+  for (const column of doc.columns) {
+    const result = await client.query(
+      'INSERT INTO columns(board_id, title, position, wip_limit, wip_mode) VALUES ($1, $2, $3, $4, $5) RETURNING id',
+      [boardId, column.title, column.position, column.wipLimit, column.wipMode]
+    );
+    newColumnIds.set(column.id, result.rows[0].id as number);
+  }
+
+  const newLabelIds = new Map<number, number>();
+  for (const label of doc.labels) {
+    const result = await client.query(
+      `INSERT INTO labels(board_id, name, color) VALUES ($1, $2, $3)
+       ON CONFLICT (board_id, name) DO UPDATE SET color = EXCLUDED.color
+       RETURNING id`,
+      [boardId, label.name, label.color.toLowerCase()]
+    );
+    newLabelIds.set(label.id, result.rows[0].id as number);
+  }
+
+  const newCardIds = new Map<number, number>();
+  for (const card of doc.cards) {
+    const result = await client.query(
+      `INSERT INTO cards(board_id, column_id, title, description, due_date, position, archived_at, created_at, created_by_user_id, external_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING id`,
+      [
+        boardId,
+        card.columnId === null ? null : newColumnIds.get(card.columnId),
+        card.title,
+        card.description,
+        card.dueDate,
+        card.position,
+        card.archivedAt,
+        card.createdAt,
+        findMember(card.createdByEmail),
+        card.externalId
+      ]
+    );
+    const cardId = result.rows[0].id as number;
+    newCardIds.set(card.id, cardId);
+
+    const assigneeIds = [...new Set(card.assigneeEmails.map(findMember).filter((id): id is number => id !== null))];
+    if (assigneeIds.length > 0) {
+      await client.query('INSERT INTO card_assignees(card_id, user_id) SELECT $1, UNNEST($2::int[])', [cardId, assigneeIds]);
+    }
+    const cardLabelIds = [...new Set(card.labelIds.map((id) => newLabelIds.get(id)!))];
+    if (cardLabelIds.length > 0) {
+      await client.query('INSERT INTO card_labels(card_id, label_id) SELECT $1, UNNEST($2::int[])', [cardId, cardLabelIds]);
+    }
+
+    for (const checklist of card.checklists) {
+      const checklistResult = await client.query(
+        'INSERT INTO card_checklists(board_id, card_id, title, position) VALUES ($1, $2, $3, $4) RETURNING id',
+        [boardId, cardId, checklist.title, checklist.position]
+      );
+      for (const item of checklist.items) {
+        await client.query(
+          `INSERT INTO card_checklist_items(checklist_id, card_id, body, checked, assignee_user_id, position)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [checklistResult.rows[0].id, cardId, item.body, item.checked, findMember(item.assigneeEmail), item.position]
+        );
+      }
+    }
+  }
+
+  const newCommentIds = new Map<number, number>();
+  for (const comment of doc.comments) {
+    const result = await client.query(
+      'INSERT INTO card_comments(board_id, card_id, user_id, body, created_at) VALUES ($1, $2, $3, $4, $5) RETURNING id',
+      [boardId, newCardIds.get(comment.cardId), findMember(comment.authorEmail), comment.body, comment.createdAt]
+    );
+    newCommentIds.set(comment.id, result.rows[0].id as number);
+  }
+
+  // History is copied as-is rather than through logActivity, so an import does not fire webhooks for past events.
+  const remappedIds = new Map<string, Map<number, number>>([
+    ['card', newCardIds],
+    ['column', newColumnIds],
+    ['label', newLabelIds],
+    ['comment', newCommentIds]
+  ]);
+  for (const activity of doc.activities) {
+    const entityId =
+      activity.entityType === 'board' ? boardId : activity.entityId === null ? null : remappedIds.get(activity.entityType)?.get(activity.entityId) ?? null;
+    const { cardId, ...metadata } = activity.metadata;
+    const remappedCardId = typeof cardId === 'number' ? newCardIds.get(cardId) : undefined;
+    await client.query(
+      `INSERT INTO activities(board_id, actor_user_id, entity_type, entity_id, action, message, metadata, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8)`,
+      [
+        boardId,
+        findMember(activity.actorEmail),
+        activity.entityType,
+        entityId,
+        activity.action,
+        activity.message,
+        JSON.stringify(remappedCardId === undefined ? metadata : { cardId: remappedCardId, ...metadata }),
+        activity.createdAt
+      ]
+    );
+  }
+
+  return { status: 'imported', boardId, name: doc.board.name, invitedMembers: invitedRoles.size };
+}
+
+const CSV_HEADER = ['Card ID', 'Title', 'Column', 'Description', 'Labels', 'Assignees', 'Due date', 'Checklist', 'Created by', 'Created at', 'Archived at'];
+
+// Quotes every field and defuses values a spreadsheet would otherwise evaluate as a formula.
+function toCsvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export async function exportBoardCardsCsv(boardId: number): Promise<string> {
+  const result = await pool.query(
+    `SELECT c.id, c.title, col.title AS column_title, c.description, c.due_date, c.created_at, c.archived_at,
+            creator.name AS created_by_name,
+            (SELECT string_agg(l.name, ', ' ORDER BY l.name) FROM card_labels cl JOIN labels l ON l.id = cl.label_id WHERE cl.card_id = c.id) AS labels,
+            (SELECT string_agg(u.name, ', ' ORDER BY u.name) FROM card_assignees ca JOIN users u ON u.id = ca.user_id WHERE ca.card_id = c.id) AS assignees,
+            (SELECT COUNT(*)::int FROM card_checklist_items i WHERE i.card_id = c.id) AS checklist_total,
+            (SELECT COUNT(*)::int FROM card_checklist_items i WHERE i.card_id = c.id AND i.checked) AS checklist_done
+     FROM cards c
+     LEFT JOIN columns col ON col.id = c.column_id
+     LEFT JOIN users creator ON creator.id = c.created_by_user_id
+     WHERE c.board_id = $1
+     ORDER BY c.archived_at IS NOT NULL, col.position ASC, c.position ASC, c.id ASC`,
+    [boardId]
+  );
+
+  const rows = result.rows.map((row) => [
+    row.id,
+    row.title,
+    row.column_title,
+    row.description,
+    row.labels,
+    row.assignees,
+    row.due_date,
+    row.checklist_total > 0 ? `${row.checklist_done}/${row.checklist_total}` : null,
+    row.created_by_name,
+    row.created_at.toISOString(),
+    row.archived_at?.toISOString() ?? null
+  ]);
+  return [CSV_HEADER, ...rows].map((fields) => fields.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
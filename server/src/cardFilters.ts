@@ -0,0 +1,61 @@
+import type { z } from 'zod';
+import type { boardCardFiltersSchema } from './schemas.js';
+
+export type BoardCardFilters = z.infer<typeof boardCardFiltersSchema>;
+
+// Appends parameters to `params` and returns an SQL condition over the `cards c` alias.
+// Due windows mirror the client's due badges: overdue before today, "soon" within the next two days. "Today" is the
+// client's local date when it sends one, and otherwise the date in the database session's time zone.
+export function buildCardFilterCondition(filters: BoardCardFilters, params: unknown[]): string {
+  const conditions: string[] = [];
+
+  if (filters.q) {
+    params.push(filters.q.toLowerCase());
+    conditions.push(`position($${params.length} in lower(c.title || ' ' || c.description)) > 0`);
+  }
+
+  if (filters.assignee === 'none') {
+    conditions.push('NOT EXISTS (SELECT 1 FROM card_assignees ca WHERE ca.card_id = c.id)');
+  } else if (filters.assignee !== undefined) {
+    params.push(filters.assignee);
+    conditions.push(`EXISTS (SELECT 1 FROM card_assignees ca WHERE ca.card_id = c.id AND ca.user_id = $${params.length})`);
+  }
+
+  if (filters.labels && filters.labels.length > 0) {
+    params.push([...new Set(filters.labels)]);
+    conditions.push(
+      `(SELECT COUNT(*) FROM card_labels cl WHERE cl.card_id = c.id AND cl.label_id = ANY($${params.length}::int[])) = cardinality($${params.length}::int[])`
+    );
+  }
+
+  let today = 'CURRENT_DATE';
+  if ((filters.due === 'overdue' || filters.due === 'soon') && filters.today) {
+    params.push(filters.today);
+    today = `$${params.length}::date`;
+  }
+
+  if (filters.due === 'overdue') {
+    conditions.push(`c.due_date < ${today}`);
+  } else if (filters.due === 'soon') {
+    conditions.push(`c.due_date BETWEEN ${today} AND ${today} + 2`);
+  } else if (filters.due === 'none') {
+    conditions.push('c.due_date IS NULL');
+  }
+
+  if (filters.createdBy !== undefined) {
+    params.push(filters.createdBy);
+    conditions.push(`c.created_by_user_id = $${params.length}`);
+  }
+
+  if (conditions.length === 0) {
+    return 'TRUE';
+  }
+
+  const condition = conditions.join(' AND ');
+  if (filters.include === undefined) {
+    return condition;
+  }
+
+  params.push(filters.include);
+  return `(c.id = $${params.length} OR (${condition}))`;
+}
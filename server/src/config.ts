@@ -1,6 +1,47 @@
 export const port = Number(process.env.PORT ?? 4000);
 const clientOriginRaw = process.env.CLIENT_ORIGIN ?? 'http://localhost:5173';
 const adminEmailsRaw = process.env.ADMIN_EMAILS ?? '';
+export const mailTransport = process.env.MAIL_TRANSPORT ?? 'console';
+export const mailOutboxDir = process.env.MAIL_OUTBOX_DIR ?? 'mail-outbox';
+export const mailFrom = process.env.MAIL_FROM ?? 'Kanban <no-reply@localhost>';
+export const loginMaxAttempts = Number(process.env.LOGIN_MAX_ATTEMPTS ?? 10);
+export const loginIpMaxAttempts = Number(process.env.LOGIN_IP_MAX_ATTEMPTS ?? 50);
+export const loginBackoffMs = Number(process.env.LOGIN_BACKOFF_MS ?? 1000);
+export const loginLockoutMinutes = Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15);
+export const trustProxy = parseTrustProxy(process.env.TRUST_PROXY ?? '');
+// How long a just-rotated refresh token still works, so tabs that refresh at the same moment do not look like token theft.
+export const refreshReuseGraceSeconds = Number(process.env.REFRESH_REUSE_GRACE_SECONDS ?? 30);
+export const oidcIssuer = (process.env.OIDC_ISSUER ?? '').replace(/\/+$/, '');
+export const oidcClientId = process.env.OIDC_CLIENT_ID ?? '';
+export const oidcClientSecret = process.env.OIDC_CLIENT_SECRET ?? '';
+export const oidcRedirectUri = process.env.OIDC_REDIRECT_URI ?? `http://localhost:${port}/api/auth/oidc/callback`;
+export const oidcScopes = process.env.OIDC_SCOPES ?? 'openid email profile';
+export const oidcProviderName = process.env.OIDC_PROVIDER_NAME ?? 'SSO';
+export const oidcEnabled = Boolean(oidcIssuer && oidcClientId);
+export const webhookPollIntervalMs = Number(process.env.WEBHOOK_POLL_INTERVAL_MS ?? 1000);
+export const webhookMaxAttempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8);
+export const webhookRetryBaseMs = Number(process.env.WEBHOOK_RETRY_BASE_MS ?? 10_000);
+export const webhookTimeoutMs = Number(process.env.WEBHOOK_TIMEOUT_MS ?? 10_000);
+export const webhookDeliveryRetentionDays = Number(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS ?? 30);
+// Webhook hosts that may resolve to private or loopback addresses, such as services on the same network.
+export const webhookAllowedHosts = (process.env.WEBHOOK_ALLOWED_HOSTS ?? '')
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter((host) => host.length > 0);
+// Behind a reverse proxy every request comes from the proxy, so the client address (used for login throttling and
+// session IPs) has to be read from X-Forwarded-For. Accepts a hop count, `true`, or trusted proxy addresses/subnets.
+// Off by default, since trusting the header without a proxy in front lets clients spoof their address.
+function parseTrustProxy(value: string): boolean | number | string {
+  const trimmed = value.trim();
+  if (trimmed === '' || trimmed === 'false') {
+    return false;
+  }
+  if (trimmed === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
 function normalizeOrigin(origin: string) {
   const trimmed = origin.trim().replace(/^['"]|['"]$/g, '');
   try {
@@ -15,6 +56,9 @@ export const clientOrigins = clientOriginRaw
   .map((origin) => normalizeOrigin(origin))
   .filter((origin) => origin.length > 0);
 
+// Links in emails point at the web client.
+export const appUrl = (process.env.APP_URL ?? clientOrigins[0] ?? 'http://localhost:5173').replace(/\/+$/, '');
+
 export function isClientOriginAllowed(origin: string) {
   if (clientOrigins.length === 0) {
     return true;
@@ -0,0 +1,99 @@
+import type { Server } from 'socket.io';
+import { pool } from './db.js';
+
+const LOCK_TIMEOUT_SECONDS = 15;
+const SWEEP_INTERVAL_MS = 5_000;
+
+// A drag locks its card against moves by other users until it ends, the socket leaves, or no update arrives in time.
+// Locks live in Postgres so the move endpoint honours drags started through any API process.
+export function createDragManager(io: Server) {
+  function start() {
+    setInterval(() => {
+      void sweep().catch((error: unknown) => console.error(error));
+    }, SWEEP_INTERVAL_MS).unref();
+  }
+
+  async function sweep() {
+    const result = await pool.query('DELETE FROM card_drag_locks WHERE expires_at <= NOW() RETURNING board_id');
+    for (const boardId of new Set(result.rows.map((row) => row.board_id as number))) {
+      await notify(boardId);
+    }
+  }
+
+  async function lockedBy(boardId: number, cardId: number): Promise<number | null> {
+    const result = await pool.query(
+      'SELECT user_id FROM card_drag_locks WHERE board_id = $1 AND card_id = $2 AND expires_at > NOW()',
+      [boardId, cardId]
+    );
+    return result.rowCount === 0 ? null : (result.rows[0].user_id as number);
+  }
+
+  async function lock(boardId: number, cardId: number, userId: number, socketId: string, columnId: number | null): Promise<boolean> {
+    const result = await pool.query(
+      `INSERT INTO card_drag_locks (card_id, board_id, user_id, socket_id, column_id, expires_at)
+       VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(secs => $6))
+       ON CONFLICT (card_id) DO UPDATE
+       SET user_id = EXCLUDED.user_id,
+           socket_id = EXCLUDED.socket_id,
+           column_id = EXCLUDED.column_id,
+           expires_at = EXCLUDED.expires_at
+       WHERE card_drag_locks.user_id = EXCLUDED.user_id OR card_drag_locks.expires_at <= NOW()`,
+      [cardId, boardId, userId, socketId, columnId, LOCK_TIMEOUT_SECONDS]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Refreshes the lock and returns whether the hovered column changed.
+  async function update(boardId: number, cardId: number, socketId: string, columnId: number | null): Promise<boolean> {
+    const result = await pool.query(
+      `WITH previous AS (
+         SELECT column_id FROM card_drag_locks WHERE board_id = $1 AND card_id = $2 AND socket_id = $3
+       )
+       UPDATE card_drag_locks
+       SET column_id = $4, expires_at = NOW() + make_interval(secs => $5)
+       WHERE board_id = $1 AND card_id = $2 AND socket_id = $3
+       RETURNING (SELECT column_id FROM previous) IS DISTINCT FROM $4 AS changed`,
+      [boardId, cardId, socketId, columnId, LOCK_TIMEOUT_SECONDS]
+    );
+    return result.rows[0]?.changed === true;
+  }
+
+  async function end(boardId: number, cardId: number, socketId: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM card_drag_locks WHERE board_id = $1 AND card_id = $2 AND socket_id = $3', [
+      boardId,
+      cardId,
+      socketId
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async function endSocket(boardId: number, socketId: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM card_drag_locks WHERE board_id = $1 AND socket_id = $2', [boardId, socketId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async function endUser(boardId: number, userId: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM card_drag_locks WHERE board_id = $1 AND user_id = $2', [boardId, userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async function endBoard(boardId: number) {
+    await pool.query('DELETE FROM card_drag_locks WHERE board_id = $1', [boardId]);
+  }
+
+  async function notify(boardId: number) {
+    const result = await pool.query(
+      `SELECT card_id, user_id, column_id FROM card_drag_locks
+       WHERE board_id = $1 AND expires_at > NOW()
+       ORDER BY card_id`,
+      [boardId]
+    );
+    io.to(`board:${boardId}`).emit('card_drag_changed', {
+      boardId,
+      drags: result.rows.map((row) => ({ cardId: row.card_id as number, userId: row.user_id as number, columnId: row.column_id as number | null })),
+      at: new Date().toISOString()
+    });
+  }
+
+  return { start, lockedBy, lock, update, end, endSocket, endUser, endBoard, notify };
+}
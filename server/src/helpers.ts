@@ -1,3 +1,4 @@
+import type { PoolClient } from 'pg';
 import { pool } from './db.js';
 import type { BoardRole } from './types.js';
 
@@ -10,6 +11,18 @@ export async function getBoardRole(userId: number, boardId: number): Promise<Boa
   return result.rows[0].role as BoardRole;
 }
 
+export async function getBoardMemberIds(boardId: number): Promise<number[]> {
+  const result = await pool.query('SELECT user_id FROM board_members WHERE board_id = $1', [boardId]);
+  return (result.rows as Array<{ user_id: number }>).map((row) => row.user_id);
+}
+
+export async function lockBoardOwners(client: PoolClient, boardId: number): Promise<number[]> {
+  // Serializes membership changes per board so two demotions cannot both pass the last-owner check.
+  await client.query('SELECT id FROM boards WHERE id = $1 FOR UPDATE', [boardId]);
+  const result = await client.query("SELECT user_id FROM board_members WHERE board_id = $1 AND role = 'owner'", [boardId]);
+  return (result.rows as Array<{ user_id: number }>).map((row) => row.user_id);
+}
+
 export async function getCardWithBoard(cardId: number): Promise<{ id: number; board_id: number; title: string } | null> {
   const result = await pool.query('SELECT id, board_id, title FROM cards WHERE id = $1', [cardId]);
   if (result.rowCount === 0) {
@@ -19,6 +32,141 @@ export async function getCardWithBoard(cardId: number): Promise<{ id: number; bo
   return result.rows[0] as { id: number; board_id: number; title: string };
 }
 
+export async function getColumnCardIds(client: PoolClient, columnId: number): Promise<number[]> {
+  const result = await client.query(
+    `SELECT id FROM cards
+     WHERE column_id = $1
+     ORDER BY position ASC, id ASC`,
+    [columnId]
+  );
+
+  return (result.rows as Array<{ id: number }>).map((row) => row.id);
+}
+
+export async function renumberCards(client: PoolClient, cardIds: number[]): Promise<void> {
+  for (let i = 0; i < cardIds.length; i += 1) {
+    await client.query('UPDATE cards SET position = $1 WHERE id = $2', [(i + 1) * 1000, cardIds[i]]);
+  }
+}
+
+export type ColumnWipState = {
+  id: number;
+  board_id: number;
+  title: string;
+  wip_limit: number | null;
+  wip_mode: 'block' | 'warn';
+  card_count: number;
+};
+
+// Locks the column row so concurrent creates and moves cannot both slip under the limit.
+export async function lockColumnWipState(client: PoolClient, columnId: number): Promise<ColumnWipState | null> {
+  const columnResult = await client.query('SELECT id, board_id, title, wip_limit, wip_mode FROM columns WHERE id = $1 FOR UPDATE', [
+    columnId
+  ]);
+  if (columnResult.rowCount === 0) {
+    return null;
+  }
+
+  const countResult = await client.query('SELECT COUNT(*)::int AS card_count FROM cards WHERE column_id = $1 AND archived_at IS NULL', [
+    columnId
+  ]);
+
+  return { ...columnResult.rows[0], card_count: countResult.rows[0].card_count as number } as ColumnWipState;
+}
+
+export function isAtWipLimit(column: ColumnWipState): boolean {
+  return column.wip_limit !== null && column.card_count >= column.wip_limit;
+}
+
+export type NewCard = {
+  boardId: number;
+  columnId: number;
+  title: string;
+  description: string;
+  dueDate: string | null;
+  createdByUserId: number | null;
+  assigneeIds: number[];
+  labelIds?: number[];
+  externalId?: string | null;
+};
+
+export type CreatedCardRow = {
+  id: number;
+  board_id: number;
+  column_id: number;
+  title: string;
+  description: string;
+  due_date: string | null;
+  position: number;
+  created_by_user_id: number | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type InsertCardResult =
+  | { status: 'created'; card: CreatedCardRow; column: ColumnWipState; exceedsWipLimit: boolean }
+  | { status: 'column_not_found' }
+  | { status: 'wip_blocked'; column: ColumnWipState };
+
+// Appends a card to the end of its column inside the caller's transaction, honouring the column's WIP limit.
+export async function insertCard(client: PoolClient, data: NewCard): Promise<InsertCardResult> {
+  const column = await lockColumnWipState(client, data.columnId);
+  if (!column) {
+    return { status: 'column_not_found' };
+  }
+
+  const exceedsWipLimit = isAtWipLimit(column);
+  if (exceedsWipLimit && column.wip_mode === 'block') {
+    return { status: 'wip_blocked', column };
+  }
+
+  const maxPositionResult = await client.query('SELECT COALESCE(MAX(position), 0) AS max_position FROM cards WHERE column_id = $1', [
+    data.columnId
+  ]);
+  const position = Number(maxPositionResult.rows[0].max_position) + 1000;
+
+  const result = await client.query(
+    `INSERT INTO cards(board_id, column_id, title, description, due_date, position, created_by_user_id, external_id)
+     VALUES($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING id, board_id, column_id, title, description, due_date, position, created_by_user_id, version, created_at, updated_at`,
+    [data.boardId, data.columnId, data.title, data.description, data.dueDate, position, data.createdByUserId, data.externalId ?? null]
+  );
+  const card = result.rows[0] as CreatedCardRow;
+  await replaceCardAssignees(client, card.id, data.assigneeIds);
+  if (data.labelIds && data.labelIds.length > 0) {
+    await client.query('INSERT INTO card_labels(card_id, label_id) SELECT $1, UNNEST($2::int[])', [card.id, data.labelIds]);
+  }
+
+  return { status: 'created', card, column, exceedsWipLimit };
+}
+
+export async function getLabelWithBoard(labelId: number): Promise<{ id: number; board_id: number; name: string; color: string } | null> {
+  const result = await pool.query('SELECT id, board_id, name, color FROM labels WHERE id = $1', [labelId]);
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  return result.rows[0] as { id: number; board_id: number; name: string; color: string };
+}
+
+export async function getChecklistWithCard(
+  checklistId: number
+): Promise<{ id: number; board_id: number; card_id: number; title: string; card_title: string } | null> {
+  const result = await pool.query(
+    `SELECT cl.id, cl.board_id, cl.card_id, cl.title, c.title AS card_title
+     FROM card_checklists cl
+     JOIN cards c ON c.id = cl.card_id
+     WHERE cl.id = $1`,
+    [checklistId]
+  );
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  return result.rows[0] as { id: number; board_id: number; card_id: number; title: string; card_title: string };
+}
+
 export function canWrite(role: BoardRole): boolean {
   return role === 'owner' || role === 'member';
 }
@@ -47,25 +195,125 @@ export function normalizeDueDate(value: string): string | null {
   return trimmed;
 }
 
-export async function resolveBoardAssigneeName(boardId: number, assigneeValue: string): Promise<string | null> {
-  const trimmed = assigneeValue.trim();
-  if (!trimmed) {
-    return null;
+export type CardAssignee = { id: number; name: string; email: string };
+
+export async function getCardAssigneesMap(cardIds: number[]): Promise<Map<number, CardAssignee[]>> {
+  const assigneesByCardId = new Map<number, CardAssignee[]>();
+  if (cardIds.length === 0) {
+    return assigneesByCardId;
   }
 
   const result = await pool.query(
-    `SELECT u.name
-     FROM board_members bm
-     JOIN users u ON u.id = bm.user_id
-     WHERE bm.board_id = $1
-       AND (LOWER(u.name) = LOWER($2) OR LOWER(u.email) = LOWER($2))
-     LIMIT 1`,
-    [boardId, trimmed]
+    `SELECT ca.card_id, u.id, u.name, u.email
+     FROM card_assignees ca
+     JOIN users u ON u.id = ca.user_id
+     WHERE ca.card_id = ANY($1::int[])
+     ORDER BY u.name ASC, u.id ASC`,
+    [cardIds]
   );
 
-  if (result.rowCount === 0) {
-    return null;
+  for (const row of result.rows as Array<CardAssignee & { card_id: number }>) {
+    const assignees = assigneesByCardId.get(row.card_id) ?? [];
+    assignees.push({ id: row.id, name: row.name, email: row.email });
+    assigneesByCardId.set(row.card_id, assignees);
+  }
+
+  return assigneesByCardId;
+}
+
+export async function getCardAssignees(cardId: number): Promise<CardAssignee[]> {
+  return (await getCardAssigneesMap([cardId])).get(cardId) ?? [];
+}
+
+export type BoardCard = {
+  id: number;
+  board_id: number;
+  column_id: number;
+  title: string;
+  description: string;
+  due_date: string | null;
+  position: number;
+  created_by_user_id: number | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+  checklist_total: number;
+  checklist_done: number;
+  labels: Array<{ id: number; name: string; color: string }>;
+  assignees: CardAssignee[];
+};
+
+// Loads non-archived cards in the shape the board view renders; `condition` is SQL over the cards alias `c`.
+export async function loadBoardCards(condition: string, params: unknown[]): Promise<BoardCard[]> {
+  const cardsResult = await pool.query(
+    `SELECT c.id, c.board_id, c.column_id, c.title, c.description, c.due_date, c.position, c.created_by_user_id, c.version, c.created_at, c.updated_at,
+            (SELECT COUNT(*)::int FROM card_checklist_items i WHERE i.card_id = c.id) AS checklist_total,
+            (SELECT COUNT(*)::int FROM card_checklist_items i WHERE i.card_id = c.id AND i.checked) AS checklist_done
+     FROM cards c
+     WHERE c.archived_at IS NULL AND ${condition}
+     ORDER BY c.position ASC`,
+    params
+  );
+  const cards = cardsResult.rows as Array<Omit<BoardCard, 'labels' | 'assignees'>>;
+  const cardIds = cards.map((card) => card.id);
+  if (cardIds.length === 0) {
+    return [];
+  }
+
+  const cardLabelsResult = await pool.query(
+    `SELECT cl.card_id, l.id, l.name, l.color
+     FROM card_labels cl
+     JOIN labels l ON l.id = cl.label_id
+     WHERE cl.card_id = ANY($1::int[])
+     ORDER BY l.name ASC`,
+    [cardIds]
+  );
+
+  const labelsByCardId = new Map<number, BoardCard['labels']>();
+  for (const row of cardLabelsResult.rows as Array<{ card_id: number; id: number; name: string; color: string }>) {
+    const cardLabels = labelsByCardId.get(row.card_id) ?? [];
+    cardLabels.push({ id: row.id, name: row.name, color: row.color });
+    labelsByCardId.set(row.card_id, cardLabels);
   }
 
-  return result.rows[0].name as string;
+  const assigneesByCardId = await getCardAssigneesMap(cardIds);
+  return cards.map((card) => ({
+    ...card,
+    labels: labelsByCardId.get(card.id) ?? [],
+    assignees: assigneesByCardId.get(card.id) ?? []
+  }));
+}
+
+// Returns null when any id is not a member of the board.
+export async function normalizeBoardAssigneeIds(boardId: number, assigneeIds: number[]): Promise<number[] | null> {
+  const uniqueIds = [...new Set(assigneeIds)].sort((a, b) => a - b);
+  const memberIds = await getBoardMemberIds(boardId);
+  return uniqueIds.every((id) => memberIds.includes(id)) ? uniqueIds : null;
+}
+
+export async function replaceCardAssignees(client: PoolClient, cardId: number, assigneeIds: number[]): Promise<void> {
+  await client.query('DELETE FROM card_assignees WHERE card_id = $1', [cardId]);
+  if (assigneeIds.length > 0) {
+    await client.query(
+      `INSERT INTO card_assignees(card_id, user_id)
+       SELECT $1, UNNEST($2::int[])`,
+      [cardId, assigneeIds]
+    );
+  }
+}
+
+export async function unassignBoardMember(client: PoolClient, boardId: number, userId: number): Promise<void> {
+  await client.query(
+    `DELETE FROM card_assignees ca
+     USING cards c
+     WHERE c.id = ca.card_id AND c.board_id = $1 AND ca.user_id = $2`,
+    [boardId, userId]
+  );
+  await client.query(
+    `UPDATE card_checklist_items i
+     SET assignee_user_id = NULL
+     FROM card_checklists cl
+     WHERE cl.id = i.checklist_id AND cl.board_id = $1 AND i.assignee_user_id = $2`,
+    [boardId, userId]
+  );
 }
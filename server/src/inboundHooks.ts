@@ -0,0 +1,83 @@
+import crypto from 'node:crypto';
+import type { PoolClient } from 'pg';
+import { pool } from './db.js';
+
+export type InboundHookStatus = { enabled: false } | { enabled: true; created_at: string };
+
+function hashInboundSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+export function getInboundHookPath(boardId: number, secret: string): string {
+  return `/api/hooks/boards/${boardId}/${secret}/cards`;
+}
+
+export async function getInboundHookStatus(boardId: number): Promise<InboundHookStatus> {
+  const result = await pool.query('SELECT created_at FROM board_inbound_hooks WHERE board_id = $1', [boardId]);
+  return result.rowCount === 0 ? { enabled: false } : { enabled: true, created_at: result.rows[0].created_at as string };
+}
+
+// Creating a new secret invalidates the previous URL.
+export async function rotateInboundHookSecret(boardId: number, userId: number): Promise<{ secret: string; created_at: string }> {
+  const secret = crypto.randomBytes(24).toString('base64url');
+  const result = await pool.query(
+    `INSERT INTO board_inbound_hooks (board_id, secret_hash, created_by)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (board_id) DO UPDATE
+     SET secret_hash = EXCLUDED.secret_hash, created_by = EXCLUDED.created_by, created_at = NOW()
+     RETURNING created_at`,
+    [boardId, hashInboundSecret(secret), userId]
+  );
+  return { secret, created_at: result.rows[0].created_at as string };
+}
+
+export async function deleteInboundHook(boardId: number): Promise<boolean> {
+  const result = await pool.query('DELETE FROM board_inbound_hooks WHERE board_id = $1', [boardId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function isInboundHookSecretValid(boardId: number, secret: string): Promise<boolean> {
+  const result = await pool.query('SELECT 1 FROM board_inbound_hooks WHERE board_id = $1 AND secret_hash = $2', [
+    boardId,
+    hashInboundSecret(secret)
+  ]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Accepts a column id or a case-insensitive title; without one, cards land in the board's first column.
+export async function resolveInboundColumn(boardId: number, column: number | string | undefined): Promise<number | null> {
+  const result = await pool.query(
+    `SELECT id FROM columns
+     WHERE board_id = $1
+       AND ($2::int IS NULL OR id = $2)
+       AND ($3::text IS NULL OR LOWER(title) = LOWER($3))
+     ORDER BY position ASC, id ASC
+     LIMIT 1`,
+    [boardId, typeof column === 'number' ? column : null, typeof column === 'string' ? column : null]
+  );
+  return result.rowCount === 0 ? null : (result.rows[0].id as number);
+}
+
+// Label names are matched case-insensitively; names the board does not have are reported back rather than created.
+export async function resolveInboundLabels(boardId: number, names: string[]): Promise<{ labelIds: number[]; unknownLabels: string[] }> {
+  if (names.length === 0) {
+    return { labelIds: [], unknownLabels: [] };
+  }
+
+  const result = await pool.query('SELECT id, LOWER(name) AS name FROM labels WHERE board_id = $1 AND LOWER(name) = ANY($2::text[])', [
+    boardId,
+    names.map((name) => name.toLowerCase())
+  ]);
+  const labels = result.rows as Array<{ id: number; name: string }>;
+  return {
+    labelIds: [...new Set(labels.map((label) => label.id))],
+    unknownLabels: names.filter((name) => !labels.some((label) => label.name === name.toLowerCase()))
+  };
+}
+
+// Locks the board so two deliveries of the same external id cannot both pass the duplicate check.
+export async function findCardByExternalId(client: PoolClient, boardId: number, externalId: string): Promise<number | null> {
+  await client.query('SELECT id FROM boards WHERE id = $1 FOR UPDATE', [boardId]);
+  const result = await client.query('SELECT id FROM cards WHERE board_id = $1 AND external_id = $2', [boardId, externalId]);
+  return result.rowCount === 0 ? null : (result.rows[0].id as number);
+}
@@ -2,28 +2,132 @@ import 'dotenv/config';
 import bcrypt from 'bcryptjs';
 import cors from 'cors';
 import express from 'express';
+import { randomUUID } from 'node:crypto';
 import { createServer } from 'node:http';
 import { Server } from 'socket.io';
 import { z } from 'zod';
-import { authenticateSocket, requireAuth, signToken } from './auth.js';
+import { authenticateSocket, requireAuth, requireSession, signToken, signTwoFactorChallenge, verifyTwoFactorChallenge } from './auth.js';
 import { logActivity } from './activity.js';
-import { isAdminEmail, port } from './config.js';
+import { appUrl, isAdminEmail, oidcEnabled, oidcProviderName, port, trustProxy } from './config.js';
 import { pool } from './db.js';
-import { canWrite, getBoardRole, getCardWithBoard, normalizeDueDate, resolveBoardAssigneeName } from './helpers.js';
+import {
+  canWrite,
+  getBoardMemberIds,
+  getBoardRole,
+  getCardAssignees,
+  getCardWithBoard,
+  getChecklistWithCard,
+  getColumnCardIds,
+  getLabelWithBoard,
+  insertCard,
+  isAtWipLimit,
+  loadBoardCards,
+  lockBoardOwners,
+  lockColumnWipState,
+  normalizeBoardAssigneeIds,
+  normalizeDueDate,
+  renumberCards,
+  replaceCardAssignees,
+  unassignBoardMember
+} from './helpers.js';
+import type { InsertCardResult } from './helpers.js';
+import { getCardEventPayload, getColumnDeletedPayload, nextBoardVersion } from './boardEvents.js';
+import { exportBoard, exportBoardCardsCsv, importBoard } from './boardExport.js';
+import type { BoardEventPayload } from './boardEvents.js';
+import {
+  deleteInboundHook,
+  findCardByExternalId,
+  getInboundHookPath,
+  getInboundHookStatus,
+  isInboundHookSecretValid,
+  resolveInboundColumn,
+  resolveInboundLabels,
+  rotateInboundHookSecret
+} from './inboundHooks.js';
+import { consumeInvitation, createInvitation, findActiveInvitation } from './invitations.js';
+import { createApiToken, listApiTokens, revokeApiToken, revokeUserApiTokens } from './apiTokens.js';
+import { clearAccountThrottle, getLoginBlock, recordLoginFailure, recordRegistrationConflict } from './loginThrottle.js';
+import type { LoginBlock } from './loginThrottle.js';
+import { sendMail } from './mailer.js';
+import { beginOidcLogin, completeOidcLogin, consumeLoginHandoff, createLoginHandoff, findOrCreateOidcUser } from './oidc.js';
+import { consumePasswordResetToken, createPasswordResetToken, RESET_TOKEN_TTL_MINUTES } from './passwordResets.js';
+import { createDragManager } from './drags.js';
+import { createPostgresAdapter } from './pgAdapter.js';
 import { createPresenceManager } from './presence.js';
+import {
+  createSession,
+  listActiveSessions,
+  revokeSessionByRefreshToken,
+  revokeUserSessions,
+  rotateSession
+} from './sessions.js';
+import type { SessionMeta } from './sessions.js';
+import { searchCards } from './search.js';
+import { buildOtpauthUri } from './totp.js';
+import {
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  regenerateRecoveryCodes,
+  verifyTwoFactorCode
+} from './twoFactor.js';
+import {
+  createWebhook,
+  createWebhookDispatcher,
+  deleteWebhook,
+  getDeliveryBoardId,
+  getWebhookBoardId,
+  listWebhookDeliveries,
+  listWebhooks,
+  redeliverWebhookDelivery,
+  updateWebhook
+} from './webhooks.js';
+import { buildCardFilterCondition } from './cardFilters.js';
 import {
   addCommentSchema,
   addMemberSchema,
+  boardCardFiltersSchema,
+  boardExportQuerySchema,
+  cardDragSchema,
+  cardPresenceSchema,
+  changePasswordSchema,
+  createApiTokenSchema,
   createBoardSchema,
   createCardSchema,
+  createChecklistItemSchema,
+  createChecklistSchema,
   createColumnSchema,
+  createInvitationSchema,
+  createLabelSchema,
+  createWebhookSchema,
+  deleteColumnSchema,
+  disableTwoFactorSchema,
+  forgotPasswordSchema,
+  importBoardSchema,
+  inboundCardSchema,
   loginSchema,
   moveCardSchema,
+  moveChecklistItemSchema,
+  oidcExchangeSchema,
+  refreshTokenSchema,
   registerSchema,
+  resetPasswordSchema,
+  transferOwnershipSchema,
+  twoFactorCodeSchema,
+  twoFactorVerifySchema,
+  updateBoardPreferencesSchema,
+  updateBoardSchema,
   updateCardSchema,
-  updateColumnSchema
+  updateChecklistItemSchema,
+  updateChecklistSchema,
+  updateColumnSchema,
+  updateLabelSchema,
+  updateMemberSchema,
+  updateWebhookSchema
 } from './schemas.js';
-import type { AuthRequest, AuthUser } from './types.js';
+import type { AuthRequest, AuthUser, BoardRole } from './types.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -34,67 +138,186 @@ const io = new Server(httpServer, {
     credentials: false
   }
 });
-const presence = createPresenceManager(io);
-
-app.use(cors({ origin: true, credentials: false }));
-app.use(express.json());
+io.adapter(createPostgresAdapter(pool));
+const presence = createPresenceManager(io, randomUUID());
+const drags = createDragManager(io);
+const webhooks = createWebhookDispatcher();
+
+app.set('trust proxy', trustProxy);
+app.use(cors({ origin: true, credentials: false, exposedHeaders: ['Content-Disposition'] }));
+// A board import carries the whole board. Its larger body limit is applied on the route, after authentication,
+// so anonymous clients cannot make the server buffer large bodies.
+const BOARD_IMPORT_PATH = '/api/boards/import';
+const parseJson = express.json();
+app.use((req, res, next) => (req.path === BOARD_IMPORT_PATH ? next() : parseJson(req, res, next)));
 
 io.use(authenticateSocket);
 
 io.on('connection', (socket) => {
   socket.join(`user:${Number(socket.data.userId)}`);
-  socket.data.joinedBoards = new Set<number>();
+  socket.join(`session:${Number(socket.data.sessionId)}`);
+
+  // Socket handlers have no error middleware, so report failures to the client instead of crashing the process.
+  const handle =
+    <T>(handler: (payload: T) => Promise<void>) =>
+    (payload: T) => {
+      handler(payload).catch((error: unknown) => {
+        console.error(error);
+        socket.emit('socket_error', { message: 'Internal server error' });
+      });
+    };
 
-  socket.on('join_board', async (boardId: number) => {
-    if (!Number.isInteger(boardId)) {
-      socket.emit('socket_error', { message: 'Invalid board id' });
-      return;
+  // Rooms rather than socket.data track joined boards, since rooms are kept in sync across API processes.
+  const hasJoined = (boardId: number) => socket.rooms.has(`board:${boardId}`);
+
+  const leaveBoard = async (boardId: number) => {
+    const hadCard = await presence.remove(boardId, socket.id);
+    await presence.notify(boardId);
+    if (hadCard) {
+      await presence.notifyCards(boardId);
     }
+    if (await drags.endSocket(boardId, socket.id)) {
+      await drags.notify(boardId);
+    }
+  };
 
-    const role = await getBoardRole(Number(socket.data.userId), boardId);
-    if (!role) {
-      socket.emit('socket_error', { message: 'Not authorized for this board' });
+  socket.on(
+    'join_board',
+    handle(async (boardId: number) => {
+      if (!Number.isInteger(boardId)) {
+        socket.emit('socket_error', { message: 'Invalid board id' });
+        return;
+      }
+
+      const role = await getBoardRole(Number(socket.data.userId), boardId);
+      if (!role) {
+        socket.emit('socket_error', { message: 'Not authorized for this board' });
+        return;
+      }
+
+      if (hasJoined(boardId)) {
+        await presence.notify(boardId);
+        return;
+      }
+
+      socket.join(`board:${boardId}`);
+      await presence.add(boardId, Number(socket.data.userId), socket.id);
+      await presence.notify(boardId);
+      await presence.notifyCards(boardId);
+      await drags.notify(boardId);
+    })
+  );
+
+  const updateCardPresence = async (payload: unknown, editing: boolean) => {
+    const parsed = cardPresenceSchema.safeParse(payload);
+    if (!parsed.success) {
+      socket.emit('socket_error', { message: 'Invalid card presence' });
       return;
     }
 
-    const joinedBoards = socket.data.joinedBoards as Set<number>;
-    if (joinedBoards.has(boardId)) {
-      presence.notify(boardId);
+    const { boardId, cardId, field } = parsed.data;
+    if (!hasJoined(boardId)) {
       return;
     }
 
-    socket.join(`board:${boardId}`);
-    joinedBoards.add(boardId);
-    presence.add(boardId, Number(socket.data.userId));
-    presence.notify(boardId);
-  });
+    const activity = cardId === null ? null : { userId: Number(socket.data.userId), cardId, field: editing ? field ?? null : null };
+    if (await presence.setCardActivity(boardId, socket.id, activity)) {
+      await presence.notifyCards(boardId);
+    }
+  };
 
-  socket.on('leave_board', (boardId: number) => {
-    const joinedBoards = socket.data.joinedBoards as Set<number>;
-    if (!joinedBoards.has(boardId)) {
-      return;
+  socket.on('card_viewing', handle((payload: unknown) => updateCardPresence(payload, false)));
+  socket.on('card_editing', handle((payload: unknown) => updateCardPresence(payload, true)));
+
+  const parseCardDrag = (payload: unknown) => {
+    const parsed = cardDragSchema.safeParse(payload);
+    if (!parsed.success) {
+      socket.emit('socket_error', { message: 'Invalid card drag' });
+      return null;
     }
 
-    socket.leave(`board:${boardId}`);
-    joinedBoards.delete(boardId);
-    presence.remove(boardId, Number(socket.data.userId));
-    presence.notify(boardId);
-  });
+    return hasJoined(parsed.data.boardId) ? parsed.data : null;
+  };
+
+  socket.on(
+    'card_drag_start',
+    handle(async (payload: unknown) => {
+      const drag = parseCardDrag(payload);
+      if (!drag) {
+        return;
+      }
+
+      const userId = Number(socket.data.userId);
+      const [role, card] = await Promise.all([getBoardRole(userId, drag.boardId), getCardWithBoard(drag.cardId)]);
+      if (!role || !canWrite(role) || card?.board_id !== drag.boardId) {
+        socket.emit('card_drag_rejected', { boardId: drag.boardId, cardId: drag.cardId, lockedBy: null });
+        return;
+      }
 
-  socket.on('disconnect', () => {
-    const joinedBoards = socket.data.joinedBoards as Set<number>;
-    for (const boardId of joinedBoards) {
-      presence.remove(boardId, Number(socket.data.userId));
-      presence.notify(boardId);
+      if (!(await drags.lock(drag.boardId, drag.cardId, userId, socket.id, drag.columnId ?? null))) {
+        const lockedBy = await drags.lockedBy(drag.boardId, drag.cardId);
+        socket.emit('card_drag_rejected', { boardId: drag.boardId, cardId: drag.cardId, lockedBy });
+        return;
+      }
+
+      await drags.notify(drag.boardId);
+    })
+  );
+
+  socket.on(
+    'card_drag_over',
+    handle(async (payload: unknown) => {
+      const drag = parseCardDrag(payload);
+      if (drag && (await drags.update(drag.boardId, drag.cardId, socket.id, drag.columnId ?? null))) {
+        await drags.notify(drag.boardId);
+      }
+    })
+  );
+
+  socket.on(
+    'card_drag_end',
+    handle(async (payload: unknown) => {
+      const drag = parseCardDrag(payload);
+      if (drag && (await drags.end(drag.boardId, drag.cardId, socket.id))) {
+        await drags.notify(drag.boardId);
+      }
+    })
+  );
+
+  socket.on(
+    'leave_board',
+    handle(async (boardId: number) => {
+      if (!hasJoined(boardId)) {
+        return;
+      }
+
+      socket.leave(`board:${boardId}`);
+      await leaveBoard(boardId);
+    })
+  );
+
+  // Rooms are still populated while disconnecting, unlike in the disconnect event.
+  socket.on('disconnecting', () => {
+    const boardIds = Array.from(socket.rooms)
+      .filter((room) => room.startsWith('board:'))
+      .map((room) => Number(room.slice('board:'.length)));
+    for (const boardId of boardIds) {
+      void leaveBoard(boardId).catch((error: unknown) => console.error(error));
     }
-    joinedBoards.clear();
   });
 });
 
-function notifyBoard(boardId: number, event: string) {
+async function notifyBoard(boardId: number, event: string, payload: BoardEventPayload | null = null) {
+  const version = await nextBoardVersion(boardId);
+  if (version === null) {
+    return;
+  }
+
   io.to(`board:${boardId}`).emit('board_changed', {
     boardId,
     event,
+    version,
+    payload,
     at: new Date().toISOString()
   });
 }
@@ -107,6 +330,150 @@ function notifyUser(userId: number, event: string) {
   });
 }
 
+function notifyUsers(userIds: number[], event: string) {
+  for (const userId of userIds) {
+    notifyUser(userId, event);
+  }
+}
+
+async function evictUserFromBoard(userId: number, boardId: number) {
+  io.in(`user:${userId}`).socketsLeave(`board:${boardId}`);
+
+  await presence.removeUser(boardId, userId);
+  await presence.notify(boardId);
+  await presence.notifyCards(boardId);
+  if (await drags.endUser(boardId, userId)) {
+    await drags.notify(boardId);
+  }
+}
+
+// For a deleted board: every socket leaves its room, across API processes, and its presence and drag locks are dropped.
+async function evictBoard(boardId: number) {
+  io.in(`board:${boardId}`).socketsLeave(`board:${boardId}`);
+  await presence.removeBoard(boardId);
+  await drags.endBoard(boardId);
+}
+
+async function getCardConflict(cardId: number) {
+  const [card] = await loadBoardCards('c.id = $1', [cardId]);
+  return { message: 'This card was changed by someone else. Review the changes and save again.', card: card ?? null };
+}
+
+async function getColumnConflict(columnId: number) {
+  const result = await pool.query('SELECT id, board_id, title, position, wip_limit, wip_mode, version, created_at FROM columns WHERE id = $1', [
+    columnId
+  ]);
+  return { message: 'This column was changed by someone else. Reload and try again.', column: result.rows[0] ?? null };
+}
+
+function sendCardNotCreated(res: express.Response, result: Exclude<InsertCardResult, { status: 'created' }>) {
+  if (result.status === 'column_not_found') {
+    res.status(404).json({ message: 'Column not found' });
+    return;
+  }
+  res.status(409).json({ message: `Column \"${result.column.title}\" has reached its WIP limit of ${result.column.wip_limit}` });
+}
+
+// Logs and broadcasts a committed card, returning the response body. A null actor is shown as "System".
+async function announceCreatedCard(
+  actorUserId: number | null,
+  result: Extract<InsertCardResult, { status: 'created' }>,
+  metadata: Record<string, unknown> = {}
+) {
+  const { card, column, exceedsWipLimit } = result;
+  await logActivity({
+    boardId: card.board_id,
+    actorUserId,
+    entityType: 'card',
+    entityId: card.id,
+    action: 'created',
+    message: `Created card \"${card.title}\"`,
+    metadata: exceedsWipLimit ? { cardId: card.id, ...metadata, wipLimitExceeded: true } : { cardId: card.id, ...metadata }
+  });
+
+  await notifyBoard(card.board_id, 'card_created', await getCardEventPayload(card.id, []));
+  const createdCard = { ...card, assignees: await getCardAssignees(card.id) };
+  return exceedsWipLimit ? { ...createdCard, wipWarning: `Column \"${column.title}\" is over its WIP limit of ${column.wip_limit}` } : createdCard;
+}
+
+async function recordInvitationJoin(boardId: number, user: AuthUser, role: BoardRole) {
+  await logActivity({
+    boardId,
+    actorUserId: user.id,
+    entityType: 'member',
+    entityId: user.id,
+    action: 'joined',
+    message: `${user.email} joined as ${role} via invite link`,
+    metadata: { role, email: user.email }
+  });
+
+  await notifyBoard(boardId, 'member_joined');
+  notifyUser(user.id, 'board_added_to_user');
+}
+
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('not-a-real-password', 10);
+
+function getSessionMeta(req: express.Request): SessionMeta {
+  return { userAgent: req.get('user-agent') ?? null, ipAddress: req.ip ?? null };
+}
+
+async function startSession(user: AuthUser, req: express.Request) {
+  const session = await createSession(user.id, getSessionMeta(req));
+  return { token: signToken(user, session.sessionId), refreshToken: session.refreshToken };
+}
+
+async function sendSignedIn(res: express.Response, user: AuthUser, req: express.Request) {
+  const { token, refreshToken } = await startSession(user, req);
+  res.json({
+    token,
+    refreshToken,
+    user: {
+      ...user,
+      is_admin: isAdminEmail(user.email)
+    }
+  });
+}
+
+function sendLoginBlocked(res: express.Response, block: LoginBlock) {
+  res.setHeader('Retry-After', String(block.retryAfterSeconds));
+  res.status(429).json({
+    message: block.locked
+      ? 'Too many failed login attempts. Sign-in is temporarily locked.'
+      : `Too many failed login attempts. Try again in ${block.retryAfterSeconds} seconds.`,
+    retryAfterSeconds: block.retryAfterSeconds
+  });
+}
+
+function disconnectSessions(sessionIds: number[]) {
+  for (const sessionId of sessionIds) {
+    io.in(`session:${sessionId}`).disconnectSockets(true);
+  }
+}
+
+// A token limited to certain boards sees every other board as one its owner does not belong to.
+async function getRequestBoardRole(req: AuthRequest, boardId: number): Promise<BoardRole | null> {
+  if (req.apiToken?.boardIds && !req.apiToken.boardIds.includes(boardId)) {
+    return null;
+  }
+  return getBoardRole(req.user!.id, boardId);
+}
+
+function requireTokenBoardAccess(req: AuthRequest, res: express.Response, boardId: number): boolean {
+  if (req.apiToken?.boardIds && !req.apiToken.boardIds.includes(boardId)) {
+    res.status(403).json({ message: 'Not authorized for this board' });
+    return false;
+  }
+  return true;
+}
+
+function requireUnrestrictedToken(req: AuthRequest, res: express.Response): boolean {
+  if (req.apiToken?.boardIds) {
+    res.status(403).json({ message: 'This API token is limited to specific boards' });
+    return false;
+  }
+  return true;
+}
+
 function requireAdmin(req: AuthRequest, res: express.Response): boolean {
   const email = req.user?.email;
   if (!email || !isAdminEmail(email)) {
@@ -125,27 +492,74 @@ app.post('/api/auth/register', async (req, res, next) => {
   try {
     const data = registerSchema.parse(req.body);
     const email = data.email.toLowerCase();
+    const ipAddress = req.ip ?? null;
+
+    const block = await getLoginBlock(null, ipAddress);
+    if (block) {
+      res.setHeader('Retry-After', String(block.retryAfterSeconds));
+      res.status(429).json({
+        message: `Too many attempts. Try again in ${block.retryAfterSeconds} seconds.`,
+        retryAfterSeconds: block.retryAfterSeconds
+      });
+      return;
+    }
 
+    // The status still shows the email is taken, so each conflict is throttled per IP like a failed login.
     const existing = await pool.query('SELECT id FROM users WHERE email = $1', [email]);
     if ((existing.rowCount ?? 0) > 0) {
-      res.status(409).json({ message: 'Email already exists' });
+      await recordRegistrationConflict(ipAddress);
+      res.status(400).json({ message: 'Unable to create an account with these details' });
+      return;
+    }
+
+    if (data.inviteToken && !(await findActiveInvitation(data.inviteToken))) {
+      res.status(400).json({ message: 'Invitation is invalid or has expired' });
       return;
     }
 
     const passwordHash = await bcrypt.hash(data.password, 10);
-    const result = await pool.query(
-      'INSERT INTO users(name, email, password_hash) VALUES($1, $2, $3) RETURNING id, name, email',
-      [data.name.trim(), email, passwordHash]
-    );
+    const client = await pool.connect();
+    let user: AuthUser;
+    let joinedBoard: Awaited<ReturnType<typeof consumeInvitation>> = null;
 
-    const user = result.rows[0] as AuthUser;
-    const token = signToken(user);
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        'INSERT INTO users(name, email, password_hash) VALUES($1, $2, $3) RETURNING id, name, email',
+        [data.name.trim(), email, passwordHash]
+      );
+      user = result.rows[0] as AuthUser;
+
+      if (data.inviteToken) {
+        joinedBoard = await consumeInvitation(client, data.inviteToken, user.id);
+        if (!joinedBoard) {
+          await client.query('ROLLBACK');
+          res.status(400).json({ message: 'Invitation is invalid or has expired' });
+          return;
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (joinedBoard) {
+      await recordInvitationJoin(joinedBoard.boardId, user, joinedBoard.role);
+    }
+
+    const { token, refreshToken } = await startSession(user, req);
     res.status(201).json({
       token,
+      refreshToken,
       user: {
         ...user,
         is_admin: isAdminEmail(user.email)
-      }
+      },
+      joinedBoardId: joinedBoard?.boardId ?? null
     });
   } catch (error) {
     next(error);
@@ -156,210 +570,2413 @@ app.post('/api/auth/login', async (req, res, next) => {
   try {
     const data = loginSchema.parse(req.body);
     const email = data.email.toLowerCase();
+    const meta = getSessionMeta(req);
+    const attempt = { email, userId: null as number | null, ipAddress: meta.ipAddress, userAgent: meta.userAgent };
 
-    const result = await pool.query('SELECT id, name, email, password_hash FROM users WHERE email = $1', [email]);
-    if (result.rowCount === 0) {
-      res.status(401).json({ message: 'Invalid credentials' });
+    const block = await getLoginBlock(email, meta.ipAddress);
+    if (block) {
+      await recordLoginFailure(attempt, 'throttled');
+      sendLoginBlocked(res, block);
       return;
     }
 
-    const user = result.rows[0];
-    const matches = await bcrypt.compare(data.password, user.password_hash as string);
-    if (!matches) {
+    const result = await pool.query('SELECT id, name, email, password_hash FROM users WHERE email = $1', [email]);
+    // Unknown emails still pay for a bcrypt comparison so response times do not reveal which accounts exist.
+    const matches = await bcrypt.compare(data.password, (result.rows[0]?.password_hash as string | undefined) ?? DUMMY_PASSWORD_HASH);
+    if (result.rowCount === 0 || !matches) {
+      attempt.userId = (result.rows[0]?.id as number | undefined) ?? null;
+      await recordLoginFailure(attempt, result.rowCount === 0 ? 'unknown_email' : 'wrong_password');
       res.status(401).json({ message: 'Invalid credentials' });
       return;
     }
 
+    const user = result.rows[0];
     const safeUser: AuthUser = {
       id: user.id as number,
       name: user.name as string,
       email: user.email as string
     };
 
-    const token = signToken(safeUser);
-    res.json({
-      token,
-      user: {
-        ...safeUser,
-        is_admin: isAdminEmail(safeUser.email)
-      }
-    });
+    // The failure count stays until the second factor is also passed.
+    if (await isTwoFactorEnabled(safeUser.id)) {
+      res.json({ twoFactorRequired: true, challengeToken: signTwoFactorChallenge(safeUser.id) });
+      return;
+    }
+
+    await clearAccountThrottle(email);
+    await sendSignedIn(res, safeUser, req);
   } catch (error) {
     next(error);
   }
 });
 
-app.get('/api/auth/me', requireAuth, async (req: AuthRequest, res, next) => {
+app.get('/api/auth/oidc', (_req, res) => {
+  res.json({ enabled: oidcEnabled, name: oidcEnabled ? oidcProviderName : null });
+});
+
+app.get('/api/auth/oidc/start', async (_req, res, next) => {
   try {
-    const userId = req.user!.id;
-    const result = await pool.query('SELECT id, name, email, created_at FROM users WHERE id = $1', [userId]);
-    if (result.rowCount === 0) {
-      res.status(404).json({ message: 'User not found' });
+    if (!oidcEnabled) {
+      res.status(404).json({ message: 'Single sign-on is not configured' });
       return;
     }
 
-    res.json({
-      ...result.rows[0],
-      is_admin: isAdminEmail((result.rows[0].email as string) ?? '')
-    });
+    res.redirect(302, await beginOidcLogin());
   } catch (error) {
     next(error);
   }
 });
 
-app.use('/api', requireAuth);
+// The browser lands here from the identity provider, so every outcome redirects back to the web client.
+app.get('/api/auth/oidc/callback', async (req, res) => {
+  const sendToClient = (params: Record<string, string>) => {
+    res.redirect(302, `${appUrl}/?${new URLSearchParams(params).toString()}`);
+  };
 
-app.get('/api/admin/users', async (req: AuthRequest, res, next) => {
   try {
-    if (!requireAdmin(req, res)) {
+    const code = typeof req.query.code === 'string' ? req.query.code : null;
+    const state = typeof req.query.state === 'string' ? req.query.state : null;
+    if (!oidcEnabled || !code || !state) {
+      sendToClient({ sso_error: 'Single sign-on was cancelled or failed.' });
       return;
     }
 
-    const limit = Math.min(Math.max(Number(req.query.limit ?? 200), 1), 500);
-    const result = await pool.query(
-      `SELECT id, name, email, created_at
-       FROM users
-       ORDER BY created_at DESC
-       LIMIT $1`,
-      [limit]
-    );
+    const result = await completeOidcLogin(code, state);
+    if (result.status === 'error') {
+      sendToClient({ sso_error: result.message });
+      return;
+    }
 
-    res.json(
-      result.rows.map((row) => ({
-        ...row,
-        is_admin: isAdminEmail((row.email as string) ?? '')
-      }))
-    );
+    const user = await findOrCreateOidcUser(result.identity);
+    sendToClient({ sso: await createLoginHandoff(user.id) });
   } catch (error) {
-    next(error);
+    console.error(error);
+    sendToClient({ sso_error: 'Single sign-on failed. Please try again.' });
   }
 });
 
-app.get('/api/boards', async (req: AuthRequest, res, next) => {
+app.post('/api/auth/oidc/exchange', async (req, res, next) => {
   try {
-    const userId = req.user!.id;
-    const result = await pool.query(
-      `SELECT b.id, b.name, b.created_at, bm.role
-       FROM boards b
-       JOIN board_members bm ON bm.board_id = b.id
-       WHERE bm.user_id = $1
-       ORDER BY b.id DESC`,
-      [userId]
-    );
+    const data = oidcExchangeSchema.parse(req.body);
+    const user = await consumeLoginHandoff(data.code);
+    if (!user) {
+      res.status(400).json({ message: 'Single sign-on link is invalid or has expired' });
+      return;
+    }
 
-    res.json(result.rows);
+    // Signing in through the identity provider replaces the password, not the second factor.
+    if (await isTwoFactorEnabled(user.id)) {
+      res.json({ twoFactorRequired: true, challengeToken: signTwoFactorChallenge(user.id) });
+      return;
+    }
+
+    await sendSignedIn(res, user, req);
   } catch (error) {
     next(error);
   }
 });
 
-app.post('/api/boards', async (req: AuthRequest, res, next) => {
+app.post('/api/auth/2fa/verify', async (req, res, next) => {
   try {
-    const data = createBoardSchema.parse(req.body);
-    const userId = req.user!.id;
-    const client = await pool.connect();
+    const data = twoFactorVerifySchema.parse(req.body);
 
+    let userId: number;
     try {
-      await client.query('BEGIN');
-      const boardResult = await client.query(
-        'INSERT INTO boards(name, created_by) VALUES($1, $2) RETURNING id, name, created_at',
-        [data.name, userId]
-      );
-      const board = boardResult.rows[0] as { id: number; name: string; created_at: string };
+      userId = verifyTwoFactorChallenge(data.challengeToken);
+    } catch (_error) {
+      res.status(401).json({ message: 'Sign-in challenge is invalid or has expired' });
+      return;
+    }
 
-      await client.query('INSERT INTO board_members(board_id, user_id, role) VALUES($1, $2, $3)', [board.id, userId, 'owner']);
+    const result = await pool.query('SELECT id, name, email FROM users WHERE id = $1', [userId]);
+    if (result.rowCount === 0) {
+      res.status(401).json({ message: 'Sign-in challenge is invalid or has expired' });
+      return;
+    }
 
-      const defaults = ['To Do', 'In Progress', 'Done'];
-      for (let i = 0; i < defaults.length; i += 1) {
-        await client.query('INSERT INTO columns(board_id, title, position) VALUES ($1, $2, $3)', [board.id, defaults[i], (i + 1) * 1000]);
-      }
+    const user = result.rows[0] as AuthUser;
+    const meta = getSessionMeta(req);
+    const attempt = { email: user.email, userId: user.id, ipAddress: meta.ipAddress, userAgent: meta.userAgent };
 
-      await client.query('COMMIT');
-      await logActivity({
-        boardId: board.id,
-        actorUserId: userId,
-        entityType: 'board',
-        entityId: board.id,
-        action: 'created',
-        message: `Created board \"${board.name}\"`
-      });
-      notifyBoard(board.id, 'board_created');
-      notifyUser(userId, 'board_created');
-      res.status(201).json(board);
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+    const block = await getLoginBlock(user.email, meta.ipAddress);
+    if (block) {
+      await recordLoginFailure(attempt, 'throttled');
+      sendLoginBlocked(res, block);
+      return;
+    }
+
+    if (!(await verifyTwoFactorCode(user.id, data.code))) {
+      await recordLoginFailure(attempt, 'wrong_two_factor');
+      res.status(401).json({ message: 'Invalid authentication code' });
+      return;
     }
+
+    await clearAccountThrottle(user.email);
+    await sendSignedIn(res, user, req);
   } catch (error) {
     next(error);
   }
 });
 
-app.get('/api/boards/:boardId', async (req: AuthRequest, res, next) => {
+app.post('/api/auth/refresh', async (req, res, next) => {
   try {
-    const boardId = Number(req.params.boardId);
-    const userId = req.user!.id;
+    const data = refreshTokenSchema.parse(req.body);
+    const session = await rotateSession(data.refreshToken, getSessionMeta(req));
 
-    if (Number.isNaN(boardId)) {
-      res.status(400).json({ message: 'Invalid board id' });
+    if (session.status === 'reused') {
+      disconnectSessions([session.sessionId]);
+      res.status(401).json({ message: 'Refresh token was already used. The session has been signed out.' });
       return;
     }
-
-    const role = await getBoardRole(userId, boardId);
-    if (!role) {
-      res.status(403).json({ message: 'Not authorized for this board' });
+    if (session.status === 'invalid') {
+      res.status(401).json({ message: 'Invalid or expired refresh token' });
       return;
     }
 
-    const boardResult = await pool.query('SELECT id, name, created_at FROM boards WHERE id = $1', [boardId]);
-    if (boardResult.rowCount === 0) {
-      res.status(404).json({ message: 'Board not found' });
+    const result = await pool.query('SELECT id, name, email FROM users WHERE id = $1', [session.userId]);
+    if (result.rowCount === 0) {
+      res.status(401).json({ message: 'User not found' });
       return;
     }
 
-    const columnsResult = await pool.query(
-      'SELECT id, board_id, title, position, created_at FROM columns WHERE board_id = $1 ORDER BY position ASC',
-      [boardId]
-    );
+    res.json({
+      token: signToken(result.rows[0] as AuthUser, session.sessionId),
+      refreshToken: session.refreshToken
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    const cardsResult = await pool.query(
-      `SELECT id, board_id, column_id, title, description, assignee, due_date, position, created_at, updated_at
-       FROM cards
-       WHERE board_id = $1
-       ORDER BY position ASC`,
-      [boardId]
-    );
+app.post('/api/auth/logout', async (req, res, next) => {
+  try {
+    const data = refreshTokenSchema.parse(req.body);
+    const sessionId = await revokeSessionByRefreshToken(data.refreshToken);
+    if (sessionId !== null) {
+      disconnectSessions([sessionId]);
+    }
 
-    const columns = columnsResult.rows as Array<{ id: number; board_id: number; title: string; position: number; created_at: string }>;
-    const cards = cardsResult.rows as Array<{
-      id: number;
-      board_id: number;
-      column_id: number;
-      title: string;
-      description: string;
-      assignee: string | null;
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Always answers the same way so the endpoint cannot be used to discover registered emails.
+app.post('/api/auth/forgot', async (req, res, next) => {
+  try {
+    const data = forgotPasswordSchema.parse(req.body);
+    const email = data.email.toLowerCase();
+
+    const result = await pool.query('SELECT id, name, email FROM users WHERE email = $1', [email]);
+    if ((result.rowCount ?? 0) > 0) {
+      const user = result.rows[0] as AuthUser;
+      const token = await createPasswordResetToken(user.id);
+      await sendMail({
+        to: user.email,
+        subject: 'Reset your Kanban password',
+        text: [
+          `Hi ${user.name},`,
+          '',
+          'Someone asked to reset the password for your Kanban account. Open this link to choose a new one:',
+          `${appUrl}/?reset=${encodeURIComponent(token)}`,
+          '',
+          `The link expires in ${RESET_TOKEN_TTL_MINUTES} minutes. If you did not ask for a reset, you can ignore this email.`
+        ].join('\n')
+      });
+    }
+
+    res.status(202).json({ message: 'If that email is registered, a reset link is on its way.' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/auth/reset', async (req, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const data = resetPasswordSchema.parse(req.body);
+
+    await client.query('BEGIN');
+    const userId = await consumePasswordResetToken(client, data.token);
+    if (userId === null) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ message: 'Reset link is invalid or has expired' });
+      return;
+    }
+
+    const passwordHash = await bcrypt.hash(data.password, 10);
+    const updated = await client.query('UPDATE users SET password_hash = $1 WHERE id = $2 RETURNING email', [passwordHash, userId]);
+    await client.query('COMMIT');
+
+    // Proving control of the inbox also lifts any sign-in lockout.
+    await clearAccountThrottle(updated.rows[0].email as string);
+
+    // Whoever knew the old password should not stay signed in or keep the API tokens they could have minted.
+    disconnectSessions(await revokeUserSessions(userId));
+    await revokeUserApiTokens(userId);
+    res.status(204).send();
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+app.post('/api/auth/change-password', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const data = changePasswordSchema.parse(req.body);
+
+    const result = await pool.query('SELECT password_hash FROM users WHERE id = $1', [userId]);
+    if (result.rowCount === 0) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const matches = await bcrypt.compare(data.currentPassword, result.rows[0].password_hash as string);
+    if (!matches) {
+      res.status(400).json({ message: 'Current password is incorrect' });
+      return;
+    }
+
+    const passwordHash = await bcrypt.hash(data.newPassword, 10);
+    await pool.query('UPDATE users SET password_hash = $1 WHERE id = $2', [passwordHash, userId]);
+    disconnectSessions(await revokeUserSessions(userId, { exceptSessionId: req.sessionId }));
+    await revokeUserApiTokens(userId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/auth/2fa', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    res.json(await getTwoFactorStatus(req.user!.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/auth/2fa/setup', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const secret = await beginTwoFactorSetup(req.user!.id);
+    if (!secret) {
+      res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    res.json({ secret, otpauthUri: buildOtpauthUri(req.user!.email, secret) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/auth/2fa/enable', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const data = twoFactorCodeSchema.parse(req.body);
+    const recoveryCodes = await enableTwoFactor(req.user!.id, data.code);
+    if (!recoveryCodes) {
+      res.status(400).json({ message: 'Invalid authentication code' });
+      return;
+    }
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/auth/2fa/recovery-codes', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const data = twoFactorCodeSchema.parse(req.body);
+    if (!(await verifyTwoFactorCode(req.user!.id, data.code))) {
+      res.status(400).json({ message: 'Invalid authentication code' });
+      return;
+    }
+
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/auth/2fa/disable', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const data = disableTwoFactorSchema.parse(req.body);
+
+    const result = await pool.query('SELECT password_hash FROM users WHERE id = $1', [userId]);
+    if (result.rowCount === 0) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const matches = await bcrypt.compare(data.password, result.rows[0].password_hash as string);
+    if (!matches || !(await verifyTwoFactorCode(userId, data.code))) {
+      res.status(400).json({ message: 'Password or authentication code is incorrect' });
+      return;
+    }
+
+    await disableTwoFactor(userId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/auth/sessions', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+    res.json(sessions.map((session) => ({ ...session, current: session.id === req.sessionId })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/auth/sessions/:sessionId', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const sessionId = Number(req.params.sessionId);
+    if (Number.isNaN(sessionId)) {
+      res.status(400).json({ message: 'Invalid session id' });
+      return;
+    }
+
+    const revoked = await revokeUserSessions(req.user!.id, { sessionId });
+    if (revoked.length === 0) {
+      res.status(404).json({ message: 'Session not found' });
+      return;
+    }
+
+    disconnectSessions(revoked);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/auth/sessions', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const revoked = await revokeUserSessions(req.user!.id, { exceptSessionId: req.sessionId });
+    disconnectSessions(revoked);
+    res.json({ revoked: revoked.length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/auth/tokens', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    res.json(await listApiTokens(req.user!.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/auth/tokens', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const data = createApiTokenSchema.parse(req.body);
+    const boardIds = data.boardIds ? [...new Set(data.boardIds)] : null;
+
+    if (boardIds) {
+      const member = await pool.query('SELECT COUNT(*)::int AS count FROM board_members WHERE user_id = $1 AND board_id = ANY($2)', [
+        userId,
+        boardIds
+      ]);
+      if (member.rows[0].count !== boardIds.length) {
+        res.status(400).json({ message: 'Tokens can only be limited to boards you belong to' });
+        return;
+      }
+    }
+
+    const { token, record } = await createApiToken(userId, {
+      name: data.name,
+      scope: data.scope,
+      boardIds,
+      expiresInDays: data.expiresInDays ?? null
+    });
+    // The plain token is only ever returned here.
+    res.status(201).json({ ...record, token });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/auth/tokens/:tokenId', requireAuth, requireSession, async (req: AuthRequest, res, next) => {
+  try {
+    const tokenId = Number(req.params.tokenId);
+    if (Number.isNaN(tokenId)) {
+      res.status(400).json({ message: 'Invalid token id' });
+      return;
+    }
+
+    if (!(await revokeApiToken(req.user!.id, tokenId))) {
+      res.status(404).json({ message: 'Token not found' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/auth/me', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const result = await pool.query('SELECT id, name, email, created_at FROM users WHERE id = $1', [userId]);
+    if (result.rowCount === 0) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    res.json({
+      ...result.rows[0],
+      is_admin: isAdminEmail((result.rows[0].email as string) ?? '')
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/invitations/:token', async (req, res, next) => {
+  try {
+    const invitation = await findActiveInvitation(req.params.token);
+    if (!invitation) {
+      res.status(404).json({ message: 'Invitation is invalid or has expired' });
+      return;
+    }
+
+    res.json({
+      boardId: invitation.board_id,
+      boardName: invitation.board_name,
+      role: invitation.role,
+      expiresAt: invitation.expires_at
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Authenticated by the secret in the URL instead of a user; cards are created by the "System" actor.
+app.post('/api/hooks/boards/:boardId/:secret/cards', async (req, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    // Checked with a plain query so requests with a wrong secret never hold a pooled client.
+    if (!(await isInboundHookSecretValid(boardId, req.params.secret))) {
+      res.status(404).json({ message: 'Inbound hook not found' });
+      return;
+    }
+
+    const data = inboundCardSchema.parse(req.body);
+    const columnId = await resolveInboundColumn(boardId, data.column);
+    if (columnId === null) {
+      res.status(400).json({ message: 'Column not found on this board' });
+      return;
+    }
+
+    let dueDate: string | null = null;
+    if (typeof data.dueDate === 'string') {
+      dueDate = normalizeDueDate(data.dueDate);
+      if (!dueDate) {
+        res.status(400).json({ message: 'Invalid dueDate. Use YYYY-MM-DD format.' });
+        return;
+      }
+    }
+
+    const { labelIds, unknownLabels } = await resolveInboundLabels(boardId, data.labels ?? []);
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (data.externalId) {
+        const existingCardId = await findCardByExternalId(client, boardId, data.externalId);
+        if (existingCardId !== null) {
+          await client.query('ROLLBACK');
+          const [card] = await loadBoardCards('c.id = $1', [existingCardId]);
+          res.json({ ...(card ?? { id: existingCardId }), duplicate: true });
+          return;
+        }
+      }
+
+      const created = await insertCard(client, {
+        boardId,
+        columnId,
+        title: data.title,
+        description: data.description ?? '',
+        dueDate,
+        createdByUserId: null,
+        assigneeIds: [],
+        labelIds,
+        externalId: data.externalId ?? null
+      });
+      if (created.status !== 'created') {
+        await client.query('ROLLBACK');
+        sendCardNotCreated(res, created);
+        return;
+      }
+
+      await client.query('COMMIT');
+
+      const card = await announceCreatedCard(null, created, { source: 'inbound_hook', externalId: data.externalId ?? null });
+      res.status(201).json(unknownLabels.length > 0 ? { ...card, unknownLabels } : card);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.use('/api', requireAuth);
+
+app.get('/api/admin/users', async (req: AuthRequest, res, next) => {
+  try {
+    if (!requireAdmin(req, res)) {
+      return;
+    }
+
+    const limit = Math.min(Math.max(Number(req.query.limit ?? 200), 1), 500);
+    const result = await pool.query(
+      `SELECT u.id, u.name, u.email, u.created_at,
+              CASE WHEN t.locked_at IS NOT NULL AND t.blocked_until > NOW() THEN t.blocked_until END AS locked_until,
+              (
+                SELECT COUNT(*)::int
+                FROM login_failures f
+                WHERE f.user_id = u.id AND f.reason <> 'throttled' AND f.created_at > NOW() - INTERVAL '24 hours'
+              ) AS failed_logins_24h
+       FROM users u
+       LEFT JOIN login_throttles t ON t.scope = 'account' AND t.key = u.email
+       ORDER BY u.created_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+
+    res.json(
+      result.rows.map((row) => ({
+        ...row,
+        is_admin: isAdminEmail((row.email as string) ?? '')
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/admin/users/:userId/unlock', async (req: AuthRequest, res, next) => {
+  try {
+    if (!requireAdmin(req, res)) {
+      return;
+    }
+
+    const userId = Number(req.params.userId);
+    if (Number.isNaN(userId)) {
+      res.status(400).json({ message: 'Invalid user id' });
+      return;
+    }
+
+    const result = await pool.query('SELECT email FROM users WHERE id = $1', [userId]);
+    if (result.rowCount === 0) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    await clearAccountThrottle(result.rows[0].email as string);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/search', async (req: AuthRequest, res, next) => {
+  try {
+    const query = String(req.query.q ?? '').trim();
+    const limit = Math.min(Math.max(Number(req.query.limit ?? 20), 1), 50);
+
+    if (!query) {
+      res.status(400).json({ message: 'Search query is required' });
+      return;
+    }
+
+    if (query.length > 200) {
+      res.status(400).json({ message: 'Search query is too long' });
+      return;
+    }
+
+    res.json(await searchCards(req.user!.id, query, limit, req.apiToken?.boardIds ?? null));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/boards', async (req: AuthRequest, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const result = await pool.query(
+      `SELECT b.id, b.name, b.created_at, b.archived_at, bm.role
+       FROM boards b
+       JOIN board_members bm ON bm.board_id = b.id
+       WHERE bm.user_id = $1 AND ($2::int[] IS NULL OR b.id = ANY($2))
+       ORDER BY b.id DESC`,
+      [userId, req.apiToken?.boardIds ?? null]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/boards', async (req: AuthRequest, res, next) => {
+  try {
+    if (!requireUnrestrictedToken(req, res)) {
+      return;
+    }
+
+    const data = createBoardSchema.parse(req.body);
+    const userId = req.user!.id;
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const boardResult = await client.query(
+        'INSERT INTO boards(name, created_by) VALUES($1, $2) RETURNING id, name, created_at, archived_at',
+        [data.name, userId]
+      );
+      const board = boardResult.rows[0] as { id: number; name: string; created_at: string; archived_at: string | null };
+
+      await client.query('INSERT INTO board_members(board_id, user_id, role) VALUES($1, $2, $3)', [board.id, userId, 'owner']);
+
+      const defaults = ['To Do', 'In Progress', 'Done'];
+      for (let i = 0; i < defaults.length; i += 1) {
+        await client.query('INSERT INTO columns(board_id, title, position) VALUES ($1, $2, $3)', [board.id, defaults[i], (i + 1) * 1000]);
+      }
+
+      await client.query('COMMIT');
+      await logActivity({
+        boardId: board.id,
+        actorUserId: userId,
+        entityType: 'board',
+        entityId: board.id,
+        action: 'created',
+        message: `Created board \"${board.name}\"`
+      });
+      await notifyBoard(board.id, 'board_created');
+      notifyUser(userId, 'board_created');
+      res.status(201).json(board);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post(BOARD_IMPORT_PATH, express.json({ limit: '25mb' }), async (req: AuthRequest, res, next) => {
+  try {
+    if (!requireUnrestrictedToken(req, res)) {
+      return;
+    }
+
+    const data = importBoardSchema.parse(req.body);
+    const user = req.user!;
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const imported = await importBoard(client, user, data);
+      if (imported.status === 'invalid') {
+        await client.query('ROLLBACK');
+        res.status(400).json({ message: imported.message });
+        return;
+      }
+
+      await client.query('COMMIT');
+      await logActivity({
+        boardId: imported.boardId,
+        actorUserId: user.id,
+        entityType: 'board',
+        entityId: imported.boardId,
+        action: 'imported',
+        message: `Imported board \"${imported.name}\"`,
+        metadata: { invitedMembers: imported.invitedMembers }
+      });
+      notifyUser(user.id, 'board_created');
+      res.status(201).json({ id: imported.boardId, name: imported.name, invitedMembers: imported.invitedMembers });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/boards/:boardId/export', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const { format } = boardExportQuerySchema.parse(req.query);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (!role) {
+      res.status(403).json({ message: 'Not authorized for this board' });
+      return;
+    }
+
+    const nameResult = await pool.query('SELECT name FROM boards WHERE id = $1', [boardId]);
+    const fileName = (nameResult.rows[0].name as string).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'board';
+
+    if (format === 'csv') {
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}-cards.csv"`);
+      res.type('text/csv').send(await exportBoardCardsCsv(boardId));
+      return;
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+    res.json(await exportBoard(boardId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/boards/:boardId', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const filters = boardCardFiltersSchema.parse(req.query);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (!role) {
+      res.status(403).json({ message: 'Not authorized for this board' });
+      return;
+    }
+
+    const boardResult = await pool.query(
+      `SELECT b.id, b.name, b.created_at, b.archived_at, b.version::int AS version, bm.swimlane_group
+       FROM boards b
+       JOIN board_members bm ON bm.board_id = b.id AND bm.user_id = $2
+       WHERE b.id = $1`,
+      [boardId, userId]
+    );
+    if (boardResult.rowCount === 0) {
+      res.status(404).json({ message: 'Board not found' });
+      return;
+    }
+
+    const columnsResult = await pool.query(
+      `SELECT col.id, col.board_id, col.title, col.position, col.wip_limit, col.wip_mode, col.version, col.created_at,
+              (SELECT COUNT(*)::int FROM cards c WHERE c.column_id = col.id AND c.archived_at IS NULL) AS card_count
+       FROM columns col
+       WHERE col.board_id = $1
+       ORDER BY col.position ASC`,
+      [boardId]
+    );
+
+    const cardParams: unknown[] = [boardId];
+    const cardFilterCondition = buildCardFilterCondition(filters, cardParams);
+    const cards = await loadBoardCards(`c.board_id = $1 AND ${cardFilterCondition}`, cardParams);
+
+    const labelsResult = await pool.query('SELECT id, board_id, name, color, created_at FROM labels WHERE board_id = $1 ORDER BY name ASC', [
+      boardId
+    ]);
+
+    const columns = columnsResult.rows as Array<{ id: number; board_id: number; title: string; position: number; created_at: string }>;
+
+    res.json({
+      ...boardResult.rows[0],
+      role,
+      labels: labelsResult.rows,
+      columns: columns.map((column) => ({
+        ...column,
+        cards: cards.filter((card) => card.column_id === column.id)
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.put('/api/boards/:boardId/preferences', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const payload = updateBoardPreferencesSchema.parse(req.body);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    if (!requireTokenBoardAccess(req, res, boardId)) {
+      return;
+    }
+
+    // Preferences are personal, so viewers may change theirs too.
+    const result = await pool.query(
+      `UPDATE board_members
+       SET swimlane_group = $3
+       WHERE board_id = $1 AND user_id = $2
+       RETURNING swimlane_group`,
+      [boardId, userId, payload.swimlaneGroup]
+    );
+    if (result.rowCount === 0) {
+      res.status(403).json({ message: 'Not authorized for this board' });
+      return;
+    }
+
+    res.json({ swimlaneGroup: result.rows[0].swimlane_group });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.patch('/api/boards/:boardId', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const data = updateBoardSchema.parse(req.body);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can update boards' });
+      return;
+    }
+
+    const existingResult = await pool.query('SELECT id, name, created_at, archived_at FROM boards WHERE id = $1', [boardId]);
+    if (existingResult.rowCount === 0) {
+      res.status(404).json({ message: 'Board not found' });
+      return;
+    }
+
+    const existing = existingResult.rows[0] as { id: number; name: string; created_at: string; archived_at: string | null };
+    const nextName = data.name ?? existing.name;
+    const wasArchived = existing.archived_at !== null;
+    const nextArchived = data.archived ?? wasArchived;
+
+    if (nextName === existing.name && nextArchived === wasArchived) {
+      res.json(existing);
+      return;
+    }
+
+    const result = await pool.query(
+      `UPDATE boards
+       SET name = $1,
+           archived_at = CASE WHEN $2::boolean THEN COALESCE(archived_at, NOW()) ELSE NULL END
+       WHERE id = $3
+       RETURNING id, name, created_at, archived_at`,
+      [nextName, nextArchived, boardId]
+    );
+
+    if (nextName !== existing.name) {
+      await logActivity({
+        boardId,
+        actorUserId: userId,
+        entityType: 'board',
+        entityId: boardId,
+        action: 'renamed',
+        message: `Renamed board \"${existing.name}\" to \"${nextName}\"`,
+        metadata: { fromName: existing.name, toName: nextName }
+      });
+    }
+
+    if (nextArchived !== wasArchived) {
+      await logActivity({
+        boardId,
+        actorUserId: userId,
+        entityType: 'board',
+        entityId: boardId,
+        action: nextArchived ? 'archived' : 'unarchived',
+        message: `${nextArchived ? 'Archived' : 'Unarchived'} board \"${nextName}\"`
+      });
+    }
+
+    await notifyBoard(boardId, 'board_updated');
+    notifyUsers(await getBoardMemberIds(boardId), 'board_updated');
+    res.json(result.rows[0]);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/boards/:boardId', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can delete boards' });
+      return;
+    }
+
+    // Members are cascaded away with the board, so collect them first.
+    const memberIds = await getBoardMemberIds(boardId);
+    await evictBoard(boardId);
+    await pool.query('DELETE FROM boards WHERE id = $1', [boardId]);
+
+    notifyUsers(memberIds, 'board_deleted');
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/boards/:boardId/members', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (!role) {
+      res.status(403).json({ message: 'Not authorized for this board' });
+      return;
+    }
+
+    const result = await pool.query(
+      `SELECT u.id, u.name, u.email, bm.role
+       FROM board_members bm
+       JOIN users u ON u.id = bm.user_id
+       WHERE bm.board_id = $1
+       ORDER BY bm.created_at ASC`,
+      [boardId]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/boards/:boardId/activities', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const limit = Math.min(Math.max(Number(req.query.limit ?? 30), 1), 100);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (!role) {
+      res.status(403).json({ message: 'Not authorized for this board' });
+      return;
+    }
+
+    const result = await pool.query(
+      `SELECT a.id, a.board_id, a.actor_user_id, a.entity_type, a.entity_id, a.action, a.message, a.metadata, a.created_at,
+              u.name AS actor_name, u.email AS actor_email
+       FROM activities a
+       LEFT JOIN users u ON u.id = a.actor_user_id
+       WHERE a.board_id = $1
+       ORDER BY a.created_at DESC
+       LIMIT $2`,
+      [boardId, limit]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/cards/:cardId/activities', async (req: AuthRequest, res, next) => {
+  try {
+    const cardId = Number(req.params.cardId);
+    const userId = req.user!.id;
+    const limit = Math.min(Math.max(Number(req.query.limit ?? 30), 1), 100);
+
+    if (Number.isNaN(cardId)) {
+      res.status(400).json({ message: 'Invalid card id' });
+      return;
+    }
+
+    const card = await getCardWithBoard(cardId);
+    if (!card) {
+      res.status(404).json({ message: 'Card not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, card.board_id);
+    if (!role) {
+      res.status(403).json({ message: 'Not authorized for this board' });
+      return;
+    }
+
+    const result = await pool.query(
+      `SELECT a.id, a.board_id, a.actor_user_id, a.entity_type, a.entity_id, a.action, a.message, a.metadata, a.created_at,
+              u.name AS actor_name, u.email AS actor_email
+       FROM activities a
+       LEFT JOIN users u ON u.id = a.actor_user_id
+       WHERE a.board_id = $1
+         AND (
+           (a.entity_type = 'card' AND a.entity_id = $2)
+           OR (
+             a.metadata ? 'cardId'
+             AND (a.metadata->>'cardId') ~ '^[0-9]+$'
+             AND (a.metadata->>'cardId')::int = $2
+           )
+         )
+       ORDER BY a.created_at DESC
+       LIMIT $3`,
+      [card.board_id, cardId, limit]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/boards/:boardId/members', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const data = addMemberSchema.parse(req.body);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can add members' });
+      return;
+    }
+
+    const userResult = await pool.query('SELECT id, name, email FROM users WHERE email = $1', [data.email.toLowerCase()]);
+    if (userResult.rowCount === 0) {
+      res.status(404).json({ message: 'User with this email does not exist' });
+      return;
+    }
+
+    const targetUser = userResult.rows[0] as { id: number; name: string; email: string };
+    const upsertResult = await pool.query(
+      `INSERT INTO board_members(board_id, user_id, role)
+       VALUES($1, $2, $3)
+       ON CONFLICT (board_id, user_id)
+       DO UPDATE SET role = EXCLUDED.role
+       WHERE board_members.role <> 'owner'`,
+      [boardId, targetUser.id, data.role]
+    );
+
+    if (upsertResult.rowCount === 0) {
+      res.status(409).json({ message: 'User is already a board owner. Change owner roles from the member list.' });
+      return;
+    }
+
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'member',
+      entityId: targetUser.id,
+      action: 'added',
+      message: `Added ${targetUser.email} as ${data.role}`,
+      metadata: { role: data.role, email: targetUser.email }
+    });
+
+    await notifyBoard(boardId, 'member_added');
+    notifyUser(targetUser.id, 'board_added_to_user');
+    res.status(201).json({ message: 'Member added' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.patch('/api/boards/:boardId/members/:userId', async (req: AuthRequest, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const boardId = Number(req.params.boardId);
+    const targetUserId = Number(req.params.userId);
+    const userId = req.user!.id;
+    const data = updateMemberSchema.parse(req.body);
+
+    if (Number.isNaN(boardId) || Number.isNaN(targetUserId)) {
+      res.status(400).json({ message: 'Invalid board or user id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can change member roles' });
+      return;
+    }
+
+    await client.query('BEGIN');
+    const ownerIds = await lockBoardOwners(client, boardId);
+
+    const memberResult = await client.query(
+      `SELECT u.id, u.email, bm.role
+       FROM board_members bm
+       JOIN users u ON u.id = bm.user_id
+       WHERE bm.board_id = $1 AND bm.user_id = $2`,
+      [boardId, targetUserId]
+    );
+    if (memberResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ message: 'Member not found' });
+      return;
+    }
+
+    const member = memberResult.rows[0] as { id: number; email: string; role: string };
+    if (member.role === data.role) {
+      await client.query('ROLLBACK');
+      res.json({ id: member.id, role: member.role });
+      return;
+    }
+
+    if (member.role === 'owner' && ownerIds.length <= 1) {
+      await client.query('ROLLBACK');
+      res.status(409).json({ message: 'A board must keep at least one owner' });
+      return;
+    }
+
+    await client.query('UPDATE board_members SET role = $1 WHERE board_id = $2 AND user_id = $3', [data.role, boardId, targetUserId]);
+    await client.query('COMMIT');
+
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'member',
+      entityId: targetUserId,
+      action: 'role_changed',
+      message: `Changed ${member.email} from ${member.role} to ${data.role}`,
+      metadata: { fromRole: member.role, toRole: data.role, email: member.email }
+    });
+
+    await notifyBoard(boardId, 'member_updated');
+    notifyUser(targetUserId, 'board_role_changed');
+    res.json({ id: targetUserId, role: data.role });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+app.delete('/api/boards/:boardId/members/:userId', async (req: AuthRequest, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const boardId = Number(req.params.boardId);
+    const targetUserId = Number(req.params.userId);
+    const userId = req.user!.id;
+    const isLeaving = targetUserId === userId;
+
+    if (Number.isNaN(boardId) || Number.isNaN(targetUserId)) {
+      res.status(400).json({ message: 'Invalid board or user id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (!role) {
+      res.status(403).json({ message: 'Not authorized for this board' });
+      return;
+    }
+
+    if (!isLeaving && role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can remove members' });
+      return;
+    }
+
+    await client.query('BEGIN');
+    const ownerIds = await lockBoardOwners(client, boardId);
+
+    const memberResult = await client.query(
+      `SELECT u.id, u.email, bm.role
+       FROM board_members bm
+       JOIN users u ON u.id = bm.user_id
+       WHERE bm.board_id = $1 AND bm.user_id = $2`,
+      [boardId, targetUserId]
+    );
+    if (memberResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ message: 'Member not found' });
+      return;
+    }
+
+    const member = memberResult.rows[0] as { id: number; email: string; role: string };
+    if (member.role === 'owner' && ownerIds.length <= 1) {
+      await client.query('ROLLBACK');
+      res.status(409).json({ message: 'Transfer ownership to another member before leaving this board' });
+      return;
+    }
+
+    await client.query('DELETE FROM board_members WHERE board_id = $1 AND user_id = $2', [boardId, targetUserId]);
+    await unassignBoardMember(client, boardId, targetUserId);
+    await client.query('COMMIT');
+
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'member',
+      entityId: targetUserId,
+      action: isLeaving ? 'left' : 'removed',
+      message: isLeaving ? `${member.email} left the board` : `Removed ${member.email} from the board`,
+      metadata: { role: member.role, email: member.email }
+    });
+
+    await evictUserFromBoard(targetUserId, boardId);
+    await notifyBoard(boardId, isLeaving ? 'member_left' : 'member_removed');
+    notifyUser(targetUserId, 'board_removed_from_user');
+    res.status(204).send();
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+app.post('/api/boards/:boardId/transfer-ownership', async (req: AuthRequest, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const data = transferOwnershipSchema.parse(req.body);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can transfer ownership' });
+      return;
+    }
+
+    if (data.userId === userId) {
+      res.status(400).json({ message: 'Choose another member to transfer ownership to' });
+      return;
+    }
+
+    await client.query('BEGIN');
+    await lockBoardOwners(client, boardId);
+
+    const memberResult = await client.query(
+      `SELECT u.id, u.email, bm.role
+       FROM board_members bm
+       JOIN users u ON u.id = bm.user_id
+       WHERE bm.board_id = $1 AND bm.user_id = $2`,
+      [boardId, data.userId]
+    );
+    if (memberResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ message: 'Member not found' });
+      return;
+    }
+
+    const member = memberResult.rows[0] as { id: number; email: string; role: string };
+    await client.query("UPDATE board_members SET role = 'owner' WHERE board_id = $1 AND user_id = $2", [boardId, data.userId]);
+    if (data.leave) {
+      await client.query('DELETE FROM board_members WHERE board_id = $1 AND user_id = $2', [boardId, userId]);
+      await unassignBoardMember(client, boardId, userId);
+    } else {
+      await client.query("UPDATE board_members SET role = 'member' WHERE board_id = $1 AND user_id = $2", [boardId, userId]);
+    }
+    await client.query('COMMIT');
+
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'member',
+      entityId: data.userId,
+      action: 'ownership_transferred',
+      message: `Transferred ownership to ${member.email}`,
+      metadata: { email: member.email, fromRole: member.role, previousOwnerLeft: Boolean(data.leave) }
+    });
+
+    if (data.leave) {
+      await evictUserFromBoard(userId, boardId);
+    }
+
+    await notifyBoard(boardId, 'ownership_transferred');
+    notifyUser(data.userId, 'board_role_changed');
+    notifyUser(userId, data.leave ? 'board_removed_from_user' : 'board_role_changed');
+    res.json({ ownerId: data.userId, previousOwnerLeft: Boolean(data.leave) });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+app.get('/api/boards/:boardId/invitations', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage invitations' });
+      return;
+    }
+
+    const result = await pool.query(
+      `SELECT i.id, i.board_id, i.token, i.role, i.expires_at, i.max_uses, i.use_count, i.created_at,
+              u.name AS created_by_name
+       FROM board_invitations i
+       LEFT JOIN users u ON u.id = i.created_by
+       WHERE i.board_id = $1
+         AND i.revoked_at IS NULL
+         AND (i.expires_at IS NULL OR i.expires_at > NOW())
+         AND (i.max_uses IS NULL OR i.use_count < i.max_uses)
+       ORDER BY i.created_at DESC`,
+      [boardId]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/boards/:boardId/invitations', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const data = createInvitationSchema.parse(req.body);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage invitations' });
+      return;
+    }
+
+    const invitation = await createInvitation(pool, boardId, userId, {
+      role: data.role,
+      expiresInHours: data.expiresInHours ?? null,
+      maxUses: data.maxUses ?? null
+    });
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'invitation',
+      entityId: invitation.id,
+      action: 'created',
+      message: `Created a ${invitation.role} invite link`,
+      metadata: { role: invitation.role, expiresInHours: data.expiresInHours ?? null, maxUses: data.maxUses ?? null }
+    });
+
+    await notifyBoard(boardId, 'invitation_created');
+    res.status(201).json(invitation);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/invitations/:invitationId', async (req: AuthRequest, res, next) => {
+  try {
+    const invitationId = Number(req.params.invitationId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(invitationId)) {
+      res.status(400).json({ message: 'Invalid invitation id' });
+      return;
+    }
+
+    const invitationResult = await pool.query('SELECT id, board_id, role FROM board_invitations WHERE id = $1', [invitationId]);
+    if (invitationResult.rowCount === 0) {
+      res.status(404).json({ message: 'Invitation not found' });
+      return;
+    }
+
+    const invitation = invitationResult.rows[0] as { id: number; board_id: number; role: string };
+    const role = await getRequestBoardRole(req, invitation.board_id);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage invitations' });
+      return;
+    }
+
+    await pool.query('UPDATE board_invitations SET revoked_at = COALESCE(revoked_at, NOW()) WHERE id = $1', [invitationId]);
+
+    await logActivity({
+      boardId: invitation.board_id,
+      actorUserId: userId,
+      entityType: 'invitation',
+      entityId: invitationId,
+      action: 'revoked',
+      message: `Revoked a ${invitation.role} invite link`
+    });
+
+    await notifyBoard(invitation.board_id, 'invitation_revoked');
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/boards/:boardId/webhooks', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    res.json(await listWebhooks(boardId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/boards/:boardId/webhooks', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const data = createWebhookSchema.parse(req.body);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    const webhook = await createWebhook(boardId, userId, { url: data.url, secret: data.secret ?? null, events: data.events ?? [] });
+
+    // Only the host is logged: chat webhook URLs often carry their own secret, and every member can read activity.
+    const host = new URL(webhook.url).host;
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'webhook',
+      entityId: webhook.id,
+      action: 'created',
+      message: `Added a webhook to ${host}`,
+      metadata: { host, events: webhook.events }
+    });
+
+    res.status(201).json(webhook);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.patch('/api/webhooks/:webhookId', async (req: AuthRequest, res, next) => {
+  try {
+    const webhookId = Number(req.params.webhookId);
+    const data = updateWebhookSchema.parse(req.body);
+
+    if (Number.isNaN(webhookId)) {
+      res.status(400).json({ message: 'Invalid webhook id' });
+      return;
+    }
+
+    const boardId = await getWebhookBoardId(webhookId);
+    if (boardId === null) {
+      res.status(404).json({ message: 'Webhook not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    const updated = await updateWebhook(webhookId, data);
+    if (!updated) {
+      res.status(404).json({ message: 'Webhook not found' });
+      return;
+    }
+
+    const { webhook, previousUrl } = updated;
+    const previousHost = new URL(previousUrl).host;
+    const host = new URL(webhook.url).host;
+    await logActivity({
+      boardId,
+      actorUserId: req.user!.id,
+      entityType: 'webhook',
+      entityId: webhook.id,
+      action: 'updated',
+      message: webhook.url === previousUrl ? 'Updated a webhook' : `Pointed a webhook from ${previousHost} to ${host}`,
+      metadata: { previousHost, host, urlChanged: webhook.url !== previousUrl, events: webhook.events, active: webhook.active }
+    });
+
+    res.json(webhook);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/webhooks/:webhookId', async (req: AuthRequest, res, next) => {
+  try {
+    const webhookId = Number(req.params.webhookId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(webhookId)) {
+      res.status(400).json({ message: 'Invalid webhook id' });
+      return;
+    }
+
+    const boardId = await getWebhookBoardId(webhookId);
+    if (boardId === null) {
+      res.status(404).json({ message: 'Webhook not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    await deleteWebhook(webhookId);
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'webhook',
+      entityId: webhookId,
+      action: 'deleted',
+      message: 'Removed a webhook'
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/webhooks/:webhookId/deliveries', async (req: AuthRequest, res, next) => {
+  try {
+    const webhookId = Number(req.params.webhookId);
+
+    if (Number.isNaN(webhookId)) {
+      res.status(400).json({ message: 'Invalid webhook id' });
+      return;
+    }
+
+    const boardId = await getWebhookBoardId(webhookId);
+    if (boardId === null) {
+      res.status(404).json({ message: 'Webhook not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    res.json(await listWebhookDeliveries(webhookId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/webhook-deliveries/:deliveryId/redeliver', async (req: AuthRequest, res, next) => {
+  try {
+    const deliveryId = Number(req.params.deliveryId);
+
+    if (Number.isNaN(deliveryId)) {
+      res.status(400).json({ message: 'Invalid delivery id' });
+      return;
+    }
+
+    const boardId = await getDeliveryBoardId(deliveryId);
+    if (boardId === null) {
+      res.status(404).json({ message: 'Delivery not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    res.status(201).json(await redeliverWebhookDelivery(deliveryId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get('/api/boards/:boardId/inbound-hook', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    res.json(await getInboundHookStatus(boardId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/boards/:boardId/inbound-hook', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    const wasEnabled = (await getInboundHookStatus(boardId)).enabled;
+    const { secret, created_at } = await rotateInboundHookSecret(boardId, userId);
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'inbound_hook',
+      entityId: null,
+      action: wasEnabled ? 'rotated' : 'created',
+      message: wasEnabled ? 'Replaced the inbound card hook URL' : 'Enabled the inbound card hook'
+    });
+
+    res.status(201).json({ enabled: true, created_at, path: getInboundHookPath(boardId, secret) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/boards/:boardId/inbound-hook', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (role !== 'owner') {
+      res.status(403).json({ message: 'Only board owners can manage webhooks' });
+      return;
+    }
+
+    if (await deleteInboundHook(boardId)) {
+      await logActivity({
+        boardId,
+        actorUserId: userId,
+        entityType: 'inbound_hook',
+        entityId: null,
+        action: 'deleted',
+        message: 'Disabled the inbound card hook'
+      });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/invitations/:token/accept', async (req: AuthRequest, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const user = req.user!;
+    if (!requireUnrestrictedToken(req, res)) {
+      return;
+    }
+
+    await client.query('BEGIN');
+    const joinedBoard = await consumeInvitation(client, String(req.params.token), user.id);
+    if (!joinedBoard) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ message: 'Invitation is invalid or has expired' });
+      return;
+    }
+    await client.query('COMMIT');
+
+    if (joinedBoard.joined) {
+      await recordInvitationJoin(joinedBoard.boardId, user, joinedBoard.role);
+    }
+
+    res.json({ boardId: joinedBoard.boardId, role: joinedBoard.role, joined: joinedBoard.joined });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+app.post('/api/boards/:boardId/columns', async (req: AuthRequest, res, next) => {
+  try {
+    const boardId = Number(req.params.boardId);
+    const userId = req.user!.id;
+    const data = createColumnSchema.parse(req.body);
+
+    if (Number.isNaN(boardId)) {
+      res.status(400).json({ message: 'Invalid board id' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, boardId);
+    if (!role) {
+      res.status(403).json({ message: 'Not authorized for this board' });
+      return;
+    }
+
+    if (!canWrite(role)) {
+      res.status(403).json({ message: 'Board role cannot modify columns' });
+      return;
+    }
+
+    const maxPositionResult = await pool.query('SELECT COALESCE(MAX(position), 0) AS max_position FROM columns WHERE board_id = $1', [boardId]);
+    const position = Number(maxPositionResult.rows[0].max_position) + 1000;
+
+    const result = await pool.query(
+      'INSERT INTO columns(board_id, title, position) VALUES($1, $2, $3) RETURNING id, board_id, title, position, wip_limit, wip_mode, version, created_at',
+      [boardId, data.title, position]
+    );
+
+    const column = result.rows[0] as { id: number; title: string };
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'column',
+      entityId: column.id,
+      action: 'created',
+      message: `Created column \"${column.title}\"`
+    });
+
+    await notifyBoard(boardId, 'column_created', { column: { ...result.rows[0], card_count: 0, cards: [] } });
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.patch('/api/columns/:columnId', async (req: AuthRequest, res, next) => {
+  try {
+    const columnId = Number(req.params.columnId);
+    const userId = req.user!.id;
+    const data = updateColumnSchema.parse(req.body);
+
+    if (Number.isNaN(columnId)) {
+      res.status(400).json({ message: 'Invalid column id' });
+      return;
+    }
+
+    const existingResult = await pool.query('SELECT id, board_id, title, position, wip_limit, wip_mode, version FROM columns WHERE id = $1', [
+      columnId
+    ]);
+    if (existingResult.rowCount === 0) {
+      res.status(404).json({ message: 'Column not found' });
+      return;
+    }
+
+    const existing = existingResult.rows[0] as {
+      id: number;
+      board_id: number;
+      title: string;
+      position: number;
+      wip_limit: number | null;
+      wip_mode: 'block' | 'warn';
+      version: number;
+    };
+    const role = await getRequestBoardRole(req, existing.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to modify this column' });
+      return;
+    }
+
+    if (data.version !== undefined && data.version !== existing.version) {
+      res.status(409).json(await getColumnConflict(columnId));
+      return;
+    }
+
+    const title = data.title ?? existing.title;
+    const position = data.position ?? existing.position;
+    const wipLimit = data.wipLimit === undefined ? existing.wip_limit : data.wipLimit;
+    const wipMode = data.wipMode ?? existing.wip_mode;
+    const wipChanged = wipLimit !== existing.wip_limit || wipMode !== existing.wip_mode;
+    const hasColumnChanges = title !== existing.title || position !== existing.position || wipChanged;
+
+    if (!hasColumnChanges) {
+      const unchangedResult = await pool.query(
+        'SELECT id, board_id, title, position, wip_limit, wip_mode, version, created_at FROM columns WHERE id = $1',
+        [columnId]
+      );
+      res.json(unchangedResult.rows[0]);
+      return;
+    }
+
+    const result = await pool.query(
+      `UPDATE columns SET title = $1, position = $2, wip_limit = $3, wip_mode = $4, version = version + 1
+       WHERE id = $5 AND version = $6
+       RETURNING id, board_id, title, position, wip_limit, wip_mode, version, created_at`,
+      [title, position, wipLimit, wipMode, columnId, existing.version]
+    );
+    if (result.rowCount === 0) {
+      res.status(409).json(await getColumnConflict(columnId));
+      return;
+    }
+
+    await logActivity({
+      boardId: existing.board_id,
+      actorUserId: userId,
+      entityType: 'column',
+      entityId: columnId,
+      action: 'updated',
+      message: wipChanged
+        ? `Set WIP limit of column \"${title}\" to ${wipLimit === null ? 'none' : `${wipLimit} (${wipMode})`}`
+        : `Updated column \"${title}\"`,
+      metadata: wipChanged ? { wipLimit, wipMode } : undefined
+    });
+
+    await notifyBoard(existing.board_id, 'column_updated', { column: result.rows[0] });
+    res.json(result.rows[0]);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/columns/:columnId', async (req: AuthRequest, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const columnId = Number(req.params.columnId);
+    const userId = req.user!.id;
+    const data = deleteColumnSchema.parse(req.body);
+
+    if (Number.isNaN(columnId)) {
+      res.status(400).json({ message: 'Invalid column id' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const columnResult = await client.query('SELECT id, board_id, title FROM columns WHERE id = $1 FOR UPDATE', [columnId]);
+    if (columnResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ message: 'Column not found' });
+      return;
+    }
+
+    const column = columnResult.rows[0] as { id: number; board_id: number; title: string };
+    const role = await getRequestBoardRole(req, column.board_id);
+    if (!role || !canWrite(role)) {
+      await client.query('ROLLBACK');
+      res.status(403).json({ message: 'Not authorized to delete this column' });
+      return;
+    }
+
+    const sourceIds = await getColumnCardIds(client, columnId);
+    let targetColumnTitle: string | null = null;
+
+    if (data.mode === 'move') {
+      const targetColumn = data.targetColumnId === columnId ? null : await lockColumnWipState(client, data.targetColumnId);
+      if (!targetColumn || targetColumn.board_id !== column.board_id) {
+        await client.query('ROLLBACK');
+        res.status(400).json({ message: 'Target column is invalid for this board' });
+        return;
+      }
+
+      if (
+        targetColumn.wip_mode === 'block' &&
+        targetColumn.wip_limit !== null &&
+        sourceIds.length > 0 &&
+        targetColumn.card_count + sourceIds.length > targetColumn.wip_limit
+      ) {
+        await client.query('ROLLBACK');
+        res.status(409).json({
+          message: `Moving ${sourceIds.length} card(s) would put column \"${targetColumn.title}\" over its WIP limit of ${targetColumn.wip_limit}`
+        });
+        return;
+      }
+
+      targetColumnTitle = targetColumn.title;
+      const targetIds = await getColumnCardIds(client, data.targetColumnId);
+      await client.query('UPDATE cards SET column_id = $1 WHERE column_id = $2', [data.targetColumnId, columnId]);
+      await renumberCards(client, [...targetIds, ...sourceIds]);
+    } else {
+      await client.query('UPDATE cards SET column_id = NULL, archived_at = NOW() WHERE column_id = $1', [columnId]);
+    }
+
+    await client.query('DELETE FROM columns WHERE id = $1', [columnId]);
+    await client.query('COMMIT');
+
+    const message =
+      data.mode === 'move'
+        ? `Deleted column \"${column.title}\" and moved ${sourceIds.length} card(s) to \"${targetColumnTitle}\"`
+        : `Deleted column \"${column.title}\" and archived ${sourceIds.length} card(s)`;
+
+    await logActivity({
+      boardId: column.board_id,
+      actorUserId: userId,
+      entityType: 'column',
+      entityId: columnId,
+      action: 'deleted',
+      message,
+      metadata: {
+        mode: data.mode,
+        cardIds: sourceIds,
+        targetColumnId: data.mode === 'move' ? data.targetColumnId : null,
+        targetColumnTitle
+      }
+    });
+
+    const targetColumnId = data.mode === 'move' ? data.targetColumnId : null;
+    await notifyBoard(column.board_id, 'column_deleted', await getColumnDeletedPayload(columnId, targetColumnId));
+    res.status(204).send();
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+app.post('/api/columns/:columnId/cards', async (req: AuthRequest, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const columnId = Number(req.params.columnId);
+    const userId = req.user!.id;
+    const data = createCardSchema.parse(req.body);
+
+    if (Number.isNaN(columnId)) {
+      res.status(400).json({ message: 'Invalid column id' });
+      return;
+    }
+
+    const columnResult = await pool.query('SELECT id, board_id FROM columns WHERE id = $1', [columnId]);
+    if (columnResult.rowCount === 0) {
+      res.status(404).json({ message: 'Column not found' });
+      return;
+    }
+
+    const boardId = columnResult.rows[0].board_id as number;
+    const role = await getRequestBoardRole(req, boardId);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to add cards' });
+      return;
+    }
+
+    let dueDate: string | null = null;
+    if (typeof data.dueDate === 'string') {
+      dueDate = normalizeDueDate(data.dueDate);
+      if (!dueDate) {
+        res.status(400).json({ message: 'Invalid dueDate. Use YYYY-MM-DD format.' });
+        return;
+      }
+    }
+
+    const assigneeIds = await normalizeBoardAssigneeIds(boardId, data.assigneeIds ?? []);
+    if (!assigneeIds) {
+      res.status(400).json({ message: 'Assignees must be existing board members.' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const created = await insertCard(client, {
+      boardId,
+      columnId,
+      title: data.title,
+      description: data.description ?? '',
+      dueDate,
+      createdByUserId: userId,
+      assigneeIds
+    });
+    if (created.status !== 'created') {
+      await client.query('ROLLBACK');
+      sendCardNotCreated(res, created);
+      return;
+    }
+
+    await client.query('COMMIT');
+
+    res.status(201).json(await announceCreatedCard(userId, created));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+app.patch('/api/cards/:cardId', async (req: AuthRequest, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const cardId = Number(req.params.cardId);
+    const userId = req.user!.id;
+    const data = updateCardSchema.parse(req.body);
+
+    if (Number.isNaN(cardId)) {
+      res.status(400).json({ message: 'Invalid card id' });
+      return;
+    }
+
+    const existingResult = await pool.query(
+      'SELECT id, board_id, column_id, title, description, due_date, version FROM cards WHERE id = $1',
+      [cardId]
+    );
+
+    if (existingResult.rowCount === 0) {
+      res.status(404).json({ message: 'Card not found' });
+      return;
+    }
+
+    const existing = existingResult.rows[0] as {
+      id: number;
+      board_id: number;
+      column_id: number;
+      title: string;
+      description: string;
       due_date: string | null;
-      position: number;
-      created_at: string;
-      updated_at: string;
-    }>;
+      version: number;
+    };
+
+    const role = await getRequestBoardRole(req, existing.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to update cards' });
+      return;
+    }
+
+    if (data.version !== undefined && data.version !== existing.version) {
+      res.status(409).json(await getCardConflict(cardId));
+      return;
+    }
+
+    const nextTitle = data.title ?? existing.title;
+    const nextDescription = data.description ?? existing.description;
+    const existingAssigneeIds = (await getCardAssignees(cardId)).map((assignee) => assignee.id).sort((a, b) => a - b);
+    let nextAssigneeIds = existingAssigneeIds;
+    if (data.assigneeIds !== undefined) {
+      const normalizedAssigneeIds = await normalizeBoardAssigneeIds(existing.board_id, data.assigneeIds);
+      if (!normalizedAssigneeIds) {
+        res.status(400).json({ message: 'Assignees must be existing board members.' });
+        return;
+      }
+      nextAssigneeIds = normalizedAssigneeIds;
+    }
+    const assigneesChanged = nextAssigneeIds.join(',') !== existingAssigneeIds.join(',');
+
+    let nextDueDate = existing.due_date;
+    if (data.dueDate !== undefined) {
+      if (data.dueDate === null || data.dueDate.trim() === '') {
+        nextDueDate = null;
+      } else {
+        const normalizedDueDate = normalizeDueDate(data.dueDate);
+        if (!normalizedDueDate) {
+          res.status(400).json({ message: 'Invalid dueDate. Use YYYY-MM-DD format.' });
+          return;
+        }
+        nextDueDate = normalizedDueDate;
+      }
+    }
+
+    const hasCardChanges =
+      nextTitle !== existing.title ||
+      nextDescription !== existing.description ||
+      assigneesChanged ||
+      nextDueDate !== existing.due_date;
+
+    if (!hasCardChanges) {
+      const unchangedResult = await pool.query(
+        `SELECT id, board_id, column_id, title, description, due_date, position, created_by_user_id, version, created_at, updated_at
+         FROM cards
+         WHERE id = $1`,
+        [cardId]
+      );
+      res.json({ ...unchangedResult.rows[0], assignees: await getCardAssignees(cardId) });
+      return;
+    }
+
+    await client.query('BEGIN');
+    // Guarding on the version read above keeps a concurrent edit from being overwritten between read and write.
+    const result = await client.query(
+      `UPDATE cards
+       SET title = $1, description = $2, due_date = $3, version = version + 1
+       WHERE id = $4 AND version = $5
+       RETURNING id, board_id, column_id, title, description, due_date, position, created_by_user_id, version, created_at, updated_at`,
+      [nextTitle, nextDescription, nextDueDate, cardId, existing.version]
+    );
+    if (result.rowCount === 0) {
+      await client.query('ROLLBACK');
+      res.status(409).json(await getCardConflict(cardId));
+      return;
+    }
+    if (assigneesChanged) {
+      await replaceCardAssignees(client, cardId, nextAssigneeIds);
+    }
+    await client.query('COMMIT');
+
+    await logActivity({
+      boardId: existing.board_id,
+      actorUserId: userId,
+      entityType: 'card',
+      entityId: cardId,
+      action: 'updated',
+      message: `Updated card \"${nextTitle}\"`,
+      metadata: assigneesChanged ? { cardId, assigneeIds: nextAssigneeIds } : { cardId }
+    });
+
+    await notifyBoard(existing.board_id, 'card_updated', await getCardEventPayload(cardId, []));
+    res.json({ ...result.rows[0], assignees: await getCardAssignees(cardId) });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    next(error);
+  } finally {
+    client.release();
+  }
+});
+
+app.delete('/api/cards/:cardId', async (req: AuthRequest, res, next) => {
+  try {
+    const cardId = Number(req.params.cardId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(cardId)) {
+      res.status(400).json({ message: 'Invalid card id' });
+      return;
+    }
+
+    const existingResult = await pool.query('SELECT id, board_id, column_id, title FROM cards WHERE id = $1', [cardId]);
+    if (existingResult.rowCount === 0) {
+      res.status(404).json({ message: 'Card not found' });
+      return;
+    }
+
+    const existing = existingResult.rows[0] as { id: number; board_id: number; column_id: number | null; title: string };
+    const role = await getRequestBoardRole(req, existing.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to delete cards' });
+      return;
+    }
+
+    await pool.query('DELETE FROM cards WHERE id = $1', [cardId]);
+
+    await logActivity({
+      boardId: existing.board_id,
+      actorUserId: userId,
+      entityType: 'card',
+      entityId: cardId,
+      action: 'deleted',
+      message: `Deleted card \"${existing.title}\"`,
+      metadata: { cardId }
+    });
+
+    await notifyBoard(existing.board_id, 'card_deleted', await getCardEventPayload(cardId, [existing.column_id]));
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/cards/:cardId/move', async (req: AuthRequest, res, next) => {
+  const client = await pool.connect();
+
+  try {
+    const cardId = Number(req.params.cardId);
+    const userId = req.user!.id;
+    const data = moveCardSchema.parse(req.body);
+
+    if (Number.isNaN(cardId)) {
+      res.status(400).json({ message: 'Invalid card id' });
+      return;
+    }
+
+    await client.query('BEGIN');
+
+    const cardResult = await client.query('SELECT id, board_id, column_id, title FROM cards WHERE id = $1 FOR UPDATE', [cardId]);
+    if (cardResult.rowCount === 0) {
+      await client.query('ROLLBACK');
+      res.status(404).json({ message: 'Card not found' });
+      return;
+    }
+
+    const card = cardResult.rows[0] as { id: number; board_id: number; column_id: number; title: string };
+
+    const role = await getRequestBoardRole(req, card.board_id);
+    if (!role || !canWrite(role)) {
+      await client.query('ROLLBACK');
+      res.status(403).json({ message: 'Not authorized to move cards' });
+      return;
+    }
+
+    const lockedBy = await drags.lockedBy(card.board_id, cardId);
+    if (lockedBy !== null && lockedBy !== userId) {
+      await client.query('ROLLBACK');
+      res.status(409).json({ message: 'Another member is moving this card', lockedBy });
+      return;
+    }
+
+    const sourceColumnResult = await client.query('SELECT id, board_id, title FROM columns WHERE id = $1', [card.column_id]);
+    if (sourceColumnResult.rowCount === 0 || sourceColumnResult.rows[0].board_id !== card.board_id) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ message: 'Source column is invalid for this board' });
+      return;
+    }
+
+    const targetColumn = await lockColumnWipState(client, data.toColumnId);
+    if (!targetColumn || targetColumn.board_id !== card.board_id) {
+      await client.query('ROLLBACK');
+      res.status(400).json({ message: 'Target column is invalid for this board' });
+      return;
+    }
+    const fromColumnTitle = sourceColumnResult.rows[0].title as string;
+    const toColumnTitle = targetColumn.title;
+
+    const exceedsWipLimit = data.toColumnId !== card.column_id && isAtWipLimit(targetColumn);
+    if (exceedsWipLimit && targetColumn.wip_mode === 'block') {
+      await client.query('ROLLBACK');
+      res.status(409).json({ message: `Column \"${toColumnTitle}\" has reached its WIP limit of ${targetColumn.wip_limit}` });
+      return;
+    }
+
+    const sourceIdsBeforeMove = await getColumnCardIds(client, card.column_id);
+    const currentIndex = sourceIdsBeforeMove.indexOf(cardId);
+
+    if (data.toColumnId === card.column_id) {
+      const targetIndex = Math.min(data.toPosition, Math.max(sourceIdsBeforeMove.length - 1, 0));
+      if (targetIndex === currentIndex) {
+        const unchangedCardResult = await client.query(
+          `SELECT id, board_id, column_id, title, description, due_date, position, created_by_user_id, version, created_at, updated_at
+           FROM cards
+           WHERE id = $1`,
+          [cardId]
+        );
+        await client.query('ROLLBACK');
+        res.json({ ...unchangedCardResult.rows[0], assignees: await getCardAssignees(cardId) });
+        return;
+      }
+    }
+
+    await client.query('UPDATE cards SET column_id = $1 WHERE id = $2', [data.toColumnId, cardId]);
+
+    const ids = (await getColumnCardIds(client, data.toColumnId)).filter((id) => id !== cardId);
+    const insertionIndex = Math.min(data.toPosition, ids.length);
+    ids.splice(insertionIndex, 0, cardId);
+    await renumberCards(client, ids);
+    await renumberCards(client, await getColumnCardIds(client, card.column_id));
+
+    const movedCardResult = await client.query(
+      `SELECT id, board_id, column_id, title, description, due_date, position, created_by_user_id, version, created_at, updated_at
+       FROM cards
+       WHERE id = $1`,
+      [cardId]
+    );
+
+    await client.query('COMMIT');
 
-    res.json({
-      ...boardResult.rows[0],
-      role,
-      columns: columns.map((column) => ({
-        ...column,
-        cards: cards.filter((card) => card.column_id === column.id)
-      }))
+    await logActivity({
+      boardId: card.board_id,
+      actorUserId: userId,
+      entityType: 'card',
+      entityId: cardId,
+      action: 'moved',
+      message: `Moved card \"${card.title}\" from \"${fromColumnTitle}\" to \"${toColumnTitle}\"`,
+      metadata: {
+        cardId,
+        fromColumnId: card.column_id,
+        fromColumnTitle,
+        toColumnId: data.toColumnId,
+        toColumnTitle,
+        ...(exceedsWipLimit ? { wipLimitExceeded: true } : {})
+      }
     });
+
+    await notifyBoard(card.board_id, 'card_moved', await getCardEventPayload(cardId, [card.column_id, data.toColumnId]));
+    const movedCard = { ...movedCardResult.rows[0], assignees: await getCardAssignees(cardId) };
+    res.json(
+      exceedsWipLimit
+        ? { ...movedCard, wipWarning: `Column \"${toColumnTitle}\" is over its WIP limit of ${targetColumn.wip_limit}` }
+        : movedCard
+    );
   } catch (error) {
+    await client.query('ROLLBACK');
     next(error);
+  } finally {
+    client.release();
   }
 });
 
-app.get('/api/boards/:boardId/members', async (req: AuthRequest, res, next) => {
+app.get('/api/boards/:boardId/labels', async (req: AuthRequest, res, next) => {
   try {
     const boardId = Number(req.params.boardId);
     const userId = req.user!.id;
@@ -369,66 +2986,294 @@ app.get('/api/boards/:boardId/members', async (req: AuthRequest, res, next) => {
       return;
     }
 
-    const role = await getBoardRole(userId, boardId);
+    const role = await getRequestBoardRole(req, boardId);
     if (!role) {
       res.status(403).json({ message: 'Not authorized for this board' });
       return;
     }
 
-    const result = await pool.query(
-      `SELECT u.id, u.name, u.email, bm.role
-       FROM board_members bm
-       JOIN users u ON u.id = bm.user_id
-       WHERE bm.board_id = $1
-       ORDER BY bm.created_at ASC`,
-      [boardId]
-    );
-
+    const result = await pool.query('SELECT id, board_id, name, color, created_at FROM labels WHERE board_id = $1 ORDER BY name ASC', [boardId]);
     res.json(result.rows);
   } catch (error) {
     next(error);
   }
 });
 
-app.get('/api/boards/:boardId/activities', async (req: AuthRequest, res, next) => {
+app.post('/api/boards/:boardId/labels', async (req: AuthRequest, res, next) => {
   try {
     const boardId = Number(req.params.boardId);
     const userId = req.user!.id;
-    const limit = Math.min(Math.max(Number(req.query.limit ?? 30), 1), 100);
+    const data = createLabelSchema.parse(req.body);
 
     if (Number.isNaN(boardId)) {
       res.status(400).json({ message: 'Invalid board id' });
       return;
     }
 
-    const role = await getBoardRole(userId, boardId);
-    if (!role) {
-      res.status(403).json({ message: 'Not authorized for this board' });
+    const role = await getRequestBoardRole(req, boardId);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to manage labels' });
       return;
     }
 
     const result = await pool.query(
-      `SELECT a.id, a.board_id, a.actor_user_id, a.entity_type, a.entity_id, a.action, a.message, a.metadata, a.created_at,
-              u.name AS actor_name, u.email AS actor_email
-       FROM activities a
-       LEFT JOIN users u ON u.id = a.actor_user_id
-       WHERE a.board_id = $1
-       ORDER BY a.created_at DESC
-       LIMIT $2`,
-      [boardId, limit]
+      `INSERT INTO labels(board_id, name, color)
+       VALUES($1, $2, $3)
+       ON CONFLICT (board_id, name) DO NOTHING
+       RETURNING id, board_id, name, color, created_at`,
+      [boardId, data.name, data.color.toLowerCase()]
     );
 
-    res.json(result.rows);
+    if (result.rowCount === 0) {
+      res.status(409).json({ message: 'A label with this name already exists' });
+      return;
+    }
+
+    const label = result.rows[0] as { id: number; name: string; color: string };
+    await logActivity({
+      boardId,
+      actorUserId: userId,
+      entityType: 'label',
+      entityId: label.id,
+      action: 'created',
+      message: `Created label \"${label.name}\"`,
+      metadata: { color: label.color }
+    });
+
+    await notifyBoard(boardId, 'label_created');
+    res.status(201).json(result.rows[0]);
   } catch (error) {
     next(error);
   }
 });
 
-app.get('/api/cards/:cardId/activities', async (req: AuthRequest, res, next) => {
+app.patch('/api/labels/:labelId', async (req: AuthRequest, res, next) => {
+  try {
+    const labelId = Number(req.params.labelId);
+    const userId = req.user!.id;
+    const data = updateLabelSchema.parse(req.body);
+
+    if (Number.isNaN(labelId)) {
+      res.status(400).json({ message: 'Invalid label id' });
+      return;
+    }
+
+    const existing = await getLabelWithBoard(labelId);
+    if (!existing) {
+      res.status(404).json({ message: 'Label not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, existing.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to manage labels' });
+      return;
+    }
+
+    const name = data.name ?? existing.name;
+    const color = data.color?.toLowerCase() ?? existing.color;
+    if (name === existing.name && color === existing.color) {
+      res.json(existing);
+      return;
+    }
+
+    const duplicate = await pool.query('SELECT 1 FROM labels WHERE board_id = $1 AND name = $2 AND id <> $3', [
+      existing.board_id,
+      name,
+      labelId
+    ]);
+    if ((duplicate.rowCount ?? 0) > 0) {
+      res.status(409).json({ message: 'A label with this name already exists' });
+      return;
+    }
+
+    const result = await pool.query(
+      'UPDATE labels SET name = $1, color = $2 WHERE id = $3 RETURNING id, board_id, name, color, created_at',
+      [name, color, labelId]
+    );
+
+    await logActivity({
+      boardId: existing.board_id,
+      actorUserId: userId,
+      entityType: 'label',
+      entityId: labelId,
+      action: 'updated',
+      message: `Updated label \"${name}\"`,
+      metadata: { fromName: existing.name, fromColor: existing.color, color }
+    });
+
+    await notifyBoard(existing.board_id, 'label_updated');
+    res.json(result.rows[0]);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/labels/:labelId', async (req: AuthRequest, res, next) => {
+  try {
+    const labelId = Number(req.params.labelId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(labelId)) {
+      res.status(400).json({ message: 'Invalid label id' });
+      return;
+    }
+
+    const existing = await getLabelWithBoard(labelId);
+    if (!existing) {
+      res.status(404).json({ message: 'Label not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, existing.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to manage labels' });
+      return;
+    }
+
+    await pool.query('DELETE FROM labels WHERE id = $1', [labelId]);
+
+    await logActivity({
+      boardId: existing.board_id,
+      actorUserId: userId,
+      entityType: 'label',
+      entityId: labelId,
+      action: 'deleted',
+      message: `Deleted label \"${existing.name}\"`
+    });
+
+    await notifyBoard(existing.board_id, 'label_deleted');
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.put('/api/cards/:cardId/labels/:labelId', async (req: AuthRequest, res, next) => {
+  try {
+    const cardId = Number(req.params.cardId);
+    const labelId = Number(req.params.labelId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(cardId) || Number.isNaN(labelId)) {
+      res.status(400).json({ message: 'Invalid card or label id' });
+      return;
+    }
+
+    const card = await getCardWithBoard(cardId);
+    if (!card) {
+      res.status(404).json({ message: 'Card not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, card.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to update cards' });
+      return;
+    }
+
+    const label = await getLabelWithBoard(labelId);
+    if (!label || label.board_id !== card.board_id) {
+      res.status(400).json({ message: 'Label is invalid for this board' });
+      return;
+    }
+
+    const result = await pool.query('INSERT INTO card_labels(card_id, label_id) VALUES($1, $2) ON CONFLICT DO NOTHING', [cardId, labelId]);
+    if ((result.rowCount ?? 0) > 0) {
+      await logActivity({
+        boardId: card.board_id,
+        actorUserId: userId,
+        entityType: 'card',
+        entityId: cardId,
+        action: 'label_added',
+        message: `Added label \"${label.name}\" to card \"${card.title}\"`,
+        metadata: { cardId, labelId, labelName: label.name }
+      });
+
+      await notifyBoard(card.board_id, 'card_updated', await getCardEventPayload(cardId, []));
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.delete('/api/cards/:cardId/labels/:labelId', async (req: AuthRequest, res, next) => {
+  try {
+    const cardId = Number(req.params.cardId);
+    const labelId = Number(req.params.labelId);
+    const userId = req.user!.id;
+
+    if (Number.isNaN(cardId) || Number.isNaN(labelId)) {
+      res.status(400).json({ message: 'Invalid card or label id' });
+      return;
+    }
+
+    const card = await getCardWithBoard(cardId);
+    if (!card) {
+      res.status(404).json({ message: 'Card not found' });
+      return;
+    }
+
+    const role = await getRequestBoardRole(req, card.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to update cards' });
+      return;
+    }
+
+    const label = await getLabelWithBoard(labelId);
+    const result = await pool.query('DELETE FROM card_labels WHERE card_id = $1 AND label_id = $2', [cardId, labelId]);
+    if (label && (result.rowCount ?? 0) > 0) {
+      await logActivity({
+        boardId: card.board_id,
+        actorUserId: userId,
+        entityType: 'card',
+        entityId: cardId,
+        action: 'label_removed',
+        message: `Removed label \"${label.name}\" from card \"${card.title}\"`,
+        metadata: { cardId, labelId, labelName: label.name }
+      });
+
+      await notifyBoard(card.board_id, 'card_updated', await getCardEventPayload(cardId, []));
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+async function loadCardChecklists(cardId: number) {
+  const [checklistsResult, itemsResult] = await Promise.all([
+    pool.query(
+      `SELECT id, board_id, card_id, title, position, created_at
+       FROM card_checklists
+       WHERE card_id = $1
+       ORDER BY position ASC, id ASC`,
+      [cardId]
+    ),
+    pool.query(
+      `SELECT i.id, i.checklist_id, i.card_id, i.body, i.checked, i.assignee_user_id, i.position, i.created_at,
+              u.name AS assignee_name
+       FROM card_checklist_items i
+       LEFT JOIN users u ON u.id = i.assignee_user_id
+       WHERE i.card_id = $1
+       ORDER BY i.position ASC, i.id ASC`,
+      [cardId]
+    )
+  ]);
+
+  return checklistsResult.rows.map((checklist) => ({
+    ...checklist,
+    items: itemsResult.rows.filter((item) => item.checklist_id === checklist.id)
+  }));
+}
+
+app.get('/api/cards/:cardId/checklists', async (req: AuthRequest, res, next) => {
   try {
     const cardId = Number(req.params.cardId);
     const userId = req.user!.id;
-    const limit = Math.min(Math.max(Number(req.query.limit ?? 30), 1), 100);
 
     if (Number.isNaN(cardId)) {
       res.status(400).json({ message: 'Invalid card id' });
@@ -441,540 +3286,427 @@ app.get('/api/cards/:cardId/activities', async (req: AuthRequest, res, next) =>
       return;
     }
 
-    const role = await getBoardRole(userId, card.board_id);
+    const role = await getRequestBoardRole(req, card.board_id);
     if (!role) {
       res.status(403).json({ message: 'Not authorized for this board' });
       return;
     }
 
-    const result = await pool.query(
-      `SELECT a.id, a.board_id, a.actor_user_id, a.entity_type, a.entity_id, a.action, a.message, a.metadata, a.created_at,
-              u.name AS actor_name, u.email AS actor_email
-       FROM activities a
-       LEFT JOIN users u ON u.id = a.actor_user_id
-       WHERE a.board_id = $1
-         AND (
-           (a.entity_type = 'card' AND a.entity_id = $2)
-           OR (
-             a.metadata ? 'cardId'
-             AND (a.metadata->>'cardId') ~ '^[0-9]+$'
-             AND (a.metadata->>'cardId')::int = $2
-           )
-         )
-       ORDER BY a.created_at DESC
-       LIMIT $3`,
-      [card.board_id, cardId, limit]
-    );
-
-    res.json(result.rows);
+    res.json(await loadCardChecklists(cardId));
   } catch (error) {
     next(error);
   }
 });
 
-app.post('/api/boards/:boardId/members', async (req: AuthRequest, res, next) => {
+app.post('/api/cards/:cardId/checklists', async (req: AuthRequest, res, next) => {
   try {
-    const boardId = Number(req.params.boardId);
+    const cardId = Number(req.params.cardId);
     const userId = req.user!.id;
-    const data = addMemberSchema.parse(req.body);
+    const data = createChecklistSchema.parse(req.body);
 
-    if (Number.isNaN(boardId)) {
-      res.status(400).json({ message: 'Invalid board id' });
+    if (Number.isNaN(cardId)) {
+      res.status(400).json({ message: 'Invalid card id' });
       return;
     }
 
-    const role = await getBoardRole(userId, boardId);
-    if (role !== 'owner') {
-      res.status(403).json({ message: 'Only board owners can add members' });
+    const card = await getCardWithBoard(cardId);
+    if (!card) {
+      res.status(404).json({ message: 'Card not found' });
       return;
     }
 
-    const userResult = await pool.query('SELECT id, name, email FROM users WHERE email = $1', [data.email.toLowerCase()]);
-    if (userResult.rowCount === 0) {
-      res.status(404).json({ message: 'User with this email does not exist' });
+    const role = await getRequestBoardRole(req, card.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to update cards' });
       return;
     }
 
-    const targetUser = userResult.rows[0] as { id: number; name: string; email: string };
-    await pool.query(
-      `INSERT INTO board_members(board_id, user_id, role)
-       VALUES($1, $2, $3)
-       ON CONFLICT (board_id, user_id)
-       DO UPDATE SET role = EXCLUDED.role`,
-      [boardId, targetUser.id, data.role]
+    const result = await pool.query(
+      `INSERT INTO card_checklists(board_id, card_id, title, position)
+       VALUES($1, $2, $3, COALESCE((SELECT MAX(position) FROM card_checklists WHERE card_id = $2), 0) + 1000)
+       RETURNING id, board_id, card_id, title, position, created_at`,
+      [card.board_id, cardId, data.title]
     );
 
     await logActivity({
-      boardId,
+      boardId: card.board_id,
       actorUserId: userId,
-      entityType: 'member',
-      entityId: targetUser.id,
-      action: 'added',
-      message: `Added ${targetUser.email} as ${data.role}`,
-      metadata: { role: data.role, email: targetUser.email }
+      entityType: 'checklist',
+      entityId: result.rows[0].id as number,
+      action: 'created',
+      message: `Added checklist \"${data.title}\" to card \"${card.title}\"`,
+      metadata: { cardId }
     });
 
-    notifyBoard(boardId, 'member_added');
-    notifyUser(targetUser.id, 'board_added_to_user');
-    res.status(201).json({ message: 'Member added' });
+    await notifyBoard(card.board_id, 'checklist_changed', await getCardEventPayload(card.id, []));
+    res.status(201).json({ ...result.rows[0], items: [] });
   } catch (error) {
     next(error);
   }
 });
 
-app.post('/api/boards/:boardId/columns', async (req: AuthRequest, res, next) => {
+app.patch('/api/cards/:cardId/checklists/:checklistId', async (req: AuthRequest, res, next) => {
   try {
-    const boardId = Number(req.params.boardId);
+    const cardId = Number(req.params.cardId);
+    const checklistId = Number(req.params.checklistId);
     const userId = req.user!.id;
-    const data = createColumnSchema.parse(req.body);
-
-    if (Number.isNaN(boardId)) {
-      res.status(400).json({ message: 'Invalid board id' });
+    const data = updateChecklistSchema.parse(req.body);
+
+    if (Number.isNaN(cardId) || Number.isNaN(checklistId)) {
+      res.status(400).json({ message: 'Invalid card or checklist id' });
       return;
     }
 
-    const role = await getBoardRole(userId, boardId);
-    if (!role) {
-      res.status(403).json({ message: 'Not authorized for this board' });
+    const checklist = await getChecklistWithCard(checklistId);
+    if (!checklist || checklist.card_id !== cardId) {
+      res.status(404).json({ message: 'Checklist not found' });
       return;
     }
 
-    if (!canWrite(role)) {
-      res.status(403).json({ message: 'Board role cannot modify columns' });
+    const role = await getRequestBoardRole(req, checklist.board_id);
+    if (!role || !canWrite(role)) {
+      res.status(403).json({ message: 'Not authorized to update cards' });
       return;
     }
 
-    const maxPositionResult = await pool.query('SELECT COALESCE(MAX(position), 0) AS max_position FROM columns WHERE board_id = $1', [boardId]);
-    const position = Number(maxPositionResult.rows[0].max_position) + 1000;
-
     const result = await pool.query(
-      'INSERT INTO columns(board_id, title, position) VALUES($1, $2, $3) RETURNING id, board_id, title, position, created_at',
-      [boardId, data.title, position]
+      `UPDATE card_checklists SET title = $1 WHERE id = $2
+       RETURNING id, board_id, card_id, title, position, created_at`,
+      [data.title, checklistId]
     );
 
-    const column = result.rows[0] as { id: number; title: string };
     await logActivity({
-      boardId,
+      boardId: checklist.board_id,
       actorUserId: userId,
-      entityType: 'column',
-      entityId: column.id,
-      action: 'created',
-      message: `Created column \"${column.title}\"`
+      entityType: 'checklist',
+      entityId: checklistId,
+      action: 'renamed',
+      message: `Renamed checklist \"${checklist.title}\" to \"${data.title}\" on card \"${checklist.card_title}\"`,
+      metadata: { cardId }
     });
 
-    notifyBoard(boardId, 'column_created');
-    res.status(201).json(result.rows[0]);
+    await notifyBoard(checklist.board_id, 'checklist_changed', await getCardEventPayload(checklist.card_id, []));
+    res.json(result.rows[0]);
   } catch (error) {
     next(error);
   }
 });
 
-app.patch('/api/columns/:columnId', async (req: AuthRequest, res, next) => {
+app.delete('/api/cards/:cardId/checklists/:checklistId', async (req: AuthRequest, res, next) => {
   try {
-    const columnId = Number(req.params.columnId);
+    const cardId = Number(req.params.cardId);
+    const checklistId = Number(req.params.checklistId);
     const userId = req.user!.id;
-    const data = updateColumnSchema.parse(req.body);
 
-    if (Number.isNaN(columnId)) {
-      res.status(400).json({ message: 'Invalid column id' });
+    if (Number.isNaN(cardId) || Number.isNaN(checklistId)) {
+      res.status(400).json({ message: 'Invalid card or checklist id' });
       return;
     }
 
-    const existingResult = await pool.query('SELECT id, board_id, title, position FROM columns WHERE id = $1', [columnId]);
-    if (existingResult.rowCount === 0) {
-      res.status(404).json({ message: 'Column not found' });
+    const checklist = await getChecklistWithCard(checklistId);
+    if (!checklist || checklist.card_id !== cardId) {
+      res.status(404).json({ message: 'Checklist not found' });
       return;
     }
 
-    const existing = existingResult.rows[0] as { id: number; board_id: number; title: string; position: number };
-    const role = await getBoardRole(userId, existing.board_id);
+    const role = await getRequestBoardRole(req, checklist.board_id);
     if (!role || !canWrite(role)) {
-      res.status(403).json({ message: 'Not authorized to modify this column' });
-      return;
-    }
-
-    const title = data.title ?? existing.title;
-    const position = data.position ?? existing.position;
-    const hasColumnChanges = title !== existing.title || position !== existing.position;
-
-    if (!hasColumnChanges) {
-      const unchangedResult = await pool.query(
-        'SELECT id, board_id, title, position, created_at FROM columns WHERE id = $1',
-        [columnId]
-      );
-      res.json(unchangedResult.rows[0]);
+      res.status(403).json({ message: 'Not authorized to update cards' });
       return;
     }
 
-    const result = await pool.query(
-      'UPDATE columns SET title = $1, position = $2 WHERE id = $3 RETURNING id, board_id, title, position, created_at',
-      [title, position, columnId]
-    );
+    await pool.query('DELETE FROM card_checklists WHERE id = $1', [checklistId]);
 
     await logActivity({
-      boardId: existing.board_id,
+      boardId: checklist.board_id,
       actorUserId: userId,
-      entityType: 'column',
-      entityId: columnId,
-      action: 'updated',
-      message: `Updated column \"${title}\"`
+      entityType: 'checklist',
+      entityId: checklistId,
+      action: 'deleted',
+      message: `Deleted checklist \"${checklist.title}\" from card \"${checklist.card_title}\"`,
+      metadata: { cardId }
     });
 
-    notifyBoard(existing.board_id, 'column_updated');
-    res.json(result.rows[0]);
+    await notifyBoard(checklist.board_id, 'checklist_changed', await getCardEventPayload(checklist.card_id, []));
+    res.status(204).send();
   } catch (error) {
     next(error);
   }
 });
 
-app.post('/api/columns/:columnId/cards', async (req: AuthRequest, res, next) => {
+app.post('/api/cards/:cardId/checklists/:checklistId/items', async (req: AuthRequest, res, next) => {
   try {
-    const columnId = Number(req.params.columnId);
+    const cardId = Number(req.params.cardId);
+    const checklistId = Number(req.params.checklistId);
     const userId = req.user!.id;
-    const data = createCardSchema.parse(req.body);
+    const data = createChecklistItemSchema.parse(req.body);
 
-    if (Number.isNaN(columnId)) {
-      res.status(400).json({ message: 'Invalid column id' });
+    if (Number.isNaN(cardId) || Number.isNaN(checklistId)) {
+      res.status(400).json({ message: 'Invalid card or checklist id' });
       return;
     }
 
-    const columnResult = await pool.query('SELECT id, board_id FROM columns WHERE id = $1', [columnId]);
-    if (columnResult.rowCount === 0) {
-      res.status(404).json({ message: 'Column not found' });
+    const checklist = await getChecklistWithCard(checklistId);
+    if (!checklist || checklist.card_id !== cardId) {
+      res.status(404).json({ message: 'Checklist not found' });
       return;
     }
 
-    const boardId = columnResult.rows[0].board_id as number;
-    const role = await getBoardRole(userId, boardId);
+    const role = await getRequestBoardRole(req, checklist.board_id);
     if (!role || !canWrite(role)) {
-      res.status(403).json({ message: 'Not authorized to add cards' });
+      res.status(403).json({ message: 'Not authorized to update cards' });
       return;
     }
 
-    let dueDate: string | null = null;
-    if (typeof data.dueDate === 'string') {
-      dueDate = normalizeDueDate(data.dueDate);
-      if (!dueDate) {
-        res.status(400).json({ message: 'Invalid dueDate. Use YYYY-MM-DD format.' });
-        return;
-      }
-    }
-
-    let assignee: string | null = null;
-    if (typeof data.assignee === 'string') {
-      assignee = await resolveBoardAssigneeName(boardId, data.assignee);
-      if (!assignee) {
-        res.status(400).json({ message: 'Assignee must be an existing board member.' });
-        return;
-      }
+    const assigneeUserId = data.assigneeUserId ?? null;
+    if (assigneeUserId !== null && !(await getBoardRole(assigneeUserId, checklist.board_id))) {
+      res.status(400).json({ message: 'Assignee must be a board member' });
+      return;
     }
 
-    const maxPositionResult = await pool.query('SELECT COALESCE(MAX(position), 0) AS max_position FROM cards WHERE column_id = $1', [columnId]);
-    const position = Number(maxPositionResult.rows[0].max_position) + 1000;
-
     const result = await pool.query(
-      `INSERT INTO cards(board_id, column_id, title, description, assignee, due_date, position)
-       VALUES($1, $2, $3, $4, $5, $6, $7)
-       RETURNING id, board_id, column_id, title, description, assignee, due_date, position, created_at, updated_at`,
-      [boardId, columnId, data.title, data.description ?? '', assignee, dueDate, position]
+      `INSERT INTO card_checklist_items(checklist_id, card_id, body, assignee_user_id, position)
+       VALUES($1, $2, $3, $4, COALESCE((SELECT MAX(position) FROM card_checklist_items WHERE checklist_id = $1), 0) + 1000)
+       RETURNING id, checklist_id, card_id, body, checked, assignee_user_id, position, created_at`,
+      [checklistId, cardId, data.body, assigneeUserId]
     );
 
-    const card = result.rows[0] as { id: number; title: string };
     await logActivity({
-      boardId,
+      boardId: checklist.board_id,
       actorUserId: userId,
-      entityType: 'card',
-      entityId: card.id,
-      action: 'created',
-      message: `Created card \"${card.title}\"`,
-      metadata: { cardId: card.id }
+      entityType: 'checklist',
+      entityId: checklistId,
+      action: 'item_added',
+      message: `Added \"${data.body}\" to checklist \"${checklist.title}\" on card \"${checklist.card_title}\"`,
+      metadata: { cardId, itemId: result.rows[0].id as number }
     });
 
-    notifyBoard(boardId, 'card_created');
+    await notifyBoard(checklist.board_id, 'checklist_changed', await getCardEventPayload(checklist.card_id, []));
     res.status(201).json(result.rows[0]);
   } catch (error) {
     next(error);
   }
 });
 
-app.patch('/api/cards/:cardId', async (req: AuthRequest, res, next) => {
+app.patch('/api/cards/:cardId/checklists/:checklistId/items/:itemId', async (req: AuthRequest, res, next) => {
   try {
     const cardId = Number(req.params.cardId);
+    const checklistId = Number(req.params.checklistId);
+    const itemId = Number(req.params.itemId);
     const userId = req.user!.id;
-    const data = updateCardSchema.parse(req.body);
+    const data = updateChecklistItemSchema.parse(req.body);
 
-    if (Number.isNaN(cardId)) {
-      res.status(400).json({ message: 'Invalid card id' });
+    if (Number.isNaN(cardId) || Number.isNaN(checklistId) || Number.isNaN(itemId)) {
+      res.status(400).json({ message: 'Invalid card, checklist or item id' });
       return;
     }
 
-    const existingResult = await pool.query(
-      'SELECT id, board_id, column_id, title, description, assignee, due_date FROM cards WHERE id = $1',
-      [cardId]
-    );
-
-    if (existingResult.rowCount === 0) {
-      res.status(404).json({ message: 'Card not found' });
+    const checklist = await getChecklistWithCard(checklistId);
+    if (!checklist || checklist.card_id !== cardId) {
+      res.status(404).json({ message: 'Checklist not found' });
       return;
     }
 
-    const existing = existingResult.rows[0] as {
-      id: number;
-      board_id: number;
-      column_id: number;
-      title: string;
-      description: string;
-      assignee: string | null;
-      due_date: string | null;
-    };
-
-    const role = await getBoardRole(userId, existing.board_id);
+    const role = await getRequestBoardRole(req, checklist.board_id);
     if (!role || !canWrite(role)) {
       res.status(403).json({ message: 'Not authorized to update cards' });
       return;
     }
 
-    const nextTitle = data.title ?? existing.title;
-    const nextDescription = data.description ?? existing.description;
-    let nextAssignee = existing.assignee;
-    if (data.assignee !== undefined) {
-      if (data.assignee === null || data.assignee.trim() === '') {
-        nextAssignee = null;
-      } else {
-        const resolvedAssignee = await resolveBoardAssigneeName(existing.board_id, data.assignee);
-        if (!resolvedAssignee) {
-          res.status(400).json({ message: 'Assignee must be an existing board member.' });
-          return;
-        }
-        nextAssignee = resolvedAssignee;
-      }
-    }
-
-    let nextDueDate = existing.due_date;
-    if (data.dueDate !== undefined) {
-      if (data.dueDate === null || data.dueDate.trim() === '') {
-        nextDueDate = null;
-      } else {
-        const normalizedDueDate = normalizeDueDate(data.dueDate);
-        if (!normalizedDueDate) {
-          res.status(400).json({ message: 'Invalid dueDate. Use YYYY-MM-DD format.' });
-          return;
-        }
-        nextDueDate = normalizedDueDate;
-      }
+    const existingResult = await pool.query(
+      'SELECT id, body, checked, assignee_user_id FROM card_checklist_items WHERE id = $1 AND checklist_id = $2',
+      [itemId, checklistId]
+    );
+    if (existingResult.rowCount === 0) {
+      res.status(404).json({ message: 'Checklist item not found' });
+      return;
     }
+    const existing = existingResult.rows[0] as { body: string; checked: boolean; assignee_user_id: number | null };
 
-    const hasCardChanges =
-      nextTitle !== existing.title ||
-      nextDescription !== existing.description ||
-      nextAssignee !== existing.assignee ||
-      nextDueDate !== existing.due_date;
-
-    if (!hasCardChanges) {
-      const unchangedResult = await pool.query(
-        `SELECT id, board_id, column_id, title, description, assignee, due_date, position, created_at, updated_at
-         FROM cards
-         WHERE id = $1`,
-        [cardId]
-      );
-      res.json(unchangedResult.rows[0]);
+    const assigneeUserId = data.assigneeUserId === undefined ? existing.assignee_user_id : data.assigneeUserId;
+    if (
+      data.assigneeUserId !== undefined &&
+      assigneeUserId !== null &&
+      !(await getBoardRole(assigneeUserId, checklist.board_id))
+    ) {
+      res.status(400).json({ message: 'Assignee must be a board member' });
       return;
     }
 
+    const body = data.body ?? existing.body;
+    const checked = data.checked ?? existing.checked;
+
     const result = await pool.query(
-      `UPDATE cards
-       SET title = $1, description = $2, assignee = $3, due_date = $4
-       WHERE id = $5
-       RETURNING id, board_id, column_id, title, description, assignee, due_date, position, created_at, updated_at`,
-      [nextTitle, nextDescription, nextAssignee, nextDueDate, cardId]
+      `UPDATE card_checklist_items
+       SET body = $1, checked = $2, assignee_user_id = $3
+       WHERE id = $4
+       RETURNING id, checklist_id, card_id, body, checked, assignee_user_id, position, created_at`,
+      [body, checked, assigneeUserId, itemId]
     );
 
-    await logActivity({
-      boardId: existing.board_id,
-      actorUserId: userId,
-      entityType: 'card',
-      entityId: cardId,
-      action: 'updated',
-      message: `Updated card \"${nextTitle}\"`,
-      metadata: { cardId }
-    });
+    const changes: Array<{ action: string; message: string }> = [];
+    if (checked !== existing.checked) {
+      changes.push({
+        action: checked ? 'item_checked' : 'item_unchecked',
+        message: `${checked ? 'Checked' : 'Unchecked'} \"${body}\" in checklist \"${checklist.title}\" on card \"${checklist.card_title}\"`
+      });
+    }
+    if (body !== existing.body) {
+      changes.push({
+        action: 'item_updated',
+        message: `Renamed checklist item \"${existing.body}\" to \"${body}\" on card \"${checklist.card_title}\"`
+      });
+    }
+    if (assigneeUserId !== existing.assignee_user_id) {
+      const assigneeResult =
+        assigneeUserId === null ? null : await pool.query('SELECT name FROM users WHERE id = $1', [assigneeUserId]);
+      const assigneeName = (assigneeResult?.rows[0]?.name as string | undefined) ?? null;
+      changes.push({
+        action: 'item_assigned',
+        message: assigneeName
+          ? `Assigned \"${body}\" to ${assigneeName} on card \"${checklist.card_title}\"`
+          : `Unassigned \"${body}\" on card \"${checklist.card_title}\"`
+      });
+    }
 
-    notifyBoard(existing.board_id, 'card_updated');
+    for (const change of changes) {
+      await logActivity({
+        boardId: checklist.board_id,
+        actorUserId: userId,
+        entityType: 'checklist',
+        entityId: checklistId,
+        action: change.action,
+        message: change.message,
+        metadata: { cardId, itemId }
+      });
+    }
+
+    if (changes.length > 0) {
+      await notifyBoard(checklist.board_id, 'checklist_changed', await getCardEventPayload(checklist.card_id, []));
+    }
     res.json(result.rows[0]);
   } catch (error) {
     next(error);
   }
 });
 
-app.delete('/api/cards/:cardId', async (req: AuthRequest, res, next) => {
+app.delete('/api/cards/:cardId/checklists/:checklistId/items/:itemId', async (req: AuthRequest, res, next) => {
   try {
     const cardId = Number(req.params.cardId);
+    const checklistId = Number(req.params.checklistId);
+    const itemId = Number(req.params.itemId);
     const userId = req.user!.id;
 
-    if (Number.isNaN(cardId)) {
-      res.status(400).json({ message: 'Invalid card id' });
+    if (Number.isNaN(cardId) || Number.isNaN(checklistId) || Number.isNaN(itemId)) {
+      res.status(400).json({ message: 'Invalid card, checklist or item id' });
       return;
     }
 
-    const existingResult = await pool.query('SELECT id, board_id, title FROM cards WHERE id = $1', [cardId]);
-    if (existingResult.rowCount === 0) {
-      res.status(404).json({ message: 'Card not found' });
+    const checklist = await getChecklistWithCard(checklistId);
+    if (!checklist || checklist.card_id !== cardId) {
+      res.status(404).json({ message: 'Checklist not found' });
       return;
     }
 
-    const existing = existingResult.rows[0] as { id: number; board_id: number; title: string };
-    const role = await getBoardRole(userId, existing.board_id);
+    const role = await getRequestBoardRole(req, checklist.board_id);
     if (!role || !canWrite(role)) {
-      res.status(403).json({ message: 'Not authorized to delete cards' });
+      res.status(403).json({ message: 'Not authorized to update cards' });
       return;
     }
 
-    await pool.query('DELETE FROM cards WHERE id = $1', [cardId]);
+    const result = await pool.query(
+      'DELETE FROM card_checklist_items WHERE id = $1 AND checklist_id = $2 RETURNING body',
+      [itemId, checklistId]
+    );
+    if (result.rowCount === 0) {
+      res.status(404).json({ message: 'Checklist item not found' });
+      return;
+    }
 
     await logActivity({
-      boardId: existing.board_id,
+      boardId: checklist.board_id,
       actorUserId: userId,
-      entityType: 'card',
-      entityId: cardId,
-      action: 'deleted',
-      message: `Deleted card \"${existing.title}\"`,
-      metadata: { cardId }
+      entityType: 'checklist',
+      entityId: checklistId,
+      action: 'item_deleted',
+      message: `Removed \"${result.rows[0].body as string}\" from checklist \"${checklist.title}\" on card \"${checklist.card_title}\"`,
+      metadata: { cardId, itemId }
     });
 
-    notifyBoard(existing.board_id, 'card_deleted');
+    await notifyBoard(checklist.board_id, 'checklist_changed', await getCardEventPayload(checklist.card_id, []));
     res.status(204).send();
   } catch (error) {
     next(error);
   }
 });
 
-app.post('/api/cards/:cardId/move', async (req: AuthRequest, res, next) => {
+app.post('/api/cards/:cardId/checklists/:checklistId/items/:itemId/move', async (req: AuthRequest, res, next) => {
   const client = await pool.connect();
 
   try {
     const cardId = Number(req.params.cardId);
+    const checklistId = Number(req.params.checklistId);
+    const itemId = Number(req.params.itemId);
     const userId = req.user!.id;
-    const data = moveCardSchema.parse(req.body);
+    const data = moveChecklistItemSchema.parse(req.body);
 
-    if (Number.isNaN(cardId)) {
-      res.status(400).json({ message: 'Invalid card id' });
+    if (Number.isNaN(cardId) || Number.isNaN(checklistId) || Number.isNaN(itemId)) {
+      res.status(400).json({ message: 'Invalid card, checklist or item id' });
       return;
     }
 
-    await client.query('BEGIN');
-
-    const cardResult = await client.query('SELECT id, board_id, column_id, title FROM cards WHERE id = $1 FOR UPDATE', [cardId]);
-    if (cardResult.rowCount === 0) {
-      await client.query('ROLLBACK');
-      res.status(404).json({ message: 'Card not found' });
+    const checklist = await getChecklistWithCard(checklistId);
+    if (!checklist || checklist.card_id !== cardId) {
+      res.status(404).json({ message: 'Checklist not found' });
       return;
     }
 
-    const card = cardResult.rows[0] as { id: number; board_id: number; column_id: number; title: string };
-
-    const role = await getBoardRole(userId, card.board_id);
+    const role = await getRequestBoardRole(req, checklist.board_id);
     if (!role || !canWrite(role)) {
-      await client.query('ROLLBACK');
-      res.status(403).json({ message: 'Not authorized to move cards' });
+      res.status(403).json({ message: 'Not authorized to update cards' });
       return;
     }
 
-    const sourceColumnResult = await client.query('SELECT id, board_id, title FROM columns WHERE id = $1', [card.column_id]);
-    if (sourceColumnResult.rowCount === 0 || sourceColumnResult.rows[0].board_id !== card.board_id) {
-      await client.query('ROLLBACK');
-      res.status(400).json({ message: 'Source column is invalid for this board' });
-      return;
-    }
+    await client.query('BEGIN');
 
-    const targetColumnResult = await client.query('SELECT id, board_id, title FROM columns WHERE id = $1', [data.toColumnId]);
-    if (targetColumnResult.rowCount === 0 || targetColumnResult.rows[0].board_id !== card.board_id) {
+    const itemsResult = await client.query(
+      'SELECT id, body FROM card_checklist_items WHERE checklist_id = $1 ORDER BY position ASC, id ASC FOR UPDATE',
+      [checklistId]
+    );
+    const items = itemsResult.rows as Array<{ id: number; body: string }>;
+    const fromPosition = items.findIndex((item) => item.id === itemId);
+    if (fromPosition === -1) {
       await client.query('ROLLBACK');
-      res.status(400).json({ message: 'Target column is invalid for this board' });
+      res.status(404).json({ message: 'Checklist item not found' });
       return;
     }
-    const fromColumnTitle = sourceColumnResult.rows[0].title as string;
-    const toColumnTitle = targetColumnResult.rows[0].title as string;
-
-    const cardsInSourceBeforeMoveResult = await client.query(
-      `SELECT id FROM cards
-       WHERE column_id = $1
-       ORDER BY position ASC, id ASC`,
-      [card.column_id]
-    );
-    const sourceIdsBeforeMove = (cardsInSourceBeforeMoveResult.rows as Array<{ id: number }>).map((row) => row.id);
-    const currentIndex = sourceIdsBeforeMove.indexOf(cardId);
-
-    if (data.toColumnId === card.column_id) {
-      const targetIndex = Math.min(data.toPosition, Math.max(sourceIdsBeforeMove.length - 1, 0));
-      if (targetIndex === currentIndex) {
-        const unchangedCardResult = await client.query(
-          `SELECT id, board_id, column_id, title, description, assignee, due_date, position, created_at, updated_at
-           FROM cards
-           WHERE id = $1`,
-          [cardId]
-        );
-        await client.query('ROLLBACK');
-        res.json(unchangedCardResult.rows[0]);
-        return;
-      }
-    }
-
-    await client.query('UPDATE cards SET column_id = $1 WHERE id = $2', [data.toColumnId, cardId]);
-
-    const cardsInTargetResult = await client.query(
-      `SELECT id FROM cards
-       WHERE column_id = $1
-       ORDER BY position ASC, id ASC`,
-      [data.toColumnId]
-    );
-
-    const ids = (cardsInTargetResult.rows as Array<{ id: number }>).map((row) => row.id).filter((id) => id !== cardId);
-    const insertionIndex = Math.min(data.toPosition, ids.length);
-    ids.splice(insertionIndex, 0, cardId);
-
-    for (let i = 0; i < ids.length; i += 1) {
-      await client.query('UPDATE cards SET position = $1 WHERE id = $2', [(i + 1) * 1000, ids[i]]);
-    }
-
-    const cardsInSourceResult = await client.query(
-      `SELECT id FROM cards
-       WHERE column_id = $1
-       ORDER BY position ASC, id ASC`,
-      [card.column_id]
-    );
 
-    for (let i = 0; i < cardsInSourceResult.rows.length; i += 1) {
-      const id = cardsInSourceResult.rows[i].id as number;
-      await client.query('UPDATE cards SET position = $1 WHERE id = $2', [(i + 1) * 1000, id]);
+    const itemIds = items.map((item) => item.id).filter((id) => id !== itemId);
+    const toPosition = Math.min(data.toPosition, itemIds.length);
+    itemIds.splice(toPosition, 0, itemId);
+    for (let index = 0; index < itemIds.length; index += 1) {
+      await client.query('UPDATE card_checklist_items SET position = $1 WHERE id = $2', [(index + 1) * 1000, itemIds[index]]);
+    }
+
+    if (toPosition !== fromPosition) {
+      await logActivity(
+        {
+          boardId: checklist.board_id,
+          actorUserId: userId,
+          entityType: 'checklist',
+          entityId: checklistId,
+          action: 'item_moved',
+          message: `Moved \"${items[fromPosition].body}\" to position ${toPosition + 1} in checklist \"${checklist.title}\" on card \"${checklist.card_title}\"`,
+          metadata: { cardId, itemId, fromPosition, toPosition }
+        },
+        client
+      );
     }
 
-    const movedCardResult = await client.query(
-      `SELECT id, board_id, column_id, title, description, assignee, due_date, position, created_at, updated_at
-       FROM cards
-       WHERE id = $1`,
-      [cardId]
-    );
-
     await client.query('COMMIT');
 
-    await logActivity({
-      boardId: card.board_id,
-      actorUserId: userId,
-      entityType: 'card',
-      entityId: cardId,
-      action: 'moved',
-      message: `Moved card \"${card.title}\" from \"${fromColumnTitle}\" to \"${toColumnTitle}\"`,
-      metadata: {
-        cardId,
-        fromColumnId: card.column_id,
-        fromColumnTitle,
-        toColumnId: data.toColumnId,
-        toColumnTitle
-      }
-    });
-
-    notifyBoard(card.board_id, 'card_moved');
-    res.json(movedCardResult.rows[0]);
+    await notifyBoard(checklist.board_id, 'checklist_changed', await getCardEventPayload(checklist.card_id, []));
+    res.json(await loadCardChecklists(cardId));
   } catch (error) {
     await client.query('ROLLBACK');
     next(error);
@@ -999,7 +3731,7 @@ app.get('/api/cards/:cardId/comments', async (req: AuthRequest, res, next) => {
       return;
     }
 
-    const role = await getBoardRole(userId, card.board_id);
+    const role = await getRequestBoardRole(req, card.board_id);
     if (!role) {
       res.status(403).json({ message: 'Not authorized for this board' });
       return;
@@ -1038,7 +3770,7 @@ app.post('/api/cards/:cardId/comments', async (req: AuthRequest, res, next) => {
       return;
     }
 
-    const role = await getBoardRole(userId, card.board_id);
+    const role = await getRequestBoardRole(req, card.board_id);
     if (!role || !canWrite(role)) {
       res.status(403).json({ message: 'Not authorized to comment on this board' });
       return;
@@ -1061,7 +3793,9 @@ app.post('/api/cards/:cardId/comments', async (req: AuthRequest, res, next) => {
       metadata: { cardId }
     });
 
-    notifyBoard(card.board_id, 'comment_created');
+    await notifyBoard(card.board_id, 'comment_created', {
+      comment: { ...result.rows[0], author_name: req.user!.name, author_email: req.user!.email }
+    });
     res.status(201).json(result.rows[0]);
   } catch (error) {
     next(error);
@@ -1091,7 +3825,7 @@ app.delete('/api/comments/:commentId', async (req: AuthRequest, res, next) => {
     }
 
     const comment = commentResult.rows[0] as { id: number; board_id: number; card_id: number; user_id: number | null };
-    const role = await getBoardRole(userId, comment.board_id);
+    const role = await getRequestBoardRole(req, comment.board_id);
     if (!role) {
       res.status(403).json({ message: 'Not authorized for this board' });
       return;
@@ -1119,7 +3853,7 @@ app.delete('/api/comments/:commentId', async (req: AuthRequest, res, next) => {
       });
     }
 
-    notifyBoard(comment.board_id, 'comment_deleted');
+    await notifyBoard(comment.board_id, 'comment_deleted', { commentId, cardId: comment.card_id });
     res.status(204).send();
   } catch (error) {
     next(error);
@@ -1136,6 +3870,10 @@ app.use((error: unknown, _req: express.Request, res: express.Response, _next: ex
   res.status(500).json({ message: 'Internal server error' });
 });
 
+await presence.start();
+drags.start();
+webhooks.start();
+
 httpServer.listen(port, () => {
   console.log(`Server listening on http://localhost:${port}`);
 });
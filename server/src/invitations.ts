@@ -0,0 +1,94 @@
+import crypto from 'node:crypto';
+import type { Pool, PoolClient } from 'pg';
+import { pool } from './db.js';
+import type { BoardRole } from './types.js';
+
+const activeInvitationCondition = `revoked_at IS NULL
+  AND (expires_at IS NULL OR expires_at > NOW())
+  AND (max_uses IS NULL OR use_count < max_uses)`;
+
+function generateInviteToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+export type NewInvitation = {
+  role: Exclude<BoardRole, 'owner'>;
+  expiresInHours: number | null;
+  maxUses: number | null;
+};
+
+export async function createInvitation(db: Pool | PoolClient, boardId: number, createdBy: number, invitation: NewInvitation) {
+  const result = await db.query(
+    `INSERT INTO board_invitations(board_id, token, role, created_by, expires_at, max_uses)
+     VALUES($1, $2, $3, $4, CASE WHEN $5::int IS NULL THEN NULL ELSE NOW() + make_interval(hours => $5::int) END, $6)
+     RETURNING id, board_id, token, role, expires_at, max_uses, use_count, created_at`,
+    [boardId, generateInviteToken(), invitation.role, createdBy, invitation.expiresInHours, invitation.maxUses]
+  );
+  return result.rows[0] as {
+    id: number;
+    board_id: number;
+    token: string;
+    role: NewInvitation['role'];
+    expires_at: string | null;
+    max_uses: number | null;
+    use_count: number;
+    created_at: string;
+  };
+}
+
+export async function findActiveInvitation(
+  token: string
+): Promise<{ board_id: number; board_name: string; role: BoardRole; expires_at: string | null } | null> {
+  const result = await pool.query(
+    `SELECT i.board_id, b.name AS board_name, i.role, i.expires_at
+     FROM board_invitations i
+     JOIN boards b ON b.id = i.board_id
+     WHERE i.token = $1 AND ${activeInvitationCondition}`,
+    [token]
+  );
+
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  return result.rows[0] as { board_id: number; board_name: string; role: BoardRole; expires_at: string | null };
+}
+
+// Only new memberships count as a use, so existing members can reopen a link without draining it.
+export async function consumeInvitation(
+  client: PoolClient,
+  token: string,
+  userId: number
+): Promise<{ boardId: number; role: BoardRole; joined: boolean } | null> {
+  const invitationResult = await client.query(
+    `SELECT id, board_id, role
+     FROM board_invitations
+     WHERE token = $1 AND ${activeInvitationCondition}
+     FOR UPDATE`,
+    [token]
+  );
+
+  if (invitationResult.rowCount === 0) {
+    return null;
+  }
+
+  const invitation = invitationResult.rows[0] as { id: number; board_id: number; role: BoardRole };
+  const membershipResult = await client.query(
+    `INSERT INTO board_members(board_id, user_id, role)
+     VALUES($1, $2, $3)
+     ON CONFLICT (board_id, user_id) DO NOTHING
+     RETURNING role`,
+    [invitation.board_id, userId, invitation.role]
+  );
+
+  if (membershipResult.rowCount === 0) {
+    const existingResult = await client.query('SELECT role FROM board_members WHERE board_id = $1 AND user_id = $2', [
+      invitation.board_id,
+      userId
+    ]);
+    return { boardId: invitation.board_id, role: existingResult.rows[0].role as BoardRole, joined: false };
+  }
+
+  await client.query('UPDATE board_invitations SET use_count = use_count + 1 WHERE id = $1', [invitation.id]);
+  return { boardId: invitation.board_id, role: invitation.role, joined: true };
+}
@@ -0,0 +1,107 @@
+import { loginBackoffMs, loginIpMaxAttempts, loginLockoutMinutes, loginMaxAttempts } from './config.js';
+import { pool } from './db.js';
+
+type ThrottleScope = 'account' | 'ip';
+
+// Failures allowed before backoff starts; each further failure doubles the wait until the lockout threshold.
+const FREE_ATTEMPTS: Record<ThrottleScope, number> = { account: 3, ip: 20 };
+const MAX_ATTEMPTS: Record<ThrottleScope, number> = { account: loginMaxAttempts, ip: loginIpMaxAttempts };
+
+export type LoginFailureReason = 'unknown_email' | 'wrong_password' | 'wrong_two_factor' | 'throttled';
+
+export type LoginAttempt = {
+  email: string;
+  userId: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+export type LoginBlock = {
+  retryAfterSeconds: number;
+  locked: boolean;
+};
+
+export async function getLoginBlock(email: string | null, ipAddress: string | null): Promise<LoginBlock | null> {
+  const result = await pool.query(
+    `SELECT locked_at IS NOT NULL AS locked, CEIL(EXTRACT(EPOCH FROM blocked_until - NOW()))::int AS retry_after
+     FROM login_throttles
+     WHERE ((scope = 'account' AND key = $1) OR (scope = 'ip' AND key = $2))
+       AND blocked_until > NOW()
+     ORDER BY blocked_until DESC
+     LIMIT 1`,
+    [email, ipAddress]
+  );
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  return { retryAfterSeconds: Math.max(result.rows[0].retry_after as number, 1), locked: result.rows[0].locked as boolean };
+}
+
+async function bumpThrottle(scope: ThrottleScope, key: string) {
+  // Counts start over once the last failure is older than the lockout window.
+  const result = await pool.query(
+    `INSERT INTO login_throttles (scope, key, failure_count, last_failure_at)
+     VALUES ($1, $2, 1, NOW())
+     ON CONFLICT (scope, key) DO UPDATE
+     SET failure_count = CASE
+           WHEN login_throttles.last_failure_at < NOW() - make_interval(mins => $3) THEN 1
+           ELSE login_throttles.failure_count + 1
+         END,
+         locked_at = CASE
+           WHEN login_throttles.last_failure_at < NOW() - make_interval(mins => $3) THEN NULL
+           ELSE login_throttles.locked_at
+         END,
+         last_failure_at = NOW()
+     RETURNING failure_count`,
+    [scope, key, loginLockoutMinutes]
+  );
+  const failures = result.rows[0].failure_count as number;
+
+  if (failures >= MAX_ATTEMPTS[scope]) {
+    await pool.query(
+      `UPDATE login_throttles
+       SET blocked_until = NOW() + make_interval(mins => $3), locked_at = COALESCE(locked_at, NOW())
+       WHERE scope = $1 AND key = $2`,
+      [scope, key, loginLockoutMinutes]
+    );
+  } else if (failures >= FREE_ATTEMPTS[scope]) {
+    const delayMs = Math.min(loginBackoffMs * 2 ** (failures - FREE_ATTEMPTS[scope]), loginLockoutMinutes * 60_000);
+    await pool.query(
+      `UPDATE login_throttles
+       SET blocked_until = NOW() + make_interval(secs => $3)
+       WHERE scope = $1 AND key = $2`,
+      [scope, key, delayMs / 1000]
+    );
+  }
+}
+
+export async function recordLoginFailure(attempt: LoginAttempt, reason: LoginFailureReason) {
+  await pool.query(
+    `INSERT INTO login_failures (email, user_id, ip_address, user_agent, reason)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [attempt.email, attempt.userId, attempt.ipAddress, attempt.userAgent, reason]
+  );
+
+  // Attempts rejected while blocked are audited but do not extend the block.
+  if (reason === 'throttled') {
+    return;
+  }
+
+  await bumpThrottle('account', attempt.email);
+  if (attempt.ipAddress) {
+    await bumpThrottle('ip', attempt.ipAddress);
+  }
+}
+
+// A taken email counts against the client IP like a failed login, so the register form cannot be used to probe for
+// accounts any faster than the login form.
+export async function recordRegistrationConflict(ipAddress: string | null) {
+  if (ipAddress) {
+    await bumpThrottle('ip', ipAddress);
+  }
+}
+
+export async function clearAccountThrottle(email: string) {
+  await pool.query("DELETE FROM login_throttles WHERE scope = 'account' AND key = $1", [email]);
+}
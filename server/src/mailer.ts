@@ -0,0 +1,46 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { mailFrom, mailOutboxDir, mailTransport } from './config.js';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type MailTransport = (message: MailMessage & { from: string }) => Promise<void>;
+
+export function createConsoleTransport(): MailTransport {
+  return async (message) => {
+    console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+  };
+}
+
+// Writes one JSON file per message so mail can be inspected (and read by tests) without an SMTP server.
+export function createFileTransport(dir: string): MailTransport {
+  return async (message) => {
+    await fs.mkdir(dir, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.writeFile(path.join(dir, fileName), JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+  };
+}
+
+const transports: Record<string, () => MailTransport> = {
+  console: createConsoleTransport,
+  file: () => createFileTransport(mailOutboxDir)
+};
+
+if (!transports[mailTransport]) {
+  throw new Error(`MAIL_TRANSPORT must be one of: ${Object.keys(transports).join(', ')}`);
+}
+
+let transport = transports[mailTransport]();
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  await transport({ from: mailFrom, ...message });
+}
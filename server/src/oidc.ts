@@ -0,0 +1,228 @@
+import crypto from 'node:crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { oidcClientId, oidcClientSecret, oidcIssuer, oidcRedirectUri, oidcScopes } from './config.js';
+import { pool } from './db.js';
+import type { AuthUser } from './types.js';
+
+const LOGIN_STATE_TTL_MINUTES = 10;
+const HANDOFF_TTL_SECONDS = 60;
+
+type ProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+type Jwk = crypto.JsonWebKey & { kid?: string };
+
+export type OidcIdentity = {
+  issuer: string;
+  subject: string;
+  email: string;
+  name: string | null;
+};
+
+export type OidcLoginResult = { status: 'ok'; identity: OidcIdentity } | { status: 'error'; message: string };
+
+let metadataRequest: Promise<ProviderMetadata> | null = null;
+let jwksCache: Jwk[] = [];
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+function getProviderMetadata(): Promise<ProviderMetadata> {
+  if (!metadataRequest) {
+    metadataRequest = fetchJson<ProviderMetadata>(`${oidcIssuer}/.well-known/openid-configuration`).catch((error) => {
+      metadataRequest = null;
+      throw error;
+    });
+  }
+  return metadataRequest;
+}
+
+// Keys are cached and only refetched when a token names a key id we have not seen (provider key rotation).
+async function getSigningKey(kid: string | undefined): Promise<crypto.KeyObject | null> {
+  const findKey = () => jwksCache.find((key) => (kid ? key.kid === kid : true));
+  if (!findKey()) {
+    const metadata = await getProviderMetadata();
+    jwksCache = (await fetchJson<{ keys: Jwk[] }>(metadata.jwks_uri)).keys;
+  }
+
+  const jwk = findKey();
+  return jwk ? crypto.createPublicKey({ key: jwk, format: 'jwk' }) : null;
+}
+
+function hashHandoffCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+export async function beginOidcLogin(): Promise<string> {
+  const metadata = await getProviderMetadata();
+  const state = crypto.randomBytes(24).toString('base64url');
+  const nonce = crypto.randomBytes(24).toString('base64url');
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  await pool.query('DELETE FROM oidc_login_states WHERE expires_at <= NOW()');
+  await pool.query(
+    `INSERT INTO oidc_login_states (state, code_verifier, nonce, expires_at)
+     VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))`,
+    [state, codeVerifier, nonce, LOGIN_STATE_TTL_MINUTES]
+  );
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: oidcClientId,
+    redirect_uri: oidcRedirectUri,
+    scope: oidcScopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  }).toString();
+  return url.toString();
+}
+
+export async function completeOidcLogin(code: string, state: string): Promise<OidcLoginResult> {
+  const saved = await pool.query(
+    'DELETE FROM oidc_login_states WHERE state = $1 AND expires_at > NOW() RETURNING code_verifier, nonce',
+    [state]
+  );
+  if (saved.rowCount === 0) {
+    return { status: 'error', message: 'Sign-in request expired. Please try again.' };
+  }
+
+  const metadata = await getProviderMetadata();
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: oidcRedirectUri,
+    client_id: oidcClientId,
+    code_verifier: saved.rows[0].code_verifier as string
+  });
+  if (oidcClientSecret) {
+    body.set('client_secret', oidcClientSecret);
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body
+  });
+  if (!tokens.id_token) {
+    return { status: 'error', message: 'Identity provider did not return an ID token.' };
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  const key = decoded ? await getSigningKey(decoded.header.kid) : null;
+  if (!key) {
+    return { status: 'error', message: 'Identity provider token could not be verified.' };
+  }
+
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'],
+      issuer: metadata.issuer,
+      audience: oidcClientId
+    }) as jwt.JwtPayload;
+  } catch (_error) {
+    return { status: 'error', message: 'Identity provider token could not be verified.' };
+  }
+
+  if (claims.nonce !== saved.rows[0].nonce || typeof claims.sub !== 'string') {
+    return { status: 'error', message: 'Identity provider token could not be verified.' };
+  }
+
+  if (typeof claims.email !== 'string' || claims.email_verified !== true) {
+    return { status: 'error', message: 'Your identity provider account needs a verified email address.' };
+  }
+
+  return {
+    status: 'ok',
+    identity: {
+      issuer: metadata.issuer,
+      subject: claims.sub,
+      email: claims.email.toLowerCase(),
+      name: typeof claims.name === 'string' && claims.name.trim() ? claims.name.trim() : null
+    }
+  };
+}
+
+// Known identities sign in to their linked user; otherwise the verified email links an existing account or creates one.
+export async function findOrCreateOidcUser(identity: OidcIdentity): Promise<AuthUser> {
+  const linked = await pool.query(
+    `UPDATE user_identities i
+     SET last_login_at = NOW(), email = $3
+     FROM users u
+     WHERE i.issuer = $1 AND i.subject = $2 AND u.id = i.user_id
+     RETURNING u.id, u.name, u.email`,
+    [identity.issuer, identity.subject, identity.email]
+  );
+  if ((linked.rowCount ?? 0) > 0) {
+    return linked.rows[0] as AuthUser;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    let result = await client.query('SELECT id, name, email FROM users WHERE email = $1', [identity.email]);
+    if (result.rowCount === 0) {
+      // SSO-only accounts get a random password nobody knows; a password reset can set a real one later.
+      const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+      result = await client.query(
+        'INSERT INTO users(name, email, password_hash) VALUES($1, $2, $3) RETURNING id, name, email',
+        [identity.name ?? identity.email.split('@')[0], identity.email, passwordHash]
+      );
+    }
+
+    const user = result.rows[0] as AuthUser;
+    await client.query(
+      `INSERT INTO user_identities (user_id, issuer, subject, email)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (issuer, subject) DO NOTHING`,
+      [user.id, identity.issuer, identity.subject, identity.email]
+    );
+    await client.query('COMMIT');
+    return user;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function createLoginHandoff(userId: number): Promise<string> {
+  const code = crypto.randomBytes(32).toString('base64url');
+  await pool.query('DELETE FROM oidc_login_handoffs WHERE expires_at <= NOW()');
+  await pool.query(
+    `INSERT INTO oidc_login_handoffs (code_hash, user_id, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(secs => $3))`,
+    [hashHandoffCode(code), userId, HANDOFF_TTL_SECONDS]
+  );
+  return code;
+}
+
+export async function consumeLoginHandoff(code: string): Promise<AuthUser | null> {
+  const result = await pool.query(
+    `WITH consumed AS (
+       DELETE FROM oidc_login_handoffs
+       WHERE code_hash = $1 AND expires_at > NOW()
+       RETURNING user_id
+     )
+     SELECT u.id, u.name, u.email
+     FROM consumed
+     JOIN users u ON u.id = consumed.user_id`,
+    [hashHandoffCode(code)]
+  );
+  return result.rowCount === 0 ? null : (result.rows[0] as AuthUser);
+}
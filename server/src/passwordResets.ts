@@ -0,0 +1,32 @@
+import crypto from 'node:crypto';
+import type { PoolClient } from 'pg';
+import { pool } from './db.js';
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Issuing a new token invalidates any earlier ones, so only the latest email works.
+export async function createPasswordResetToken(userId: number): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await pool.query('UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL', [userId]);
+  await pool.query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(mins => $3))`,
+    [userId, hashResetToken(token), RESET_TOKEN_TTL_MINUTES]
+  );
+  return token;
+}
+
+export async function consumePasswordResetToken(client: PoolClient, token: string): Promise<number | null> {
+  const result = await client.query(
+    `UPDATE password_reset_tokens
+     SET used_at = NOW()
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING user_id`,
+    [hashResetToken(token)]
+  );
+  return result.rowCount === 0 ? null : (result.rows[0].user_id as number);
+}
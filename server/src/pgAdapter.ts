@@ -0,0 +1,127 @@
+import type { Pool, PoolClient } from 'pg';
+import type { Namespace } from 'socket.io';
+import { ClusterAdapterWithHeartbeat } from 'socket.io-adapter';
+import type { ClusterAdapterOptions, ClusterMessage, ClusterResponse, ServerId } from 'socket.io-adapter';
+
+// NOTIFY payloads are capped at 8000 bytes, so larger messages go through socket_attachments.
+const MAX_NOTIFY_PAYLOAD_BYTES = 7_500;
+const LISTEN_RETRY_MS = 2_000;
+
+type Envelope =
+  | { kind: 'message'; message: ClusterMessage }
+  | { kind: 'response'; requesterUid: ServerId; response: ClusterResponse };
+
+type Notification = Envelope | { kind: 'attachment'; id: number };
+
+class PostgresAdapter extends ClusterAdapterWithHeartbeat {
+  constructor(
+    nsp: Namespace,
+    opts: ClusterAdapterOptions,
+    private readonly send: (envelope: Envelope) => Promise<void>,
+    private readonly onClose: (adapter: PostgresAdapter) => void
+  ) {
+    super(nsp, opts);
+  }
+
+  receive(envelope: Envelope) {
+    if (envelope.kind === 'message') {
+      this.onMessage(envelope.message);
+    } else if (envelope.requesterUid === this.uid) {
+      this.onResponse(envelope.response);
+    }
+  }
+
+  protected async doPublish(message: ClusterMessage) {
+    await this.send({ kind: 'message', message });
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse) {
+    await this.send({ kind: 'response', requesterUid, response });
+  }
+
+  close() {
+    super.close();
+    this.onClose(this);
+  }
+}
+
+// Lets several API processes share rooms and broadcasts through the database they already use.
+export function createPostgresAdapter(pool: Pool, channel = 'socket_io', opts: ClusterAdapterOptions = {}) {
+  const adapters = new Set<PostgresAdapter>();
+  let listener: PoolClient | null = null;
+  let connecting = false;
+
+  async function listen() {
+    if (listener || connecting) {
+      return;
+    }
+
+    connecting = true;
+    try {
+      const client = await pool.connect();
+      client.on('notification', (notification) => {
+        void dispatch(notification.payload).catch((error: unknown) => console.error(error));
+      });
+      client.on('error', (error) => {
+        console.error(error);
+        client.release(true);
+        listener = null;
+        setTimeout(() => void listen(), LISTEN_RETRY_MS).unref();
+      });
+      await client.query(`LISTEN "${channel}"`);
+      listener = client;
+    } catch (error) {
+      console.error(error);
+      setTimeout(() => void listen(), LISTEN_RETRY_MS).unref();
+    } finally {
+      connecting = false;
+    }
+  }
+
+  async function dispatch(payload: string | undefined) {
+    if (!payload) {
+      return;
+    }
+
+    let notification = JSON.parse(payload) as Notification;
+    if (notification.kind === 'attachment') {
+      const result = await pool.query('SELECT payload FROM socket_attachments WHERE id = $1', [notification.id]);
+      if (result.rowCount === 0) {
+        return;
+      }
+      notification = JSON.parse(result.rows[0].payload as string) as Envelope;
+    }
+
+    for (const adapter of adapters) {
+      adapter.receive(notification);
+    }
+  }
+
+  async function send(envelope: Envelope) {
+    let payload = JSON.stringify(envelope);
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+      const result = await pool.query('INSERT INTO socket_attachments (payload) VALUES ($1) RETURNING id', [payload]);
+      payload = JSON.stringify({ kind: 'attachment', id: Number(result.rows[0].id) });
+      await pool.query(`DELETE FROM socket_attachments WHERE created_at < NOW() - INTERVAL '1 minute'`);
+    }
+
+    await pool.query('SELECT pg_notify($1, $2)', [channel, payload]);
+  }
+
+  function removeAdapter(adapter: PostgresAdapter) {
+    adapters.delete(adapter);
+    if (adapters.size === 0 && listener) {
+      listener.release(true);
+      listener = null;
+    }
+  }
+
+  // Socket.IO calls the factory with `new`, so it cannot be an arrow function.
+  return function (nsp: Namespace) {
+    const adapter = new PostgresAdapter(nsp, opts, send, removeAdapter);
+    adapters.add(adapter);
+    void listen();
+    return adapter;
+  };
+}
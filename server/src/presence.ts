@@ -1,43 +1,118 @@
 import type { Server } from 'socket.io';
+import { pool } from './db.js';
 
-export function createPresenceManager(io: Server) {
-  const boardPresence = new Map<number, Map<number, number>>();
+export type CardPresenceField = 'title' | 'description' | 'assignees' | 'dueDate' | 'labels' | 'checklist' | 'comment';
 
-  function add(boardId: number, userId: number) {
-    const boardMap = boardPresence.get(boardId) ?? new Map<number, number>();
-    boardMap.set(userId, (boardMap.get(userId) ?? 0) + 1);
-    boardPresence.set(boardId, boardMap);
+type CardActivity = { userId: number; cardId: number; field: CardPresenceField | null };
+
+const HEARTBEAT_INTERVAL_MS = 5_000;
+const SERVER_TIMEOUT_SECONDS = 30;
+
+// Presence lives in Postgres so every API process sees the sockets connected to the others.
+// Each process heartbeats into socket_servers; rows of a process that stops heartbeating are swept by the rest.
+export function createPresenceManager(io: Server, serverId: string) {
+  async function start() {
+    await pool.query(
+      `INSERT INTO socket_servers (id) VALUES ($1)
+       ON CONFLICT (id) DO UPDATE SET seen_at = NOW()`,
+      [serverId]
+    );
+
+    setInterval(() => {
+      void heartbeat().catch((error: unknown) => console.error(error));
+    }, HEARTBEAT_INTERVAL_MS).unref();
   }
 
-  function remove(boardId: number, userId: number) {
-    const boardMap = boardPresence.get(boardId);
-    if (!boardMap) {
-      return;
-    }
+  async function heartbeat() {
+    await pool.query('UPDATE socket_servers SET seen_at = NOW() WHERE id = $1', [serverId]);
 
-    const count = boardMap.get(userId) ?? 0;
-    if (count <= 1) {
-      boardMap.delete(userId);
-    } else {
-      boardMap.set(userId, count - 1);
-    }
+    const stale = await pool.query(
+      `DELETE FROM socket_presence
+       WHERE server_id IN (SELECT id FROM socket_servers WHERE seen_at < NOW() - make_interval(secs => $1))
+       RETURNING board_id`,
+      [SERVER_TIMEOUT_SECONDS]
+    );
+    await pool.query('DELETE FROM socket_servers WHERE seen_at < NOW() - make_interval(secs => $1)', [SERVER_TIMEOUT_SECONDS]);
 
-    if (boardMap.size === 0) {
-      boardPresence.delete(boardId);
+    for (const boardId of new Set(stale.rows.map((row) => row.board_id as number))) {
+      await notify(boardId);
+      await notifyCards(boardId);
     }
   }
 
-  function onlineUserIds(boardId: number): number[] {
-    return Array.from(boardPresence.get(boardId)?.keys() ?? []);
+  async function add(boardId: number, userId: number, socketId: string) {
+    await pool.query(
+      `INSERT INTO socket_presence (socket_id, board_id, user_id, server_id)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (socket_id, board_id) DO NOTHING`,
+      [socketId, boardId, userId, serverId]
+    );
+  }
+
+  // Returns whether the socket had a card open, so callers know to refresh card presence.
+  async function remove(boardId: number, socketId: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM socket_presence WHERE socket_id = $1 AND board_id = $2 RETURNING card_id', [
+      socketId,
+      boardId
+    ]);
+    return result.rows.some((row) => row.card_id !== null);
+  }
+
+  async function removeUser(boardId: number, userId: number) {
+    await pool.query('DELETE FROM socket_presence WHERE board_id = $1 AND user_id = $2', [boardId, userId]);
+  }
+
+  async function removeBoard(boardId: number) {
+    await pool.query('DELETE FROM socket_presence WHERE board_id = $1', [boardId]);
   }
 
-  function notify(boardId: number) {
+  // Card activity is tracked per socket so two tabs of the same user do not overwrite each other.
+  async function setCardActivity(boardId: number, socketId: string, activity: CardActivity | null): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE socket_presence
+       SET card_id = $3, field = $4
+       WHERE socket_id = $1 AND board_id = $2
+         AND (card_id IS DISTINCT FROM $3 OR field IS DISTINCT FROM $4)`,
+      [socketId, boardId, activity?.cardId ?? null, activity?.field ?? null]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async function cardPresence(boardId: number): Promise<CardActivity[]> {
+    const result = await pool.query(
+      `SELECT DISTINCT ON (card_id, user_id) card_id, user_id, field
+       FROM socket_presence
+       WHERE board_id = $1 AND card_id IS NOT NULL
+       ORDER BY card_id, user_id, field NULLS LAST`,
+      [boardId]
+    );
+    return result.rows.map((row) => ({
+      cardId: row.card_id as number,
+      userId: row.user_id as number,
+      field: row.field as CardPresenceField | null
+    }));
+  }
+
+  async function onlineUserIds(boardId: number): Promise<number[]> {
+    const result = await pool.query('SELECT DISTINCT user_id FROM socket_presence WHERE board_id = $1', [boardId]);
+    return result.rows.map((row) => row.user_id as number);
+  }
+
+  async function notify(boardId: number) {
     io.to(`board:${boardId}`).emit('presence_changed', {
       boardId,
-      onlineUserIds: onlineUserIds(boardId),
+      onlineUserIds: await onlineUserIds(boardId),
+      at: new Date().toISOString()
+    });
+  }
+
+  async function notifyCards(boardId: number) {
+    io.to(`board:${boardId}`).emit('card_presence_changed', {
+      boardId,
+      cards: await cardPresence(boardId),
       at: new Date().toISOString()
     });
   }
 
-  return { add, remove, notify };
+  return { start, add, remove, removeUser, removeBoard, notify, setCardActivity, notifyCards };
 }
@@ -3,7 +3,8 @@ import { z } from 'zod';
 export const registerSchema = z.object({
   name: z.string().min(1),
   email: z.string().email(),
-  password: z.string().min(6)
+  password: z.string().min(6),
+  inviteToken: z.string().min(1).optional()
 });
 
 export const loginSchema = z.object({
@@ -11,31 +12,219 @@ export const loginSchema = z.object({
   password: z.string().min(1)
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+export const oidcExchangeSchema = z.object({
+  code: z.string().min(1)
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email()
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6)
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6)
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(32)
+});
+
+export const twoFactorVerifySchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1)
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1)
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scope: z.enum(['read', 'write']),
+  boardIds: z.array(z.number().int()).min(1).nullable().optional(),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional()
+});
+
 export const createBoardSchema = z.object({
   name: z.string().min(1)
 });
 
+// Ids inside an export only link its own records together; imports assign fresh ones.
+const exportedIdSchema = z.number().int();
+const exportedTimestampSchema = z.string().datetime({ offset: true });
+
+export const importBoardSchema = z.object({
+  format: z.literal('kanban-board'),
+  version: z.literal(1),
+  board: z.object({
+    name: z.string().trim().min(1).max(200)
+  }),
+  members: z
+    .array(
+      z.object({
+        email: z.string().email(),
+        name: z.string().nullable(),
+        role: z.enum(['owner', 'member', 'viewer'])
+      })
+    )
+    .max(1000),
+  labels: z
+    .array(
+      z.object({
+        id: exportedIdSchema,
+        name: z.string().trim().min(1),
+        color: z.string().regex(/^#[0-9a-fA-F]{6}$/)
+      })
+    )
+    .max(500),
+  columns: z
+    .array(
+      z.object({
+        id: exportedIdSchema,
+        title: z.string().trim().min(1),
+        position: z.number().int(),
+        wipLimit: z.number().int().min(1).nullable(),
+        wipMode: z.enum(['block', 'warn'])
+      })
+    )
+    .max(500),
+  cards: z
+    .array(
+      z.object({
+        id: exportedIdSchema,
+        columnId: exportedIdSchema.nullable(),
+        title: z.string().min(1),
+        description: z.string(),
+        dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+        position: z.number().int(),
+        archivedAt: exportedTimestampSchema.nullable(),
+        createdAt: exportedTimestampSchema,
+        createdByEmail: z.string().nullable(),
+        externalId: z.string().nullable(),
+        assigneeEmails: z.array(z.string()),
+        labelIds: z.array(exportedIdSchema),
+        checklists: z.array(
+          z.object({
+            title: z.string().trim().min(1),
+            position: z.number().int(),
+            items: z.array(
+              z.object({
+                body: z.string().trim().min(1),
+                checked: z.boolean(),
+                position: z.number().int(),
+                assigneeEmail: z.string().nullable()
+              })
+            )
+          })
+        )
+      })
+    )
+    .max(20_000),
+  comments: z
+    .array(
+      z.object({
+        id: exportedIdSchema,
+        cardId: exportedIdSchema,
+        authorEmail: z.string().nullable(),
+        body: z.string().min(1),
+        createdAt: exportedTimestampSchema
+      })
+    )
+    .max(100_000),
+  activities: z
+    .array(
+      z.object({
+        actorEmail: z.string().nullable(),
+        entityType: z.string().min(1),
+        entityId: exportedIdSchema.nullable(),
+        action: z.string().min(1),
+        message: z.string(),
+        metadata: z.record(z.unknown()),
+        createdAt: exportedTimestampSchema
+      })
+    )
+    .max(100_000)
+});
+
+export const boardExportQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).default('json')
+});
+
+export const updateBoardSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  archived: z.boolean().optional()
+});
+
+export const updateBoardPreferencesSchema = z.object({
+  swimlaneGroup: z.enum(['none', 'assignee', 'label'])
+});
+
 export const createColumnSchema = z.object({
   title: z.string().min(1)
 });
 
 export const updateColumnSchema = z.object({
   title: z.string().min(1).optional(),
-  position: z.number().int().optional()
+  position: z.number().int().optional(),
+  wipLimit: z.number().int().min(1).max(1000).nullable().optional(),
+  wipMode: z.enum(['block', 'warn']).optional(),
+  version: z.number().int().optional()
 });
 
+export const deleteColumnSchema = z.discriminatedUnion('mode', [
+  z.object({
+    mode: z.literal('move'),
+    targetColumnId: z.number().int()
+  }),
+  z.object({
+    mode: z.literal('archive')
+  })
+]);
+
 export const createCardSchema = z.object({
   title: z.string().min(1),
   description: z.string().optional(),
-  assignee: z.string().optional(),
+  assigneeIds: z.array(z.number().int()).max(20).optional(),
+  dueDate: z.string().optional()
+});
+
+export const inboundCardSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  description: z.string().max(20_000).optional(),
+  column: z.union([z.number().int(), z.string().trim().min(1)]).optional(),
+  labels: z.array(z.string().trim().min(1)).max(20).optional(),
+  externalId: z.string().trim().min(1).max(200).optional(),
   dueDate: z.string().optional()
 });
 
 export const updateCardSchema = z.object({
   title: z.string().min(1).optional(),
   description: z.string().optional(),
-  assignee: z.string().nullable().optional(),
-  dueDate: z.string().nullable().optional()
+  assigneeIds: z.array(z.number().int()).max(20).optional(),
+  dueDate: z.string().nullable().optional(),
+  version: z.number().int().optional()
+});
+
+export const boardCardFiltersSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  assignee: z.union([z.literal('none'), z.coerce.number().int()]).optional(),
+  labels: z
+    .string()
+    .regex(/^\d+(,\d+)*$/, 'labels must be a comma-separated list of ids')
+    .transform((value) => value.split(',').map(Number))
+    .optional(),
+  due: z.enum(['overdue', 'soon', 'none']).optional(),
+  today: z.string().date().optional(),
+  createdBy: z.coerce.number().int().optional(),
+  include: z.coerce.number().int().optional()
 });
 
 export const moveCardSchema = z.object({
@@ -43,11 +232,94 @@ export const moveCardSchema = z.object({
   toPosition: z.number().int().min(0)
 });
 
+const labelColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #1e88e5');
+
+export const createLabelSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  color: labelColorSchema
+});
+
+export const updateLabelSchema = z.object({
+  name: z.string().trim().min(1).max(40).optional(),
+  color: labelColorSchema.optional()
+});
+
 export const addMemberSchema = z.object({
   email: z.string().email(),
   role: z.enum(['member', 'viewer'])
 });
 
+export const createInvitationSchema = z.object({
+  role: z.enum(['member', 'viewer']),
+  expiresInHours: z.number().int().min(1).max(24 * 90).nullable().optional(),
+  maxUses: z.number().int().min(1).max(1000).nullable().optional()
+});
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .refine((url) => /^https?:\/\//i.test(url), 'Webhook URL must use http or https');
+
+// `card.moved` matches one event, `card.*` every event for that entity; an empty list matches everything.
+const webhookEventsSchema = z.array(z.string().trim().regex(/^[a-z_]+\.([a-z_]+|\*)$/, 'Events look like card.created or card.*')).max(50);
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  secret: z.string().min(16).max(200).optional(),
+  events: webhookEventsSchema.optional()
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  active: z.boolean().optional()
+});
+
+export const updateMemberSchema = z.object({
+  role: z.enum(['owner', 'member', 'viewer'])
+});
+
+export const transferOwnershipSchema = z.object({
+  userId: z.number().int(),
+  leave: z.boolean().optional()
+});
+
+export const createChecklistSchema = z.object({
+  title: z.string().trim().min(1)
+});
+
+export const updateChecklistSchema = z.object({
+  title: z.string().trim().min(1)
+});
+
+export const createChecklistItemSchema = z.object({
+  body: z.string().trim().min(1),
+  assigneeUserId: z.number().int().nullable().optional()
+});
+
+export const updateChecklistItemSchema = z.object({
+  body: z.string().trim().min(1).optional(),
+  checked: z.boolean().optional(),
+  assigneeUserId: z.number().int().nullable().optional()
+});
+
+export const moveChecklistItemSchema = z.object({
+  toPosition: z.number().int().min(0)
+});
+
 export const addCommentSchema = z.object({
   body: z.string().min(1)
 });
+
+export const cardPresenceSchema = z.object({
+  boardId: z.number().int(),
+  cardId: z.number().int().nullable(),
+  field: z.enum(['title', 'description', 'assignees', 'dueDate', 'labels', 'checklist', 'comment']).nullable().optional()
+});
+
+export const cardDragSchema = z.object({
+  boardId: z.number().int(),
+  cardId: z.number().int(),
+  columnId: z.number().int().nullable().optional()
+});
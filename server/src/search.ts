@@ -0,0 +1,82 @@
+import { pool } from './db.js';
+
+// Must match the expression indexes in db/schema.sql so the planner can use them.
+const cardDocument = `to_tsvector('english', c.title || ' ' || c.description)`;
+const commentDocument = `to_tsvector('english', cm.body)`;
+
+// ts_headline marks matches with control characters instead of tags, so snippets never carry markup.
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const headlineOptions = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export type SnippetSegment = { text: string; match: boolean };
+
+export type SearchHit = {
+  type: 'card' | 'comment';
+  board_id: number;
+  board_name: string;
+  card_id: number;
+  card_title: string;
+  comment_id: number | null;
+  snippet: SnippetSegment[];
+  rank: number;
+};
+
+function toSnippetSegments(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(MATCH_START);
+    if (start === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+
+    const end = rest.indexOf(MATCH_END, start);
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), match: false });
+    }
+    segments.push({ text: rest.slice(start + 1, end === -1 ? undefined : end), match: true });
+    rest = end === -1 ? '' : rest.slice(end + 1);
+  }
+
+  return segments;
+}
+
+export async function searchCards(userId: number, query: string, limit: number, boardIds: number[] | null = null): Promise<SearchHit[]> {
+  const result = await pool.query(
+    `WITH q AS (SELECT websearch_to_tsquery('english', $2) AS query)
+     SELECT * FROM (
+       SELECT 'card' AS type, c.board_id, b.name AS board_name, c.id AS card_id, c.title AS card_title,
+              NULL::int AS comment_id,
+              ts_headline('english', c.title || ' ' || c.description, q.query, $3) AS headline,
+              ts_rank(${cardDocument}, q.query) AS rank,
+              c.updated_at AS touched_at
+       FROM cards c
+       JOIN board_members bm ON bm.board_id = c.board_id AND bm.user_id = $1
+       JOIN boards b ON b.id = c.board_id
+       CROSS JOIN q
+       WHERE c.archived_at IS NULL AND ${cardDocument} @@ q.query AND ($5::int[] IS NULL OR c.board_id = ANY($5))
+       UNION ALL
+       SELECT 'comment' AS type, c.board_id, b.name AS board_name, c.id AS card_id, c.title AS card_title,
+              cm.id AS comment_id,
+              ts_headline('english', cm.body, q.query, $3) AS headline,
+              ts_rank(${commentDocument}, q.query) AS rank,
+              cm.created_at AS touched_at
+       FROM card_comments cm
+       JOIN cards c ON c.id = cm.card_id
+       JOIN board_members bm ON bm.board_id = c.board_id AND bm.user_id = $1
+       JOIN boards b ON b.id = c.board_id
+       CROSS JOIN q
+       WHERE c.archived_at IS NULL AND ${commentDocument} @@ q.query AND ($5::int[] IS NULL OR c.board_id = ANY($5))
+     ) hits
+     ORDER BY rank DESC, touched_at DESC
+     LIMIT $4`,
+    [userId, query, headlineOptions, limit, boardIds]
+  );
+
+  return (result.rows as Array<Omit<SearchHit, 'snippet'> & { headline: string; touched_at: string }>).map(
+    ({ headline, touched_at: _touchedAt, ...hit }) => ({ ...hit, snippet: toSnippetSegments(headline) })
+  );
+}
@@ -0,0 +1,160 @@
+import crypto from 'node:crypto';
+import { jwtSecret, refreshReuseGraceSeconds } from './config.js';
+import { pool } from './db.js';
+
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+export type SessionMeta = {
+  userAgent: string | null;
+  ipAddress: string | null;
+};
+
+export type RotatedSession =
+  | { status: 'rotated'; sessionId: number; userId: number; refreshToken: string }
+  | { status: 'reused'; sessionId: number }
+  | { status: 'invalid' };
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// The next token is derived from the one it replaces, so a refresh within the grace window can hand out the same pair
+// again even though only hashes are stored.
+function deriveNextRefreshToken(token: string): string {
+  return crypto.createHmac('sha256', jwtSecret).update(`refresh:${token}`).digest('base64url');
+}
+
+export async function createSession(userId: number, meta: SessionMeta): Promise<{ sessionId: number; refreshToken: string }> {
+  const refreshToken = generateRefreshToken();
+  const result = await pool.query(
+    `INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+     RETURNING id`,
+    [userId, hashRefreshToken(refreshToken), meta.userAgent, meta.ipAddress, REFRESH_TOKEN_TTL_DAYS]
+  );
+
+  return { sessionId: result.rows[0].id as number, refreshToken };
+}
+
+// Each refresh token works once. Presenting the one that was just rotated away within the grace window returns the
+// current pair; any other use of a token the session has retired, however many rotations ago, means it leaked, so the
+// session is revoked.
+export async function rotateSession(refreshToken: string, meta: SessionMeta): Promise<RotatedSession> {
+  const tokenHash = hashRefreshToken(refreshToken);
+  const nextToken = deriveNextRefreshToken(refreshToken);
+
+  const rotated = await pool.query(
+    `WITH rotated AS (
+       UPDATE sessions
+       SET previous_token_hash = refresh_token_hash,
+           refresh_token_hash = $2,
+           rotated_at = NOW(),
+           user_agent = COALESCE($3, user_agent),
+           ip_address = COALESCE($4, ip_address),
+           last_used_at = NOW(),
+           expires_at = NOW() + make_interval(days => $5)
+       WHERE refresh_token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING id, user_id
+     ), retired AS (
+       INSERT INTO session_refresh_tokens (token_hash, session_id)
+       SELECT $1, id FROM rotated
+       ON CONFLICT (token_hash) DO NOTHING
+     )
+     SELECT id, user_id FROM rotated`,
+    [tokenHash, hashRefreshToken(nextToken), meta.userAgent, meta.ipAddress, REFRESH_TOKEN_TTL_DAYS]
+  );
+  if ((rotated.rowCount ?? 0) > 0) {
+    return {
+      status: 'rotated',
+      sessionId: rotated.rows[0].id as number,
+      userId: rotated.rows[0].user_id as number,
+      refreshToken: nextToken
+    };
+  }
+
+  const concurrent = await pool.query(
+    `UPDATE sessions
+     SET last_used_at = NOW()
+     WHERE previous_token_hash = $1
+       AND refresh_token_hash = $2
+       AND rotated_at > NOW() - make_interval(secs => $3)
+       AND revoked_at IS NULL
+       AND expires_at > NOW()
+     RETURNING id, user_id`,
+    [tokenHash, hashRefreshToken(nextToken), refreshReuseGraceSeconds]
+  );
+  if ((concurrent.rowCount ?? 0) > 0) {
+    return {
+      status: 'rotated',
+      sessionId: concurrent.rows[0].id as number,
+      userId: concurrent.rows[0].user_id as number,
+      refreshToken: nextToken
+    };
+  }
+
+  const reused = await pool.query(
+    `UPDATE sessions
+     SET revoked_at = NOW()
+     WHERE id = (SELECT session_id FROM session_refresh_tokens WHERE token_hash = $1) AND revoked_at IS NULL
+     RETURNING id`,
+    [tokenHash]
+  );
+  if ((reused.rowCount ?? 0) > 0) {
+    return { status: 'reused', sessionId: reused.rows[0].id as number };
+  }
+
+  return { status: 'invalid' };
+}
+
+export async function isSessionActive(sessionId: number, userId: number): Promise<boolean> {
+  const result = await pool.query(
+    'SELECT 1 FROM sessions WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > NOW()',
+    [sessionId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<number | null> {
+  const result = await pool.query(
+    'UPDATE sessions SET revoked_at = NOW() WHERE refresh_token_hash = $1 AND revoked_at IS NULL RETURNING id',
+    [hashRefreshToken(refreshToken)]
+  );
+  return result.rowCount === 0 ? null : (result.rows[0].id as number);
+}
+
+export async function revokeUserSessions(userId: number, options: { sessionId?: number; exceptSessionId?: number } = {}): Promise<number[]> {
+  const result = await pool.query(
+    `UPDATE sessions
+     SET revoked_at = NOW()
+     WHERE user_id = $1
+       AND revoked_at IS NULL
+       AND expires_at > NOW()
+       AND ($2::int IS NULL OR id = $2)
+       AND ($3::int IS NULL OR id <> $3)
+     RETURNING id`,
+    [userId, options.sessionId ?? null, options.exceptSessionId ?? null]
+  );
+  return result.rows.map((row) => row.id as number);
+}
+
+export async function listActiveSessions(userId: number) {
+  const result = await pool.query(
+    `SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at
+     FROM sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY last_used_at DESC`,
+    [userId]
+  );
+  return result.rows as Array<{
+    id: number;
+    user_agent: string | null;
+    ip_address: string | null;
+    created_at: string;
+    last_used_at: string;
+    expires_at: string;
+  }>;
+}
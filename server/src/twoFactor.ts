@@ -0,0 +1,105 @@
+import crypto from 'node:crypto';
+import { pool } from './db.js';
+import { generateTotpSecret, verifyTotp } from './totp.js';
+
+const RECOVERY_CODE_COUNT = 10;
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await pool.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+  await pool.query(
+    `INSERT INTO two_factor_recovery_codes (user_id, code_hash)
+     SELECT $1, UNNEST($2::text[])`,
+    [userId, codes.map(hashRecoveryCode)]
+  );
+  return codes;
+}
+
+export async function getTwoFactorStatus(userId: number): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+  const result = await pool.query(
+    `SELECT
+       EXISTS (SELECT 1 FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NOT NULL) AS enabled,
+       (SELECT COUNT(*)::int FROM two_factor_recovery_codes WHERE user_id = $1 AND used_at IS NULL) AS remaining`,
+    [userId]
+  );
+  return { enabled: result.rows[0].enabled as boolean, recoveryCodesRemaining: result.rows[0].remaining as number };
+}
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  return (await getTwoFactorStatus(userId)).enabled;
+}
+
+// Starting over replaces any unconfirmed secret; returns null when 2FA is already on.
+export async function beginTwoFactorSetup(userId: number): Promise<string | null> {
+  const secret = generateTotpSecret();
+  const result = await pool.query(
+    `INSERT INTO user_two_factor (user_id, secret)
+     VALUES ($1, $2)
+     ON CONFLICT (user_id) DO UPDATE
+     SET secret = EXCLUDED.secret, last_used_step = 0, created_at = NOW()
+     WHERE user_two_factor.enabled_at IS NULL
+     RETURNING user_id`,
+    [userId, secret]
+  );
+  return result.rowCount === 0 ? null : secret;
+}
+
+export async function enableTwoFactor(userId: number, code: string): Promise<string[] | null> {
+  const pending = await pool.query('SELECT secret FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NULL', [userId]);
+  if (pending.rowCount === 0) {
+    return null;
+  }
+
+  const step = verifyTotp(pending.rows[0].secret as string, code);
+  if (step === null) {
+    return null;
+  }
+
+  await pool.query('UPDATE user_two_factor SET enabled_at = NOW(), last_used_step = $2 WHERE user_id = $1', [userId, step]);
+  return regenerateRecoveryCodes(userId);
+}
+
+// Accepts either a current authenticator code or an unused recovery code; both work only once.
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<boolean> {
+  const result = await pool.query(
+    'SELECT secret, last_used_step FROM user_two_factor WHERE user_id = $1 AND enabled_at IS NOT NULL',
+    [userId]
+  );
+  if (result.rowCount === 0) {
+    return false;
+  }
+
+  const step = verifyTotp(result.rows[0].secret as string, code, Number(result.rows[0].last_used_step));
+  if (step !== null) {
+    const claimed = await pool.query(
+      'UPDATE user_two_factor SET last_used_step = $2 WHERE user_id = $1 AND last_used_step < $2',
+      [userId, step]
+    );
+    return (claimed.rowCount ?? 0) > 0;
+  }
+
+  const recovery = await pool.query(
+    `UPDATE two_factor_recovery_codes
+     SET used_at = NOW()
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+    [userId, hashRecoveryCode(code)]
+  );
+  return (recovery.rowCount ?? 0) > 0;
+}
+
+export async function disableTwoFactor(userId: number) {
+  await pool.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+  await pool.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+}
@@ -14,6 +14,16 @@ export type AuthUser = {
   name: string;
 };
 
+export type ApiTokenScope = 'read' | 'write';
+
+export type ApiTokenGrant = {
+  id: number;
+  scope: ApiTokenScope;
+  boardIds: number[] | null;
+};
+
 export type AuthRequest = express.Request & {
   user?: AuthUser;
+  sessionId?: number;
+  apiToken?: ApiTokenGrant;
 };
@@ -0,0 +1,69 @@
+import dns from 'node:dns/promises';
+import net from 'node:net';
+import { webhookAllowedHosts } from './config.js';
+
+export type WebhookTarget =
+  | { status: 'pinned'; address: string; family: 4 | 6 }
+  | { status: 'trusted' }
+  | { status: 'blocked'; message: string };
+
+// Loopback, private, link-local (cloud metadata), shared, multicast, and reserved ranges are never webhook targets.
+// BlockList applies the IPv4 ranges to IPv4-mapped IPv6 addresses as well.
+const blockedRanges = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  blockedRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  blockedRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string, family: 4 | 6) {
+  return blockedRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolves the host once per attempt and returns the address to connect to, so a DNS answer cannot change between the
+// check and the request. Hosts listed in WEBHOOK_ALLOWED_HOSTS skip the check entirely.
+export async function resolveWebhookTarget(url: URL): Promise<WebhookTarget> {
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (webhookAllowedHosts.includes(host)) {
+    return { status: 'trusted' };
+  }
+
+  const literalFamily = net.isIP(host);
+  const addresses =
+    literalFamily === 0 ? await dns.lookup(host, { all: true }) : [{ address: host, family: literalFamily }];
+  if (addresses.length === 0 || addresses.some((entry) => isBlockedAddress(entry.address, entry.family as 4 | 6))) {
+    return { status: 'blocked', message: 'Webhook host resolves to a private or reserved address' };
+  }
+
+  return { status: 'pinned', address: addresses[0].address, family: addresses[0].family as 4 | 6 };
+}
+
+export function pinnedLookup(address: string, family: 4 | 6): net.LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+      return;
+    }
+    callback(null, address, family);
+  };
+}
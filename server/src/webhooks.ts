@@ -0,0 +1,311 @@
+import crypto from 'node:crypto';
+import http from 'node:http';
+import https from 'node:https';
+import {
+  webhookDeliveryRetentionDays,
+  webhookMaxAttempts,
+  webhookPollIntervalMs,
+  webhookRetryBaseMs,
+  webhookTimeoutMs
+} from './config.js';
+import { pool } from './db.js';
+import { pinnedLookup, resolveWebhookTarget } from './webhookTargets.js';
+
+const DELIVERY_BATCH_SIZE = 10;
+const DELIVERY_LOG_LIMIT = 50;
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+const PRUNE_BATCH_SIZE = 1000;
+
+export type WebhookRecord = {
+  id: number;
+  board_id: number;
+  url: string;
+  events: string[];
+  active: boolean;
+  created_at: string;
+  last_delivery_status: string | null;
+  last_delivery_at: string | null;
+};
+
+export type WebhookDeliveryRecord = {
+  id: number;
+  webhook_id: number;
+  event: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+  next_attempt_at: string;
+  delivered_at: string | null;
+};
+
+type ClaimedDelivery = {
+  id: number;
+  event: string;
+  payload: unknown;
+  attempts: number;
+  url: string;
+  secret: string;
+};
+
+const WEBHOOK_COLUMNS = `w.id, w.board_id, w.url, w.events, w.active, w.created_at,
+  last_delivery.status AS last_delivery_status,
+  last_delivery.created_at AS last_delivery_at`;
+
+const LAST_DELIVERY_JOIN = `LEFT JOIN LATERAL (
+  SELECT d.status, d.created_at FROM webhook_deliveries d WHERE d.webhook_id = w.id ORDER BY d.id DESC LIMIT 1
+) last_delivery ON TRUE`;
+
+// Receivers recompute this over `${timestamp}.${body}` to check the request came from us and is recent.
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export async function listWebhooks(boardId: number): Promise<WebhookRecord[]> {
+  const result = await pool.query(
+    `SELECT ${WEBHOOK_COLUMNS}
+     FROM board_webhooks w
+     ${LAST_DELIVERY_JOIN}
+     WHERE w.board_id = $1
+     ORDER BY w.created_at DESC`,
+    [boardId]
+  );
+  return result.rows as WebhookRecord[];
+}
+
+export async function getWebhookBoardId(webhookId: number): Promise<number | null> {
+  const result = await pool.query('SELECT board_id FROM board_webhooks WHERE id = $1', [webhookId]);
+  return result.rowCount === 0 ? null : (result.rows[0].board_id as number);
+}
+
+// The secret is only returned here; afterwards it is used to sign deliveries but never shown again.
+export async function createWebhook(
+  boardId: number,
+  userId: number,
+  options: { url: string; secret: string | null; events: string[] }
+): Promise<WebhookRecord & { secret: string }> {
+  const secret = options.secret ?? `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+  const result = await pool.query(
+    `INSERT INTO board_webhooks (board_id, url, secret, events, created_by)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING id, board_id, url, events, active, created_at`,
+    [boardId, options.url, secret, options.events, userId]
+  );
+  return { ...(result.rows[0] as WebhookRecord), last_delivery_status: null, last_delivery_at: null, secret };
+}
+
+export async function updateWebhook(
+  webhookId: number,
+  changes: { url?: string; events?: string[]; active?: boolean }
+): Promise<{ webhook: WebhookRecord; previousUrl: string } | null> {
+  const result = await pool.query(
+    `WITH previous AS (
+       SELECT id, url FROM board_webhooks WHERE id = $1 FOR UPDATE
+     ), updated AS (
+       UPDATE board_webhooks
+       SET url = COALESCE($2, board_webhooks.url),
+           events = COALESCE($3, events),
+           active = COALESCE($4, active)
+       FROM previous
+       WHERE board_webhooks.id = previous.id
+       RETURNING board_webhooks.*, previous.url AS previous_url
+     )
+     SELECT ${WEBHOOK_COLUMNS}, w.previous_url
+     FROM updated w
+     ${LAST_DELIVERY_JOIN}`,
+    [webhookId, changes.url ?? null, changes.events ?? null, changes.active ?? null]
+  );
+  if (result.rowCount === 0) {
+    return null;
+  }
+
+  const { previous_url: previousUrl, ...webhook } = result.rows[0];
+  return { webhook: webhook as WebhookRecord, previousUrl: previousUrl as string };
+}
+
+export async function deleteWebhook(webhookId: number) {
+  await pool.query('DELETE FROM board_webhooks WHERE id = $1', [webhookId]);
+}
+
+export async function listWebhookDeliveries(webhookId: number): Promise<WebhookDeliveryRecord[]> {
+  const result = await pool.query(
+    `SELECT id, webhook_id, event, status, attempts, response_status, last_error,
+            created_at, last_attempt_at, next_attempt_at, delivered_at
+     FROM webhook_deliveries
+     WHERE webhook_id = $1
+     ORDER BY id DESC
+     LIMIT $2`,
+    [webhookId, DELIVERY_LOG_LIMIT]
+  );
+  return result.rows as WebhookDeliveryRecord[];
+}
+
+export async function getDeliveryBoardId(deliveryId: number): Promise<number | null> {
+  const result = await pool.query(
+    `SELECT w.board_id FROM webhook_deliveries d JOIN board_webhooks w ON w.id = d.webhook_id WHERE d.id = $1`,
+    [deliveryId]
+  );
+  return result.rowCount === 0 ? null : (result.rows[0].board_id as number);
+}
+
+// Queues a fresh copy of the payload, leaving the original attempt in the log.
+export async function redeliverWebhookDelivery(deliveryId: number): Promise<WebhookDeliveryRecord> {
+  const result = await pool.query(
+    `INSERT INTO webhook_deliveries (webhook_id, event, payload)
+     SELECT webhook_id, event, payload FROM webhook_deliveries WHERE id = $1
+     RETURNING id, webhook_id, event, status, attempts, response_status, last_error,
+               created_at, last_attempt_at, next_attempt_at, delivered_at`,
+    [deliveryId]
+  );
+  return result.rows[0] as WebhookDeliveryRecord;
+}
+
+// Deliveries are claimed with SKIP LOCKED so several API processes can share the queue. A claim pushes
+// next_attempt_at past the request timeout, so a process that dies mid-delivery leaves the row to be retried.
+// Redirects are not followed, and the connection goes to the address resolveWebhookTarget approved.
+async function postWebhook(rawUrl: string, headers: Record<string, string>, body: string): Promise<number> {
+  const url = new URL(rawUrl);
+  const target = await resolveWebhookTarget(url);
+  if (target.status === 'blocked') {
+    throw new Error(target.message);
+  }
+
+  const transport = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      url,
+      {
+        method: 'POST',
+        headers,
+        lookup: target.status === 'pinned' ? pinnedLookup(target.address, target.family) : undefined,
+        signal: AbortSignal.timeout(webhookTimeoutMs)
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+export function createWebhookDispatcher() {
+  let running = false;
+  let lastPrunedAt = 0;
+
+  function start() {
+    setInterval(() => {
+      if (running) {
+        return;
+      }
+      running = true;
+      void deliverDue()
+        .then(() => pruneFinished())
+        .catch((error: unknown) => console.error(error))
+        .finally(() => {
+          running = false;
+        });
+    }, webhookPollIntervalMs).unref();
+  }
+
+  async function deliverDue() {
+    const result = await pool.query(
+      `UPDATE webhook_deliveries d
+       SET attempts = d.attempts + 1,
+           last_attempt_at = NOW(),
+           next_attempt_at = NOW() + make_interval(secs => $2)
+       FROM board_webhooks w
+       WHERE w.id = d.webhook_id
+         AND d.id IN (
+           SELECT q.id
+           FROM webhook_deliveries q
+           JOIN board_webhooks qw ON qw.id = q.webhook_id
+           WHERE q.status = 'pending' AND q.next_attempt_at <= NOW() AND qw.active
+           ORDER BY q.next_attempt_at
+           LIMIT $1
+           FOR UPDATE OF q SKIP LOCKED
+         )
+       RETURNING d.id, d.event, d.payload, d.attempts, w.url, w.secret`,
+      [DELIVERY_BATCH_SIZE, webhookTimeoutMs / 1000 + 30]
+    );
+
+    await Promise.all((result.rows as ClaimedDelivery[]).map((delivery) => deliver(delivery)));
+  }
+
+  // Every activity queues a delivery with its full payload, so finished ones are dropped once they age out of the log.
+  async function pruneFinished() {
+    if (Date.now() - lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    lastPrunedAt = Date.now();
+
+    let deleted: number;
+    do {
+      const result = await pool.query(
+        `DELETE FROM webhook_deliveries
+         WHERE id IN (
+           SELECT id
+           FROM webhook_deliveries
+           WHERE status <> 'pending' AND created_at < NOW() - make_interval(days => $1)
+           LIMIT $2
+         )`,
+        [webhookDeliveryRetentionDays, PRUNE_BATCH_SIZE]
+      );
+      deleted = result.rowCount ?? 0;
+    } while (deleted === PRUNE_BATCH_SIZE);
+  }
+
+  async function deliver(delivery: ClaimedDelivery) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let responseStatus: number | null = null;
+    let failure: string | null = null;
+
+    try {
+      responseStatus = await postWebhook(
+        delivery.url,
+        {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Kanban-Webhooks',
+          'X-Kanban-Event': delivery.event,
+          'X-Kanban-Delivery': String(delivery.id),
+          'X-Kanban-Timestamp': timestamp,
+          'X-Kanban-Signature': `sha256=${signWebhookPayload(delivery.secret, timestamp, body)}`
+        },
+        body
+      );
+      if (responseStatus < 200 || responseStatus >= 300) {
+        failure = `Receiver responded with ${responseStatus}`;
+      }
+    } catch (error) {
+      failure = (error as Error).message;
+    }
+
+    if (!failure) {
+      await pool.query(
+        `UPDATE webhook_deliveries
+         SET status = 'delivered', delivered_at = NOW(), response_status = $2, last_error = NULL
+         WHERE id = $1`,
+        [delivery.id, responseStatus]
+      );
+      return;
+    }
+
+    // Retries back off exponentially until the attempt budget is spent, then the delivery is marked failed.
+    const retryDelayMs = webhookRetryBaseMs * 2 ** (delivery.attempts - 1);
+    await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = CASE WHEN attempts >= $4 THEN 'failed' ELSE 'pending' END,
+           next_attempt_at = NOW() + make_interval(secs => $5),
+           response_status = $2,
+           last_error = $3
+       WHERE id = $1`,
+      [delivery.id, responseStatus, failure.slice(0, 500), webhookMaxAttempts, retryDelayMs / 1000]
+    );
+  }
+
+  return { start };
+}